@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { apiKeyScopes, type ApiKey, type ApiKeyScope } from "@shared/schema";
+
+interface ApiKeysDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ApiKeySummary = Omit<ApiKey, "keyHash">;
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "jobs:read": "Read jobs",
+  "jobs:write": "Start and retry jobs",
+  "files:write": "Upload files",
+  "export:read": "Export results",
+  "ai:use": "Use the AI assistant",
+};
+
+export default function ApiKeysDialog({ open, onClose }: ApiKeysDialogProps) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["jobs:read"]);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const { data: keys = [], isLoading } = useQuery<ApiKeySummary[]>({
+    queryKey: ["/api/api-keys"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/api-keys");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/api-keys", {
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      return response.json();
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setNewKey(created.key);
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "API key not created", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "API key not revoked", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const handleClose = () => {
+    setNewKey(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Keys
+          </DialogTitle>
+          <DialogDescription>
+            Keys let scripts call the API without signing in. Send one as the <code>X-API-Key</code> header;
+            the endpoints are described at <code>/api/openapi.json</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        {newKey && (
+          <div className="rounded-md border border-success-green bg-green-50 p-3 space-y-2">
+            <p className="text-sm font-medium text-text-dark">Copy your new key now. It won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <Input value={newKey} readOnly className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(newKey)}
+                aria-label="Copy API key"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3 border-b pb-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. ATS sync"
+              maxLength={100}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {apiKeyScopes.map(scope => (
+              <div key={scope} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`api-key-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                  {SCOPE_LABELS[scope]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create Key'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-neutral-gray">Loading keys...</p>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-neutral-gray">No API keys yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {keys.map(key => (
+              <li key={key.id} className="flex items-center justify-between py-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-text-dark">{key.name}</span>
+                    <code className="text-xs text-neutral-gray">{key.prefix}…</code>
+                    {key.revokedAt && <Badge className="bg-error-red text-white">Revoked</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {(key.scopes as ApiKeyScope[]).map(scope => (
+                      <Badge key={scope} variant="secondary" className="bg-gray-100 text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-neutral-gray">
+                    Last used: {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "Never"}
+                    {key.expiresAt && ` • Expires ${new Date(key.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {!key.revokedAt && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(key.id)}
+                    disabled={revokeMutation.isPending}
+                    className="text-error-red hover:bg-error-red hover:text-white"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
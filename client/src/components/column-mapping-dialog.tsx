@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import type { ColumnMappingTemplate } from "@shared/schema";
+import {
+  getColumnKeys,
+  mappedFieldNames,
+  MAPPED_FIELD_LABELS,
+  type ColumnMapping,
+  type UploadPreview,
+} from "@shared/column-mapping";
+
+interface ColumnMappingDialogProps {
+  preview: UploadPreview | null;
+  isUploading: boolean;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Radix Select doesn't allow empty values
+const NONE = "__none__";
+
+export default function ColumnMappingDialog({ preview, isUploading, onConfirm, onCancel }: ColumnMappingDialogProps) {
+  const [sheetName, setSheetName] = useState("");
+  const [headerRow, setHeaderRow] = useState<number | null>(null);
+  const [columns, setColumns] = useState<Partial<ColumnMapping["columns"]>>({});
+  const [saveTemplate, setSaveTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+
+  const { data: templates = [] } = useQuery<ColumnMappingTemplate[]>({
+    queryKey: ["/api/column-mapping-templates"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/column-mapping-templates");
+      return response.json();
+    },
+    enabled: !!preview,
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (data: { name: string; mapping: ColumnMapping }) => {
+      const response = await apiRequest("POST", "/api/column-mapping-templates", { body: JSON.stringify(data) });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/column-mapping-templates"] });
+    },
+    onError: () => {
+      toast({
+        title: "Template not saved",
+        description: "The upload continues, but the mapping could not be saved as a template.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start from the server's suggestion whenever a new file is previewed
+  useEffect(() => {
+    if (!preview) return;
+    const suggested = preview.suggestedMapping;
+    setSheetName(suggested?.sheetName ?? preview.sheets[0]?.name ?? "");
+    setHeaderRow(suggested ? suggested.headerRow : preview.sheets[0]?.suggestedHeaderRow ?? null);
+    setColumns(suggested?.columns ?? {});
+    setSaveTemplate(false);
+    setTemplateName("");
+  }, [preview]);
+
+  const sheet = preview?.sheets.find(s => s.name === sheetName) ?? preview?.sheets[0];
+  const columnKeys = useMemo(
+    () => (sheet ? getColumnKeys(sheet.rows, headerRow) : []),
+    [sheet, headerRow]
+  );
+  const dataRows = sheet ? sheet.rows.slice(headerRow !== null ? headerRow + 1 : 0) : [];
+
+  const handleSheetChange = (name: string) => {
+    const nextSheet = preview?.sheets.find(s => s.name === name);
+    setSheetName(name);
+    setHeaderRow(nextSheet?.suggestedHeaderRow ?? null);
+    setColumns({});
+  };
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find(t => String(t.id) === templateId);
+    if (!template || !preview) return;
+
+    const mapping = template.mapping as ColumnMapping;
+    const templateSheet = preview.sheets.find(s => s.name === mapping.sheetName) ?? sheet;
+    if (!templateSheet) return;
+
+    const keys = getColumnKeys(templateSheet.rows, mapping.headerRow);
+    const applied: Partial<ColumnMapping["columns"]> = {};
+    for (const [field, key] of Object.entries(mapping.columns)) {
+      if (key && keys.includes(key)) {
+        applied[field as keyof ColumnMapping["columns"]] = key;
+      }
+    }
+
+    setSheetName(templateSheet.name);
+    setHeaderRow(mapping.headerRow);
+    setColumns(applied);
+    if (!applied.url) {
+      toast({
+        title: "Template doesn't fully match",
+        description: `This file has no "${mapping.columns.url}" column. Pick the URL column manually.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setColumn = (field: keyof ColumnMapping["columns"], key: string) => {
+    setColumns(current => ({ ...current, [field]: key === NONE ? undefined : key }));
+  };
+
+  const handleConfirm = () => {
+    if (!sheet || !columns.url) return;
+
+    const mapping: ColumnMapping = {
+      sheetName: sheet.name,
+      headerRow,
+      columns: { ...columns, url: columns.url },
+    };
+    if (saveTemplate && templateName.trim()) {
+      saveTemplateMutation.mutate({ name: templateName.trim(), mapping });
+    }
+    onConfirm(mapping);
+  };
+
+  const mappedKeys = new Set(Object.values(columns).filter(Boolean));
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Map columns</DialogTitle>
+          <DialogDescription>
+            Choose where the LinkedIn URLs are in {preview?.fileName}, and optionally which columns hold the name, company and email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[calc(90vh-180px)] pr-4">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {templates.length > 0 && (
+                <div className="space-y-1">
+                  <Label htmlFor="mapping-template">Template</Label>
+                  <Select onValueChange={applyTemplate}>
+                    <SelectTrigger id="mapping-template">
+                      <SelectValue placeholder="Apply a saved mapping" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {preview && preview.sheets.length > 1 && (
+                <div className="space-y-1">
+                  <Label htmlFor="mapping-sheet">Sheet</Label>
+                  <Select value={sheet?.name} onValueChange={handleSheetChange}>
+                    <SelectTrigger id="mapping-sheet">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preview.sheets.map(s => (
+                        <SelectItem key={s.name} value={s.name}>{s.name} ({s.rowCount} rows)</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="mapping-header-row">Header row</Label>
+                <Select
+                  value={headerRow === null ? NONE : String(headerRow)}
+                  onValueChange={(value) => {
+                    setHeaderRow(value === NONE ? null : parseInt(value));
+                    setColumns({});
+                  }}
+                >
+                  <SelectTrigger id="mapping-header-row">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No header row</SelectItem>
+                    {sheet?.rows.map((_, index) => (
+                      <SelectItem key={index} value={String(index)}>Row {index + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {(["url", ...mappedFieldNames] as const).map(field => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`mapping-${field}`}>
+                    {field === "url" ? "LinkedIn URL *" : MAPPED_FIELD_LABELS[field]}
+                  </Label>
+                  <Select value={columns[field] ?? NONE} onValueChange={(key) => setColumn(field, key)}>
+                    <SelectTrigger id={`mapping-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field !== "url" && <SelectItem value={NONE}>Not mapped</SelectItem>}
+                      {field === "url" && !columns.url && <SelectItem value={NONE} disabled>Choose a column</SelectItem>}
+                      {columnKeys.map(key => (
+                        <SelectItem key={key} value={key}>{key}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-md">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {columnKeys.map(key => (
+                      <th
+                        key={key}
+                        className={`px-3 py-2 text-left font-medium whitespace-nowrap ${mappedKeys.has(key) ? 'text-azure-blue' : 'text-neutral-gray'}`}
+                      >
+                        {key}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {dataRows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {columnKeys.map((key, index) => (
+                        <td key={key} className="px-3 py-1 whitespace-nowrap max-w-[16rem] truncate text-text-dark">
+                          {row[index]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {sheet && sheet.rowCount > sheet.rows.length && (
+              <p className="text-xs text-neutral-gray">
+                Showing the first {sheet.rows.length} of {sheet.rowCount} rows
+              </p>
+            )}
+
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="mapping-save-template"
+                checked={saveTemplate}
+                onCheckedChange={(checked) => setSaveTemplate(checked === true)}
+              />
+              <Label htmlFor="mapping-save-template">Save as template</Label>
+              {saveTemplate && (
+                <Input
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="e.g. Greenhouse export"
+                  className="max-w-xs"
+                />
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isUploading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isUploading || !columns.url || (saveTemplate && !templateName.trim())}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
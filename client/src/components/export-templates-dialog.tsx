@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Columns3, Trash2, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import type { ExportTemplate } from "@shared/schema";
+import {
+  DEFAULT_EXPORT_LAYOUT, EXPORT_FIELD_LABELS, EXPORT_SHEET_LABELS, exportFieldNames, exportSheetNames,
+  type ExportFieldName, type ExportLayout, type ExportRowMode, type ExportSheetName,
+} from "@shared/export-layout";
+
+interface ExportTemplatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ROW_MODE_LABELS: Record<ExportRowMode, string> = {
+  profile: "One row per profile",
+  position: "One row per position",
+  education: "One row per education entry",
+};
+
+export default function ExportTemplatesDialog({ open, onClose }: ExportTemplatesDialogProps) {
+  const [name, setName] = useState("");
+  const [columns, setColumns] = useState<ExportLayout["columns"]>(DEFAULT_EXPORT_LAYOUT.columns);
+  const [rowPer, setRowPer] = useState<ExportRowMode>("profile");
+  const [listSeparator, setListSeparator] = useState(DEFAULT_EXPORT_LAYOUT.listSeparator);
+  const [sheets, setSheets] = useState<ExportSheetName[]>([]);
+
+  const { data: templates = [], isLoading } = useQuery<ExportTemplate[]>({
+    queryKey: ["/api/export-templates"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/export-templates");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const layout: ExportLayout = { columns, rowPer, listSeparator, sheets };
+      const response = await apiRequest("POST", "/api/export-templates", {
+        body: JSON.stringify({ name: name.trim(), layout }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/export-templates"] });
+      toast({ title: "Export template saved" });
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export template not saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/export-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/export-templates"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export template not deleted", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unusedFields = exportFieldNames.filter(field => !columns.some(column => column.field === field));
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const renameColumn = (index: number, header: string) => {
+    setColumns(current => current.map((column, i) => i === index ? { ...column, header: header || undefined } : column));
+  };
+
+  const toggleSheet = (sheet: ExportSheetName, checked: boolean) => {
+    setSheets(current => checked ? [...current, sheet] : current.filter(s => s !== sheet));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            Export Templates
+          </DialogTitle>
+          <DialogDescription>
+            Choose the columns, their order and headers, and how positions and education are laid out.
+            Templates apply to Excel and CSV exports; extra sheets are only added to Excel files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 border-b pb-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-template-name">Name</Label>
+            <Input
+              id="export-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. CRM import"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <ul className="space-y-1">
+              {columns.map((column, index) => (
+                <li key={column.field} className="flex items-center gap-2">
+                  <span className="w-40 shrink-0 text-sm text-neutral-gray">{EXPORT_FIELD_LABELS[column.field]}</span>
+                  <Input
+                    value={column.header ?? ""}
+                    onChange={(e) => renameColumn(index, e.target.value)}
+                    placeholder={EXPORT_FIELD_LABELS[column.field]}
+                    maxLength={100}
+                    className="h-8"
+                    aria-label={`Header for ${EXPORT_FIELD_LABELS[column.field]}`}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => moveColumn(index, -1)} disabled={index === 0} aria-label="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1} aria-label="Move down">
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setColumns(current => current.filter((_, i) => i !== index))}
+                    disabled={columns.length === 1}
+                    aria-label="Remove column"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            {unusedFields.length > 0 && (
+              <Select value="" onValueChange={(field) => setColumns(current => [...current, { field: field as ExportFieldName }])}>
+                <SelectTrigger className="w-60">
+                  <SelectValue placeholder="Add column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {unusedFields.map(field => (
+                    <SelectItem key={field} value={field}>{EXPORT_FIELD_LABELS[field]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Rows</Label>
+              <Select value={rowPer} onValueChange={(value) => setRowPer(value as ExportRowMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROW_MODE_LABELS).map(([mode, label]) => (
+                    <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-template-separator">Skills separator</Label>
+              <Input
+                id="export-template-separator"
+                value={listSeparator}
+                onChange={(e) => setListSeparator(e.target.value)}
+                maxLength={10}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Extra sheets</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {exportSheetNames.map(sheet => (
+                <div key={sheet} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-template-sheet-${sheet}`}
+                    checked={sheets.includes(sheet)}
+                    onCheckedChange={(checked) => toggleSheet(sheet, checked === true)}
+                  />
+                  <Label htmlFor={`export-template-sheet-${sheet}`} className="font-normal">
+                    {EXPORT_SHEET_LABELS[sheet]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !name.trim()}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            {createMutation.isPending ? 'Saving...' : 'Save Template'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-neutral-gray">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-neutral-gray">No export templates yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {templates.map(template => {
+              const layout = template.layout as ExportLayout;
+              return (
+                <li key={template.id} className="flex items-center justify-between py-3">
+                  <div className="space-y-1">
+                    <span className="text-sm font-medium text-text-dark">{template.name}</span>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary" className="bg-gray-100 text-xs">{layout.columns.length} columns</Badge>
+                      <Badge variant="secondary" className="bg-gray-100 text-xs">{ROW_MODE_LABELS[layout.rowPer]}</Badge>
+                      {layout.sheets.map(sheet => (
+                        <Badge key={sheet} variant="secondary" className="bg-gray-100 text-xs">{EXPORT_SHEET_LABELS[sheet]}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(template.id)}
+                    disabled={deleteMutation.isPending}
+                    className="text-error-red hover:bg-error-red hover:text-white"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
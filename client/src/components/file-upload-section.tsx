@@ -7,6 +7,9 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { CloudUpload, FileSpreadsheet, X, Play, Pause } from "lucide-react";
 import { useFileUpload } from "@/hooks/use-file-upload";
 import { useJobProcessing } from "@/hooks/use-job-processing";
+import ColumnMappingDialog from "@/components/column-mapping-dialog";
+import { PROFILE_PROVIDER_LABELS } from "@/lib/profile-providers";
+import { profileProviderNames, uploadFileExtensions, type ProfileProviderName } from "@shared/schema";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,6 +32,8 @@ interface UploadedFile {
 
 export default function FileUploadSection() {
   const [batchSize, setBatchSize] = useState("50");
+  const [provider, setProvider] = useState<ProfileProviderName>("mock");
+  const [cacheMaxAgeDays, setCacheMaxAgeDays] = useState("30");
   
   const {
     dragActive,
@@ -36,6 +41,9 @@ export default function FileUploadSection() {
     handleDrop,
     openFileDialog,
     isUploading,
+    pendingPreview,
+    confirmMapping,
+    cancelMapping,
   } = useFileUpload();
 
   const {
@@ -69,6 +77,8 @@ export default function FileUploadSection() {
       startJob({
         fileId: firstUploadedFile.id,
         batchSize: parseInt(batchSize),
+        provider,
+        cacheMaxAgeDays: parseInt(cacheMaxAgeDays),
       });
     }
   };
@@ -90,7 +100,7 @@ export default function FileUploadSection() {
           File Upload & Processing
         </h2>
         <p className="text-sm text-neutral-gray mt-1">
-          Upload Excel files containing LinkedIn profile URLs for batch processing
+          Upload spreadsheets, CSV/TSV exports or text files containing LinkedIn profile URLs for batch processing
         </p>
       </CardHeader>
       
@@ -110,10 +120,10 @@ export default function FileUploadSection() {
             <CloudUpload className="text-azure-blue text-2xl" />
           </div>
           <h3 className="text-lg font-medium text-text-dark mb-2">
-            Drop Excel files here
+            Drop files here
           </h3>
           <p className="text-neutral-gray mb-4">
-            or click to browse and upload .xlsx files
+            or click to browse: {uploadFileExtensions.join(', ')}
           </p>
           <Button 
             className="bg-azure-blue text-white hover:bg-azure-dark"
@@ -123,6 +133,13 @@ export default function FileUploadSection() {
           </Button>
         </div>
 
+        <ColumnMappingDialog
+          preview={pendingPreview}
+          isUploading={isUploading}
+          onConfirm={confirmMapping}
+          onCancel={cancelMapping}
+        />
+
         {/* Uploaded Files List */}
         {uploadedFiles.length > 0 && (
           <div className="mt-6 space-y-3">
@@ -195,6 +212,29 @@ export default function FileUploadSection() {
                 <SelectItem value="500">500 profiles</SelectItem>
               </SelectContent>
             </Select>
+            <label htmlFor="provider-select" className="text-sm font-medium text-text-dark">Source:</label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as ProfileProviderName)}>
+              <SelectTrigger id="provider-select" name="provider" className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profileProviderNames.map((name) => (
+                  <SelectItem key={name} value={name}>{PROFILE_PROVIDER_LABELS[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label htmlFor="cache-age-select" className="text-sm font-medium text-text-dark">Reuse data:</label>
+            <Select value={cacheMaxAgeDays} onValueChange={setCacheMaxAgeDays}>
+              <SelectTrigger id="cache-age-select" name="cacheMaxAgeDays" className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Always re-extract</SelectItem>
+                <SelectItem value="7">Up to 7 days old</SelectItem>
+                <SelectItem value="30">Up to 30 days old</SelectItem>
+                <SelectItem value="90">Up to 90 days old</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
           <div className="flex space-x-3">
             {hasActiveJob && currentJob && (
@@ -3,8 +3,11 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
 import { Link, useLocation } from "wouter";
-import { Linkedin, Home, Bot, LogOut, User, Menu, X } from "lucide-react";
+import { Linkedin, Home, Bot, LogOut, User, Menu, X, KeyRound } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import NotificationsMenu from "@/components/notifications-menu";
+import ApiKeysDialog from "@/components/api-keys-dialog";
+import WorkspaceSwitcher from "@/components/workspace-switcher";
 import { useState, useEffect } from "react";
 import {
   DropdownMenu,
@@ -35,6 +38,7 @@ export default function NavigationHeader() {
   const [location] = useLocation();
   const { user, logout } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isApiKeysOpen, setIsApiKeysOpen] = useState(false);
   
   const { data: authStatus, isLoading } = useQuery<AuthStatus>({
     queryKey: ["/api/auth/status"],
@@ -87,7 +91,7 @@ export default function NavigationHeader() {
 
   const isLinkedInConnected = authStatus?.user?.linkedinConnected;
 
-  const NavigationLinks = ({ mobile = false, onNavigate?: () => void }) => (
+  const NavigationLinks = ({ mobile = false, onNavigate }: { mobile?: boolean; onNavigate?: () => void }) => (
     <nav 
       className={mobile ? "flex flex-col space-y-2" : "hidden sm:flex sm:space-x-1"}
       role="navigation"
@@ -146,7 +150,7 @@ export default function NavigationHeader() {
     </div>
   );
 
-  const UserMenu = ({ mobile = false, onNavigate?: () => void }) => {
+  const UserMenu = ({ mobile = false, onNavigate }: { mobile?: boolean; onNavigate?: () => void }) => {
     if (!user) return null;
 
     if (mobile) {
@@ -186,6 +190,10 @@ export default function NavigationHeader() {
         <DropdownMenuContent align="end">
           <DropdownMenuLabel>My Account</DropdownMenuLabel>
           <DropdownMenuSeparator />
+          <DropdownMenuItem className="cursor-pointer" onClick={() => setIsApiKeysOpen(true)}>
+            <KeyRound className="mr-2 h-4 w-4" aria-hidden="true" />
+            <span>API Keys</span>
+          </DropdownMenuItem>
           <DropdownMenuItem className="cursor-pointer" onClick={logout}>
             <LogOut className="mr-2 h-4 w-4" aria-hidden="true" />
             <span>Log out</span>
@@ -214,6 +222,8 @@ export default function NavigationHeader() {
           {/* Desktop Right Section */}
           <div className="hidden sm:flex items-center space-x-4">
             <ConnectionStatus />
+            {user && <WorkspaceSwitcher />}
+            {user && <NotificationsMenu />}
             <UserMenu />
           </div>
 
@@ -259,6 +269,7 @@ export default function NavigationHeader() {
           </div>
         </div>
       </div>
+      <ApiKeysDialog open={isApiKeysOpen} onClose={() => setIsApiKeysOpen(false)} />
     </header>
   );
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export default function NotificationsMenu() {
+  const { data } = useQuery<NotificationsResponse>({
+    queryKey: ["/api/notifications"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/notifications");
+      return response.json();
+    },
+    refetchInterval: 60000, // Watchlist alerts arrive in the background
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-4 w-4" aria-hidden="true" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-error-red text-white text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs text-azure-blue"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-neutral-gray">No notifications</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start space-y-0.5 cursor-pointer"
+                onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+              >
+                <div className="flex w-full items-center justify-between">
+                  <span className={`text-sm ${notification.readAt ? 'text-neutral-gray' : 'font-medium text-text-dark'}`}>
+                    {notification.title}
+                  </span>
+                  {!notification.readAt && <span className="h-2 w-2 rounded-full bg-azure-blue" aria-label="Unread" />}
+                </div>
+                <span className="text-xs text-gray-600">{notification.message}</span>
+                <span className="text-xs text-neutral-gray">
+                  {new Date(notification.createdAt!).toLocaleString()}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
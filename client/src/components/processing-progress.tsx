@@ -5,12 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { NetworkError } from "@/components/ui/network-error";
-import { Pause, Play, Square, Clock, Activity, AlertCircle } from "lucide-react";
+import { Pause, Play, Square, Clock, Activity, AlertCircle, Radio } from "lucide-react";
 
 export default function ProcessingProgress() {
   const {
     hasActiveJob,
     currentJob,
+    isLive,
+    recentProfiles,
     isLoading,
     error,
     pauseJob,
@@ -94,4 +96,121 @@ export default function ProcessingProgress() {
       </Card>
     );
   }
+
+  const isPaused = currentJob.status === 'paused';
+  const needsReauth = currentJob.status === 'reauth_required';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Activity className="h-5 w-5 text-azure-blue" />
+            <span>Processing Progress</span>
+          </span>
+          <span
+            className={`flex items-center space-x-1 text-xs font-normal ${isLive ? 'text-success-green' : 'text-text-light'}`}
+            title={isLive ? 'Receiving live updates' : 'Refreshing every few seconds'}
+          >
+            <Radio className="h-3 w-3" />
+            <span>{isLive ? 'Live' : 'Polling'}</span>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {needsReauth && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Processing is waiting for you to reconnect your LinkedIn account. It resumes automatically once you do.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div>
+          <div className="flex justify-between mb-2 text-sm">
+            <span className="font-medium text-text-dark truncate">{currentJob.fileName}</span>
+            <span className="text-text-light">
+              {currentJob.processedProfiles} / {currentJob.totalProfiles} ({currentJob.progress}%)
+            </span>
+          </div>
+          <Progress value={currentJob.progress} className="h-2" />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-text-light">Successful</p>
+            <p className="text-lg font-semibold text-success-green">{currentJob.successful}</p>
+          </div>
+          <div>
+            <p className="text-text-light">Retrying</p>
+            <p className="text-lg font-semibold text-warning-orange">{currentJob.retrying}</p>
+          </div>
+          <div>
+            <p className="text-text-light">Failed</p>
+            <p className="text-lg font-semibold text-error-red">{currentJob.failed}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-text-light">
+          <span className="flex items-center space-x-1">
+            <Activity className="h-4 w-4" />
+            <span>{currentJob.processingRate}</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <Clock className="h-4 w-4" />
+            <span>{currentJob.remaining} left, ETA {currentJob.estimatedCompletion}</span>
+          </span>
+        </div>
+
+        {recentProfiles.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {recentProfiles.map(profile => (
+              <li key={`${profile.id}-${profile.status}`} className="flex justify-between">
+                <span className="truncate text-text-light">{profile.linkedinUrl}</span>
+                <span className={
+                  profile.status === 'success' ? 'text-success-green' :
+                  profile.status === 'retrying' ? 'text-warning-orange' : 'text-error-red'
+                }>
+                  {profile.cacheHit ? 'cached' : profile.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex space-x-2">
+          {isPaused ? (
+            <Button
+              size="sm"
+              onClick={() => resumeJob(currentJob.id)}
+              disabled={isResuming}
+            >
+              <Play className="h-4 w-4 mr-1" />
+              Resume
+            </Button>
+          ) : !needsReauth && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => pauseJob(currentJob.id)}
+              disabled={isPausing}
+            >
+              <Pause className="h-4 w-4 mr-1" />
+              Pause
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => cancelJob(currentJob.id)}
+            disabled={isCancelling}
+          >
+            <Square className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
\ No newline at end of file
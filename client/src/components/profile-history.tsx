@@ -0,0 +1,97 @@
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { getProfileProviderLabel } from "@/lib/profile-providers";
+import type { ProfileChange, ProfileHistoryEntry } from "@shared/profile-diff";
+
+interface ProfileHistoryProps {
+  profileId: number;
+}
+
+function ChangeDetail({ change }: { change: ProfileChange }) {
+  if (change.kind === 'list') {
+    return (
+      <div className="text-xs">
+        <span className="font-medium text-gray-600">{change.label}: </span>
+        {change.added.map(item => (
+          <span key={`+${item}`} className="text-success-green mr-2">+ {item}</span>
+        ))}
+        {change.removed.map(item => (
+          <span key={`-${item}`} className="text-error-red line-through mr-2">{item}</span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs">
+      <span className="font-medium text-gray-600">{change.label}: </span>
+      {change.before && <span className="text-error-red line-through mr-2">{change.before}</span>}
+      {change.after && <span className="text-success-green">{change.after}</span>}
+    </div>
+  );
+}
+
+export default function ProfileHistory({ profileId }: ProfileHistoryProps) {
+  const { data, isLoading, error } = useQuery<{ canonicalId: string | null; history: ProfileHistoryEntry[] }>({
+    queryKey: ["/api/profiles", profileId, "history"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/profiles/${profileId}/history`);
+      return response.json();
+    },
+  });
+
+  return (
+    <div>
+      <h3 className="font-semibold text-text-dark mb-3 flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Change History
+      </h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : error ? (
+        <p className="text-sm text-error-red">Could not load the profile's history</p>
+      ) : !data || data.history.length === 0 ? (
+        <p className="text-sm text-gray-500">No extractions recorded yet</p>
+      ) : (
+        <div className="space-y-4">
+          {data.history.map((entry, index) => (
+            <div key={entry.snapshotId} className="border-l-2 border-gray-200 pl-4">
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>{new Date(entry.extractedAt).toLocaleString()}</span>
+                <span>•</span>
+                <span>Job #{entry.jobId}</span>
+                <Badge variant="secondary" className="bg-gray-100 text-xs">
+                  {getProfileProviderLabel(entry.provider)}
+                </Badge>
+              </div>
+              {entry.changes === null ? (
+                <p className="text-sm text-gray-700 mt-1">
+                  {index === data.history.length - 1
+                    ? 'First extraction'
+                    : `First extraction with ${getProfileProviderLabel(entry.provider)}; not compared with other providers`}
+                </p>
+              ) : entry.changes.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-1">No changes</p>
+              ) : (
+                <>
+                  <ul className="mt-1 space-y-0.5">
+                    {entry.summary.map((line, index) => (
+                      <li key={index} className="text-sm font-medium text-text-dark">{line}</li>
+                    ))}
+                  </ul>
+                  <div className="mt-2 space-y-1">
+                    {entry.changes.map(change => (
+                      <ChangeDetail key={change.field} change={change} />
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
+import { useMutation } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import ProfileHistory from "@/components/profile-history";
+import { downloadAttachment } from "@/lib/file-utils";
+import { toast } from "@/hooks/use-toast";
 import { 
   MapPin, 
   Building, 
@@ -11,45 +16,21 @@ import {
   Mail, 
   Phone,
   Users,
-  Lightbulb
+  Lightbulb,
+  Download
 } from "lucide-react";
+import type { ProfileData, ProfileExportFormat } from "@shared/schema";
 
-interface ProfileData {
-  id: string;
-  firstName: string;
-  lastName: string;
-  headline: string;
-  summary: string;
-  industry: string;
-  location: string;
-  publicProfileUrl: string;
-  currentPosition?: string;
-  currentCompany?: string;
-  email?: string;
-  phone?: string;
-  connections?: number;
-  profilePicture?: string;
-  positions: Array<{
-    title: string;
-    company: string;
-    startDate: string;
-    endDate?: string;
-    description: string;
-  }>;
-  education: Array<{
-    school: string;
-    degree: string;
-    fieldOfStudy: string;
-    startDate: string;
-    endDate: string;
-  }>;
-  skills: string[];
-}
+const EXPORT_FORMAT_LABELS: Record<ProfileExportFormat, string> = {
+  'json-resume': 'JSON Resume',
+  vcard: 'vCard',
+};
 
 interface ProfileModalProps {
   open: boolean;
   onClose: () => void;
   profile: {
+    id?: number;
     linkedinUrl: string;
     status: string;
     profileData: ProfileData | null;
@@ -59,6 +40,14 @@ interface ProfileModalProps {
 }
 
 export default function ProfileModal({ open, onClose, profile }: ProfileModalProps) {
+  const exportMutation = useMutation({
+    mutationFn: ({ id, format }: { id: number; format: ProfileExportFormat }) =>
+      downloadAttachment(`/api/profiles/${id}/export/${format}`, `profile_${id}.${format === 'vcard' ? 'vcf' : 'json'}`),
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   if (!profile) return null;
 
   const data = profile.profileData;
@@ -105,7 +94,7 @@ export default function ProfileModal({ open, onClose, profile }: ProfileModalPro
               {/* Profile Header */}
               <div className="flex items-start space-x-4">
                 <Avatar className="h-20 w-20">
-                  <AvatarImage src={data.profilePicture} />
+                  <AvatarImage src={data.profilePictureUrl} />
                   <AvatarFallback className="text-xl">
                     {data.firstName?.[0]}{data.lastName?.[0]}
                   </AvatarFallback>
@@ -252,6 +241,14 @@ export default function ProfileModal({ open, onClose, profile }: ProfileModalPro
                 </>
               )}
 
+              {/* Change History */}
+              {profile.id !== undefined && (
+                <>
+                  <Separator />
+                  <ProfileHistory profileId={profile.id} />
+                </>
+              )}
+
               {/* LinkedIn URL */}
               <Separator />
               <div className="text-sm">
@@ -265,6 +262,25 @@ export default function ProfileModal({ open, onClose, profile }: ProfileModalPro
                   {data.publicProfileUrl || profile.linkedinUrl}
                 </a>
               </div>
+
+              {/* Contact Exports */}
+              {profile.id !== undefined && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-600">Export as:</span>
+                  {(Object.entries(EXPORT_FORMAT_LABELS) as [ProfileExportFormat, string][]).map(([format, label]) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => exportMutation.mutate({ id: profile.id!, format })}
+                      disabled={exportMutation.isPending}
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-8 text-gray-500">
@@ -5,7 +5,10 @@ import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { NetworkError } from "@/components/ui/network-error";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { FileSpreadsheet, Pause, Square, Download, Trash2 } from "lucide-react";
+import { getProfileProviderLabel, isSyntheticProvider } from "@/lib/profile-providers";
+import { useJobEvents, isJobStreaming, STREAMING_POLL_INTERVAL } from "@/hooks/use-job-events";
+import { FileSpreadsheet, FileOutput, Pause, Square, Download, Trash2, RotateCcw } from "lucide-react";
+import { enrichableFileExtensions } from "@shared/schema";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,18 +25,39 @@ interface JobData {
   id: string;
   fileName: string;
   totalProfiles: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused' | 'reauth_required';
+  provider: string;
+  failedProfiles: number;
+  retryingProfiles: number;
   progress: number;
   successRate: string;
   startedAt: string;
 }
 
+function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+// Jobs that can still change and are worth an event stream
+function getLiveJobIds(jobs: JobData[] = []): number[] {
+  return jobs
+    .filter(job => job.status === 'pending' || job.status === 'processing')
+    .map(job => Number(job.id));
+}
+
 export default function RecentJobsTable() {
   const { data: jobs = [], isLoading, error, refetch } = useQuery<JobData[]>({
     queryKey: ["/api/jobs/recent"],
-    refetchInterval: 10000, // Poll every 10 seconds
+    // Poll every 10 seconds, or slowly while every running job is streaming its events
+    refetchInterval: (query) => {
+      const liveJobIds = getLiveJobIds(query.state.data);
+      return liveJobIds.length > 0 && liveJobIds.every(isJobStreaming) ? STREAMING_POLL_INTERVAL : 10000;
+    },
   });
 
+  useJobEvents(getLiveJobIds(jobs));
+
   const pauseJobMutation = useMutation({
     mutationFn: async (jobId: string) => {
       const response = await apiRequest("POST", `/api/jobs/${jobId}/pause`);
@@ -54,6 +78,17 @@ export default function RecentJobsTable() {
     },
   });
 
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${jobId}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/current-status"] });
+    },
+  });
+
   const downloadResultsMutation = useMutation({
     mutationFn: async (jobId: string) => {
       const response = await apiRequest("GET", `/api/jobs/${jobId}/download`);
@@ -73,6 +108,26 @@ export default function RecentJobsTable() {
     },
   });
 
+  // The uploaded file with the results added as columns
+  const downloadEnrichedMutation = useMutation({
+    mutationFn: async (job: JobData) => {
+      const response = await apiRequest("GET", `/api/jobs/${job.id}/enriched`);
+      const blob = await response.blob();
+
+      const extension = getFileExtension(job.fileName);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${job.fileName.slice(0, job.fileName.length - extension.length)}_enriched${extension}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      return { success: true };
+    },
+  });
+
   const deleteJobMutation = useMutation({
     mutationFn: async (jobId: string) => {
       const response = await apiRequest("DELETE", `/api/jobs/${jobId}`);
@@ -90,13 +145,17 @@ export default function RecentJobsTable() {
       completed: { bg: 'bg-success-green bg-opacity-10', text: 'text-success-green' },
       failed: { bg: 'bg-error-red bg-opacity-10', text: 'text-error-red' },
       paused: { bg: 'bg-warning-orange bg-opacity-10', text: 'text-warning-orange' },
+      reauth_required: { bg: 'bg-warning-orange bg-opacity-10', text: 'text-warning-orange' },
+    };
+    const statusLabels: Record<string, string> = {
+      reauth_required: 'Reconnect LinkedIn',
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
     
     return (
       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.bg} ${config.text}`}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {statusLabels[status] ?? status.charAt(0).toUpperCase() + status.slice(1)}
       </span>
     );
   };
@@ -259,6 +318,10 @@ export default function RecentJobsTable() {
                           </div>
                           <div className="text-sm text-neutral-gray">
                             {job.totalProfiles.toLocaleString()} profiles
+                            {' · '}
+                            <span className={isSyntheticProvider(job.provider) ? 'text-warning-orange' : undefined}>
+                              {getProfileProviderLabel(job.provider)}
+                            </span>
                           </div>
                         </div>
                       </div>
@@ -294,7 +357,7 @@ export default function RecentJobsTable() {
                             <Pause className="h-4 w-4" />
                           </Button>
                         )}
-                        {(job.status === 'processing' || job.status === 'paused') && (
+                        {(job.status === 'processing' || job.status === 'paused' || job.status === 'reauth_required') && (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -304,6 +367,20 @@ export default function RecentJobsTable() {
                             <Square className="h-4 w-4" />
                           </Button>
                         )}
+                        {(job.status === 'completed' || job.status === 'failed') &&
+                          job.failedProfiles + job.retryingProfiles > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => retryJobMutation.mutate(job.id)}
+                            disabled={retryJobMutation.isPending}
+                            className="text-azure-blue hover:text-azure-dark"
+                            title="Retry failed profiles"
+                            aria-label="Retry failed profiles"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
                         {job.status === 'completed' && (
                           <Button
                             variant="ghost"
@@ -314,6 +391,20 @@ export default function RecentJobsTable() {
                             <Download className="h-4 w-4" />
                           </Button>
                         )}
+                        {job.status === 'completed' &&
+                          (enrichableFileExtensions as readonly string[]).includes(getFileExtension(job.fileName)) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadEnrichedMutation.mutate(job)}
+                            disabled={downloadEnrichedMutation.isPending}
+                            className="text-azure-blue hover:text-azure-dark"
+                            title="Download your file with the results added"
+                            aria-label="Download your file with the results added"
+                          >
+                            <FileOutput className="h-4 w-4" />
+                          </Button>
+                        )}
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -3,9 +3,13 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { NetworkError } from "@/components/ui/network-error";
+import ExportTemplatesDialog from "@/components/export-templates-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
-import { Download, AlertCircle, FileText, Linkedin, Wifi } from "lucide-react";
+import { Download, AlertCircle, FileText, Linkedin, Wifi, Settings2 } from "lucide-react";
+import { useState } from "react";
+import type { ExportFormat, ExportTemplate, ExportType } from "@shared/schema";
 
 interface AuthStatus {
   linkedinConnected: boolean;
@@ -42,16 +46,32 @@ export default function SidebarControls() {
     queryKey: ["/api/stats/export-counts"],
   });
 
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
+  const [exportTemplateId, setExportTemplateId] = useState("default");
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+
+  const { data: exportTemplates = [] } = useQuery<ExportTemplate[]>({
+    queryKey: ["/api/export-templates"],
+  });
+  // Falls back to the default layout when the chosen template has been deleted
+  const selectedTemplateId = exportTemplates.some(template => String(template.id) === exportTemplateId)
+    ? exportTemplateId
+    : "default";
+
   const exportMutation = useMutation({
-    mutationFn: async (type: 'successful' | 'failed' | 'all') => {
-      const response = await apiRequest("POST", `/api/export/${type}`);
+    mutationFn: async (type: ExportType) => {
+      const params = new URLSearchParams({ format: exportFormat });
+      if (selectedTemplateId !== "default") {
+        params.set("templateId", selectedTemplateId);
+      }
+      const response = await apiRequest("POST", `/api/export/${type}?${params}`);
       const blob = await response.blob();
       
       // Create download link
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `linkedin_data_${type}_${new Date().toISOString().split('T')[0]}.xlsx`;
+      a.download = `linkedin_data_${type}_${new Date().toISOString().split('T')[0]}.${exportFormat}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -76,13 +96,18 @@ export default function SidebarControls() {
 
   const reconnectLinkedInMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/auth/linkedin/reconnect");
+      // Same flow as the header's Connect button; the OAuth state carries the user
+      const response = await apiRequest("POST", "/api/auth/linkedin");
       return response.json();
     },
     onSuccess: (data) => {
       if (data.authUrl) {
         window.location.href = data.authUrl;
+        return;
       }
+      // Demo mode connects without leaving the page
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/status-detailed"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
     },
   });
 
@@ -201,6 +226,39 @@ export default function SidebarControls() {
             </div>
           ) : (
             <div className="space-y-3">
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV (.csv)</SelectItem>
+                <SelectItem value="ndjson">NDJSON (.ndjson)</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-2">
+              <Select value={selectedTemplateId} onValueChange={setExportTemplateId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default layout</SelectItem>
+                  {exportTemplates.map(template => (
+                    <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setIsTemplatesOpen(true)}
+                aria-label="Manage export templates"
+              >
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            </div>
+
             <Button
               onClick={() => exportMutation.mutate('successful')}
               disabled={exportMutation.isPending}
@@ -234,6 +292,8 @@ export default function SidebarControls() {
         </CardContent>
       </Card>
 
+      <ExportTemplatesDialog open={isTemplatesOpen} onClose={() => setIsTemplatesOpen(false)} />
+
       {/* Error Breakdown */}
       <Card className="bg-white shadow-sm border border-gray-200">
         <CardHeader className="p-6">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,8 +8,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { NetworkError } from "@/components/ui/network-error";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { apiRequest } from "@/lib/queryClient";
-import { type Job, type Profile } from "@shared/schema";
+import { downloadAttachment } from "@/lib/file-utils";
+import { toast } from "@/hooks/use-toast";
+import { type Job, type Profile, type ProfileExportFormat } from "@shared/schema";
 import { 
   Database, 
   Search, 
@@ -17,9 +20,19 @@ import {
   ChevronLeft,
   ChevronRight,
   RefreshCw,
-  Eye
+  Eye,
+  BellRing,
+  Download
 } from "lucide-react";
 import ProfileModal from "./profile-modal";
+import WatchlistDialog, { type WatchlistSource } from "./watchlist-dialog";
+import WatchlistsPanel from "./watchlists-panel";
+
+// Bulk contact exports, one file per successful profile in a ZIP
+const PROFILE_ARCHIVE_LABELS: Record<ProfileExportFormat, string> = {
+  'json-resume': 'JSON Resume (ZIP)',
+  vcard: 'vCard (ZIP)',
+};
 
 interface StorageStats {
   totalJobs: number;
@@ -35,6 +48,15 @@ export default function StorageDataTable() {
   const [selectedJobId, setSelectedJobId] = useState<string>("");
   const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
   const [profileModalOpen, setProfileModalOpen] = useState(false);
+
+  const archiveMutation = useMutation({
+    mutationFn: ({ jobId, format }: { jobId: number; format: ProfileExportFormat }) =>
+      downloadAttachment(`/api/jobs/${jobId}/export/${format}`, `job_${jobId}_${format}.zip`),
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: error.message, variant: "destructive" });
+    },
+  });
+  const [watchlistSource, setWatchlistSource] = useState<WatchlistSource | null>(null);
   const itemsPerPage = 10;
 
   // Fetch storage statistics
@@ -161,11 +183,12 @@ export default function StorageDataTable() {
 
       <CardContent className="p-6">
         <Tabs defaultValue="jobs" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className="grid w-full grid-cols-3 mb-4">
             <TabsTrigger value="jobs">Jobs</TabsTrigger>
             <TabsTrigger value="profiles" disabled={!selectedJobId}>
               Profiles {selectedJobId && `(Job ${selectedJobId})`}
             </TabsTrigger>
+            <TabsTrigger value="watchlists">Watchlists</TabsTrigger>
           </TabsList>
 
           <TabsContent value="jobs" className="space-y-4">
@@ -257,14 +280,41 @@ export default function StorageDataTable() {
                           {formatDate(job.createdAt)}
                         </td>
                         <td className="px-4 py-3">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => setSelectedJobId(job.id.toString())}
-                            className="text-azure-blue hover:bg-azure-blue hover:text-white"
-                          >
-                            View Profiles
-                          </Button>
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setSelectedJobId(job.id.toString())}
+                              className="text-azure-blue hover:bg-azure-blue hover:text-white"
+                            >
+                              View Profiles
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setWatchlistSource({ name: job.fileName, jobId: job.id })}
+                            >
+                              <BellRing className="h-4 w-4 mr-1" />
+                              Watch
+                            </Button>
+                            {(job.successfulProfiles || 0) > 0 && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="outline" size="sm" disabled={archiveMutation.isPending}>
+                                    <Download className="h-4 w-4 mr-1" />
+                                    Contacts
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  {(Object.entries(PROFILE_ARCHIVE_LABELS) as [ProfileExportFormat, string][]).map(([format, label]) => (
+                                    <DropdownMenuItem key={format} onClick={() => archiveMutation.mutate({ jobId: job.id, format })}>
+                                      {label}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </div>
                         </td>
                       </tr>
                     ))
@@ -336,7 +386,7 @@ export default function StorageDataTable() {
                     </tr>
                   ) : (
                     profilesData?.profiles.map((profile) => {
-                      const profileData = profile.profileData as any;
+                      const profileData = profile.profileData;
                       return (
                         <tr key={profile.id} className="hover:bg-gray-50">
                           <td className="px-4 py-3 text-sm text-text-dark">{profile.id}</td>
@@ -383,10 +433,16 @@ export default function StorageDataTable() {
               </table>
             </div>
           </TabsContent>
+
+          <TabsContent value="watchlists" className="space-y-4">
+            <WatchlistsPanel />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
     
+    <WatchlistDialog source={watchlistSource} onClose={() => setWatchlistSource(null)} />
+
     {/* Profile Modal */}
     <ProfileModal 
       open={profileModalOpen}
@@ -395,9 +451,10 @@ export default function StorageDataTable() {
         setSelectedProfile(null);
       }}
       profile={selectedProfile ? {
+        id: selectedProfile.id,
         linkedinUrl: selectedProfile.linkedinUrl,
         status: selectedProfile.status,
-        profileData: selectedProfile.profileData as any,
+        profileData: selectedProfile.profileData,
         errorType: selectedProfile.errorType || undefined,
         errorMessage: selectedProfile.errorMessage || undefined
       } : null}
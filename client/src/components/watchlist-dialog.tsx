@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { PROFILE_PROVIDER_LABELS } from "@/lib/profile-providers";
+import {
+  defaultWatchedFields,
+  profileProviderNames,
+  watchedFields,
+  watchlistSchedules,
+  type ProfileProviderName,
+  type WatchedField,
+  type WatchlistSchedule,
+} from "@shared/schema";
+
+// What to watch: every profile of a job, or individual profiles
+export interface WatchlistSource {
+  name: string;
+  jobId?: number;
+  profileIds?: number[];
+}
+
+interface WatchlistDialogProps {
+  source: WatchlistSource | null;
+  onClose: () => void;
+}
+
+export const WATCHED_FIELD_LABELS: Record<WatchedField, string> = {
+  company: "Company",
+  title: "Title",
+  location: "Location",
+  headline: "Headline",
+  industry: "Industry",
+};
+
+export const WATCHLIST_SCHEDULE_LABELS: Record<WatchlistSchedule, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+export default function WatchlistDialog({ source, onClose }: WatchlistDialogProps) {
+  const [name, setName] = useState("");
+  const [schedule, setSchedule] = useState<WatchlistSchedule>("weekly");
+  const [provider, setProvider] = useState<ProfileProviderName>("mock");
+  const [trackedFields, setTrackedFields] = useState<WatchedField[]>([...defaultWatchedFields]);
+
+  useEffect(() => {
+    if (!source) return;
+    setName(source.name);
+    setSchedule("weekly");
+    setProvider("mock");
+    setTrackedFields([...defaultWatchedFields]);
+  }, [source]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/watchlists", {
+        body: JSON.stringify({
+          name: name.trim(),
+          schedule,
+          provider,
+          trackedFields,
+          jobId: source?.jobId,
+          profileIds: source?.profileIds,
+        }),
+      });
+      return response.json();
+    },
+    onSuccess: (watchlist) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+      toast({
+        title: "Watchlist created",
+        description: `Watching ${watchlist.memberCount} profiles ${schedule === "daily" ? "every day" : schedule === "weekly" ? "every week" : "every month"}.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Watchlist not created",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleField = (field: WatchedField, checked: boolean) => {
+    setTrackedFields(current =>
+      checked ? [...current, field] : current.filter(f => f !== field)
+    );
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Watch profiles</DialogTitle>
+          <DialogDescription>
+            Re-extract these profiles on a schedule and get notified when they change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="watchlist-name">Name</Label>
+            <Input
+              id="watchlist-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Check</Label>
+              <Select value={schedule} onValueChange={(value) => setSchedule(value as WatchlistSchedule)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {watchlistSchedules.map(option => (
+                    <SelectItem key={option} value={option}>{WATCHLIST_SCHEDULE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Data source</Label>
+              <Select value={provider} onValueChange={(value) => setProvider(value as ProfileProviderName)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profileProviderNames.map(option => (
+                    <SelectItem key={option} value={option}>{PROFILE_PROVIDER_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notify me when these change</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {watchedFields.map(field => (
+                <div key={field} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`watchlist-field-${field}`}
+                    checked={trackedFields.includes(field)}
+                    onCheckedChange={(checked) => toggleField(field, checked === true)}
+                  />
+                  <Label htmlFor={`watchlist-field-${field}`} className="font-normal">
+                    {WATCHED_FIELD_LABELS[field]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={createMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !name.trim() || trackedFields.length === 0}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create Watchlist'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Pause, Play, RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { getProfileProviderLabel } from "@/lib/profile-providers";
+import type { Watchlist, WatchedField, WatchlistSchedule } from "@shared/schema";
+import { WATCHED_FIELD_LABELS, WATCHLIST_SCHEDULE_LABELS } from "./watchlist-dialog";
+
+type WatchlistSummary = Watchlist & { memberCount: number };
+
+export default function WatchlistsPanel() {
+  const { data: watchlists = [], isLoading } = useQuery<WatchlistSummary[]>({
+    queryKey: ["/api/watchlists"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/watchlists");
+      return response.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/watchlists/${id}/run`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({ title: "Watchlist started", description: `Re-extracting in job #${data.jobId}.` });
+    },
+    onError: onError("Watchlist not started"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/watchlists/${id}`, { body: JSON.stringify({ active }) });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+    },
+    onError: onError("Watchlist not updated"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/watchlists/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/watchlists"] });
+    },
+    onError: onError("Watchlist not deleted"),
+  });
+
+  if (isLoading) {
+    return <p className="py-8 text-center text-neutral-gray">Loading watchlists...</p>;
+  }
+
+  if (watchlists.length === 0) {
+    return (
+      <p className="py-8 text-center text-neutral-gray">
+        No watchlists yet. Use "Watch" on a job to re-check its profiles on a schedule.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-neutral-gray uppercase">Name</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-neutral-gray uppercase">Schedule</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-neutral-gray uppercase">Tracking</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-neutral-gray uppercase">Next Run</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-neutral-gray uppercase">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {watchlists.map(watchlist => (
+            <tr key={watchlist.id} className="hover:bg-gray-50">
+              <td className="px-4 py-3 text-sm text-text-dark font-medium">
+                {watchlist.name}
+                <div className="text-xs text-neutral-gray">
+                  {watchlist.memberCount} profiles • {getProfileProviderLabel(watchlist.provider)}
+                </div>
+              </td>
+              <td className="px-4 py-3">
+                <Badge variant="secondary" className="bg-gray-100">
+                  {WATCHLIST_SCHEDULE_LABELS[watchlist.schedule as WatchlistSchedule] ?? watchlist.schedule}
+                </Badge>
+              </td>
+              <td className="px-4 py-3 text-xs text-neutral-gray">
+                {((watchlist.trackedFields as WatchedField[] | null) ?? [])
+                  .map(field => WATCHED_FIELD_LABELS[field] ?? field)
+                  .join(", ")}
+              </td>
+              <td className="px-4 py-3 text-xs text-neutral-gray">
+                {watchlist.active ? new Date(watchlist.nextRunAt).toLocaleString() : "Paused"}
+                {watchlist.lastJobId && (
+                  <div>Last run: job #{watchlist.lastJobId}</div>
+                )}
+              </td>
+              <td className="px-4 py-3">
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runMutation.mutate(watchlist.id)}
+                    disabled={runMutation.isPending}
+                    className="text-azure-blue hover:bg-azure-blue hover:text-white"
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Run Now
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleMutation.mutate({ id: watchlist.id, active: !watchlist.active })}
+                    disabled={toggleMutation.isPending}
+                    aria-label={watchlist.active ? "Pause watchlist" : "Resume watchlist"}
+                  >
+                    {watchlist.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(watchlist.id)}
+                    disabled={deleteMutation.isPending}
+                    className="text-error-red hover:bg-error-red hover:text-white"
+                    aria-label="Delete watchlist"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
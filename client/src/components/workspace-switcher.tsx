@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, getActiveWorkspaceId, setActiveWorkspaceId } from "@/lib/queryClient";
+import WorkspacesDialog, { type WorkspaceSummary } from "./workspaces-dialog";
+
+const PERSONAL = "personal";
+
+export default function WorkspaceSwitcher() {
+  const [activeId, setActiveId] = useState<number | null>(getActiveWorkspaceId);
+  const [isManageOpen, setIsManageOpen] = useState(false);
+
+  const { data: workspaces } = useQuery<WorkspaceSummary[]>({
+    queryKey: ["/api/workspaces"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/workspaces");
+      return response.json();
+    },
+  });
+
+  const selectWorkspace = (id: number | null) => {
+    setActiveId(id);
+    setActiveWorkspaceId(id);
+  };
+
+  // Fall back to personal jobs after leaving or losing access to the active workspace
+  useEffect(() => {
+    if (workspaces && activeId !== null && !workspaces.some(workspace => workspace.id === activeId)) {
+      selectWorkspace(null);
+    }
+  }, [workspaces, activeId]);
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Select
+        value={activeId === null ? PERSONAL : String(activeId)}
+        onValueChange={(value) => selectWorkspace(value === PERSONAL ? null : parseInt(value))}
+      >
+        <SelectTrigger className="h-8 w-40 text-sm" aria-label="Workspace">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL}>Personal</SelectItem>
+          {(workspaces ?? []).map(workspace => (
+            <SelectItem key={workspace.id} value={String(workspace.id)}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={() => setIsManageOpen(true)} aria-label="Manage workspaces">
+        <Users className="h-4 w-4" aria-hidden="true" />
+      </Button>
+      <WorkspacesDialog
+        open={isManageOpen}
+        onClose={() => setIsManageOpen(false)}
+        workspaces={workspaces ?? []}
+        activeId={activeId}
+        onSelect={selectWorkspace}
+      />
+    </div>
+  );
+}
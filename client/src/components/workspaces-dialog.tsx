@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { LogOut, Trash2, UserPlus, Users } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasWorkspaceRole, workspaceRoles, type Workspace, type WorkspaceRole } from "@shared/schema";
+
+export type WorkspaceSummary = Workspace & { role: WorkspaceRole };
+
+interface WorkspaceMemberSummary {
+  userId: number;
+  username: string | null;
+  email: string | null;
+  role: WorkspaceRole;
+}
+
+interface WorkspacesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  workspaces: WorkspaceSummary[];
+  activeId: number | null;
+  onSelect: (id: number | null) => void;
+}
+
+const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export default function WorkspacesDialog({ open, onClose, workspaces, activeId, onSelect }: WorkspacesDialogProps) {
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+
+  const active = workspaces.find(workspace => workspace.id === activeId);
+  const canManage = !!active && hasWorkspaceRole(active.role, "admin");
+  const isOwner = active?.role === "owner";
+
+  const { data: members = [] } = useQuery<WorkspaceMemberSummary[]>({
+    queryKey: ["/api/workspaces", activeId, "members"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/workspaces/${activeId}/members`);
+      return response.json();
+    },
+    enabled: open && !!active,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const refreshMembers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces", activeId, "members"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/workspaces", { body: JSON.stringify({ name: name.trim() }) });
+      return response.json();
+    },
+    onSuccess: (workspace: WorkspaceSummary) => {
+      setName("");
+      onSelect(workspace.id);
+    },
+    onError: onError("Workspace not created"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/workspaces/${activeId}/members`, {
+        body: JSON.stringify({ email: email.trim(), role }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEmail("");
+      refreshMembers();
+    },
+    onError: onError("Member not added"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: WorkspaceRole }) => {
+      const response = await apiRequest("PATCH", `/api/workspaces/${activeId}/members/${userId}`, {
+        body: JSON.stringify({ role }),
+      });
+      return response.json();
+    },
+    onSuccess: refreshMembers,
+    onError: onError("Role not changed"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/workspaces/${activeId}/members/${userId}`);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      if (userId === user?.id) {
+        onSelect(null); // Left the workspace
+      } else {
+        refreshMembers();
+      }
+    },
+    onError: onError("Member not removed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/workspaces/${activeId}`);
+    },
+    onSuccess: () => onSelect(null),
+    onError: onError("Workspace not deleted"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Workspaces
+          </DialogTitle>
+          <DialogDescription>
+            Jobs uploaded in a workspace are shared with its members. Viewers see jobs and results, editors also
+            upload and run them, admins manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 border-b pb-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New workspace name"
+            maxLength={100}
+            aria-label="New workspace name"
+          />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending || !name.trim()}
+            className="bg-azure-blue text-white hover:bg-azure-dark"
+          >
+            Create
+          </Button>
+        </div>
+
+        {!active ? (
+          <p className="text-sm text-neutral-gray">
+            You're working on your personal jobs. Pick a workspace in the header to share jobs with your team.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-text-dark">{active.name}</span>
+                <Badge variant="secondary" className="bg-gray-100">{WORKSPACE_ROLE_LABELS[active.role]}</Badge>
+              </div>
+              {isOwner && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate()}
+                  disabled={deleteMutation.isPending}
+                  className="text-error-red hover:bg-error-red hover:text-white"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete Workspace
+                </Button>
+              )}
+            </div>
+
+            {canManage && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Member's email address"
+                  aria-label="Member's email address"
+                />
+                <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+                  <SelectTrigger className="w-32" aria-label="Role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workspaceRoles.filter(r => isOwner || r !== "owner").map(r => (
+                      <SelectItem key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => addMemberMutation.mutate()}
+                  disabled={addMemberMutation.isPending || !email.trim()}
+                  variant="outline"
+                >
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            )}
+
+            <ul className="divide-y divide-gray-200">
+              {members.map(member => {
+                const isSelf = member.userId === user?.id;
+                // Only owners change or remove other owners
+                const canEdit = canManage && !isSelf && (isOwner || member.role !== "owner");
+                return (
+                  <li key={member.userId} className="flex items-center justify-between py-2">
+                    <div>
+                      <div className="text-sm font-medium text-text-dark">
+                        {member.username}{isSelf && " (you)"}
+                      </div>
+                      <div className="text-xs text-neutral-gray">{member.email}</div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {canEdit ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => updateRoleMutation.mutate({ userId: member.userId, role: value as WorkspaceRole })}
+                        >
+                          <SelectTrigger className="h-8 w-28" aria-label={`Role of ${member.username}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {workspaceRoles.filter(r => isOwner || r !== "owner").map(r => (
+                              <SelectItem key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="secondary" className="bg-gray-100">{WORKSPACE_ROLE_LABELS[member.role]}</Badge>
+                      )}
+                      {(canEdit || isSelf) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeMemberMutation.mutate(member.userId)}
+                          disabled={removeMemberMutation.isPending}
+                          className="text-error-red hover:bg-error-red hover:text-white"
+                          aria-label={isSelf ? "Leave workspace" : `Remove ${member.username}`}
+                        >
+                          {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
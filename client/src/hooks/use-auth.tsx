@@ -92,6 +92,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     localStorage.removeItem("user");
     localStorage.removeItem("accessToken");
     localStorage.removeItem("refreshToken");
+    localStorage.removeItem("activeWorkspaceId");
     
     // Navigate to login
     navigate("/login");
@@ -1,11 +1,13 @@
 import { useCallback, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { uploadFile } from "@/lib/file-utils";
+import { uploadFile, previewFile, needsColumnMapping } from "@/lib/file-utils";
 import { toast } from "@/hooks/use-toast";
+import { uploadFileExtensions } from "@shared/schema";
+import type { ColumnMapping, UploadPreview } from "@shared/column-mapping";
 
 interface UseFileUploadOptions {
-  allowedTypes?: string[];
+  allowedExtensions?: readonly string[];
   maxSizeMB?: number;
   onSuccess?: () => void;
   onError?: (error: Error) => void;
@@ -13,34 +15,48 @@ interface UseFileUploadOptions {
 
 export function useFileUpload(options: UseFileUploadOptions = {}) {
   const {
-    allowedTypes = ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel'],
+    allowedExtensions = uploadFileExtensions,
     maxSizeMB = 50,
     onSuccess,
     onError,
   } = options;
 
   const [dragActive, setDragActive] = useState(false);
+  // File waiting for the user to confirm its column mapping
+  const [pendingUpload, setPendingUpload] = useState<{ file: File; preview: UploadPreview } | null>(null);
 
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      // Validate file type
-      if (!allowedTypes.includes(file.type)) {
-        throw new Error(`Invalid file type. Allowed types: ${allowedTypes.join(', ')}`);
-      }
+  // MIME types for CSV and text files vary by browser and OS, so go by extension
+  const isAllowedFile = useCallback((file: File) => {
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    return allowedExtensions.includes(extension);
+  }, [allowedExtensions]);
 
-      // Validate file size
-      const maxSizeBytes = maxSizeMB * 1024 * 1024;
-      if (file.size > maxSizeBytes) {
-        throw new Error(`File size exceeds ${maxSizeMB}MB limit`);
-      }
+  const validateFile = useCallback((file: File) => {
+    // Validate file type
+    if (!isAllowedFile(file)) {
+      throw new Error(`Invalid file type. Allowed types: ${allowedExtensions.join(', ')}`);
+    }
+
+    // Validate file size
+    const maxSizeBytes = maxSizeMB * 1024 * 1024;
+    if (file.size > maxSizeBytes) {
+      throw new Error(`File size exceeds ${maxSizeMB}MB limit`);
+    }
+  }, [isAllowedFile, allowedExtensions, maxSizeMB]);
 
-      return await uploadFile(file);
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, mapping }: { file: File; mapping?: ColumnMapping }) => {
+      validateFile(file);
+      return await uploadFile(file, mapping);
     },
     onSuccess: (data) => {
+      setPendingUpload(null);
       queryClient.invalidateQueries({ queryKey: ["/api/files/uploaded"] });
       toast({
         title: "File uploaded successfully",
-        description: "Your file has been processed and is ready for extraction.",
+        description: data.previouslyExtractedCount > 0
+          ? `${data.profileCount} profiles found, ${data.previouslyExtractedCount} of them already extracted in earlier jobs.`
+          : `${data.profileCount} profiles found and ready for extraction.`,
       });
       onSuccess?.();
     },
@@ -54,32 +70,69 @@ export function useFileUpload(options: UseFileUploadOptions = {}) {
     },
   });
 
+  // Spreadsheets and CSVs are previewed first so the user can map columns;
+  // URL lists are uploaded straight away
+  const previewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      validateFile(file);
+      if (!needsColumnMapping(file)) {
+        return { file, preview: null };
+      }
+      return { file, preview: await previewFile(file) };
+    },
+    onSuccess: ({ file, preview }) => {
+      if (preview) {
+        setPendingUpload({ file, preview });
+      } else {
+        uploadMutation.mutate({ file });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message || "Could not read the file. Please try again.",
+        variant: "destructive",
+      });
+      onError?.(error);
+    },
+  });
+
+  const confirmMapping = useCallback((mapping: ColumnMapping) => {
+    if (pendingUpload) {
+      uploadMutation.mutate({ file: pendingUpload.file, mapping });
+    }
+  }, [pendingUpload, uploadMutation]);
+
+  const cancelMapping = useCallback(() => {
+    setPendingUpload(null);
+  }, []);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setDragActive(false);
     
     const files = Array.from(e.dataTransfer.files);
-    const validFile = files.find(file => allowedTypes.includes(file.type));
+    const validFile = files.find(isAllowedFile);
     
     if (validFile) {
-      uploadMutation.mutate(validFile);
+      previewMutation.mutate(validFile);
     } else {
       toast({
         title: "Invalid file type",
-        description: "Please upload Excel files (.xlsx or .xls) only.",
+        description: `Please upload ${allowedExtensions.join(', ')} files only.`,
         variant: "destructive",
       });
     }
-  }, [uploadMutation, allowedTypes]);
+  }, [previewMutation, isAllowedFile, allowedExtensions]);
 
   const handleFileSelect = useCallback((file: File) => {
-    uploadMutation.mutate(file);
-  }, [uploadMutation]);
+    previewMutation.mutate(file);
+  }, [previewMutation]);
 
   const openFileDialog = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.xlsx,.xls';
+    input.accept = allowedExtensions.join(',');
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
@@ -87,7 +140,7 @@ export function useFileUpload(options: UseFileUploadOptions = {}) {
       }
     };
     input.click();
-  }, [handleFileSelect]);
+  }, [handleFileSelect, allowedExtensions]);
 
   return {
     dragActive,
@@ -95,8 +148,11 @@ export function useFileUpload(options: UseFileUploadOptions = {}) {
     handleDrop,
     handleFileSelect,
     openFileDialog,
-    isUploading: uploadMutation.isPending,
+    isUploading: uploadMutation.isPending || previewMutation.isPending,
     uploadError: uploadMutation.error,
     upload: uploadMutation.mutate,
+    pendingPreview: pendingUpload?.preview ?? null,
+    confirmMapping,
+    cancelMapping,
   };
 }
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { queryClient, getAccessToken } from "@/lib/queryClient";
+
+// Mirrors the server's job summary (/api/jobs/current-status and SSE events)
+export interface JobSummary {
+  id: number;
+  fileName: string;
+  status: string;
+  progress: number;
+  processedProfiles: number;
+  totalProfiles: number;
+  successful: number;
+  retrying: number;
+  failed: number;
+  remaining: number;
+  processingRate?: string;
+  estimatedCompletion?: string;
+}
+
+// /api/jobs/current-status; null when the user has no active job
+export interface JobStatus {
+  hasActiveJob: boolean;
+  currentJob?: JobSummary;
+}
+
+export interface ProfileResult {
+  id: number;
+  linkedinUrl: string;
+  status: string;
+  errorType?: string;
+  cacheHit?: boolean;
+}
+
+interface JobStream {
+  source: EventSource | null;
+  subscribers: number;
+  connected: boolean;
+  recentProfiles: ProfileResult[];
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Events only reach clients connected to the server whose worker runs the
+// job, so a stream can be open yet silent; queries keep polling slowly under it
+export const STREAMING_POLL_INTERVAL = 30000;
+
+const RECENT_PROFILE_LIMIT = 5;
+const RECONNECT_DELAY = 5000;
+const FINISHED_STATUSES = ['completed', 'failed'];
+
+// One EventSource per job, shared by every component watching it
+const streams = new Map<number, JobStream>();
+const storeListeners = new Set<() => void>();
+let storeVersion = 0;
+
+function notify() {
+  storeVersion++;
+  storeListeners.forEach(listener => listener());
+}
+
+function applyJobSummary(job: JobSummary) {
+  queryClient.setQueryData<JobStatus | null>(["/api/jobs/current-status"], (old) => {
+    if (!old?.currentJob || old.currentJob.id !== job.id) return old;
+    return { ...old, currentJob: job };
+  });
+
+  queryClient.setQueryData<any[]>(["/api/jobs/recent"], (jobs) =>
+    jobs?.map(existing => String(existing.id) !== String(job.id) ? existing : {
+      ...existing,
+      status: job.status,
+      progress: job.progress,
+      failedProfiles: job.failed,
+      retryingProfiles: job.retrying,
+      successRate: job.totalProfiles > 0 ?
+        (job.successful / job.totalProfiles * 100).toFixed(1) + '%' :
+        '0%',
+    })
+  );
+}
+
+function connect(jobId: number) {
+  const stream = streams.get(jobId);
+  const token = getAccessToken();
+  if (!stream || !token) return;
+
+  const baseUrl = import.meta.env.VITE_API_URL || '';
+  const source = new EventSource(`${baseUrl}/api/jobs/${jobId}/events?token=${encodeURIComponent(token)}`);
+  stream.source = source;
+
+  source.onopen = () => {
+    stream.connected = true;
+    notify();
+  };
+
+  const onSummary = (event: MessageEvent) => {
+    const job: JobSummary = JSON.parse(event.data);
+    applyJobSummary(job);
+
+    if (event.type === 'status') {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/recent"] });
+      if (FINISHED_STATUSES.includes(job.status)) {
+        // The server picks the next active job; nothing more will arrive on this stream
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs/current-status"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stats/overview"] });
+        disconnect(stream);
+        notify();
+      }
+    }
+  };
+  source.addEventListener('status', onSummary);
+  source.addEventListener('progress', onSummary);
+
+  source.addEventListener('profile', (event: MessageEvent) => {
+    const profile: ProfileResult = JSON.parse(event.data);
+    stream.recentProfiles = [profile, ...stream.recentProfiles].slice(0, RECENT_PROFILE_LIMIT);
+    notify();
+  });
+
+  source.onerror = () => {
+    stream.connected = false;
+    notify();
+
+    // EventSource retries on its own unless the server refused the stream
+    // (e.g. an expired token); then reconnect with whatever token is current
+    if (source.readyState === EventSource.CLOSED && stream.subscribers > 0) {
+      disconnect(stream);
+      stream.reconnectTimer = setTimeout(() => connect(jobId), RECONNECT_DELAY);
+    }
+  };
+}
+
+function disconnect(stream: JobStream) {
+  clearTimeout(stream.reconnectTimer);
+  stream.source?.close();
+  stream.source = null;
+  stream.connected = false;
+}
+
+function subscribe(jobId: number) {
+  let stream = streams.get(jobId);
+  if (!stream) {
+    stream = { source: null, subscribers: 0, connected: false, recentProfiles: [] };
+    streams.set(jobId, stream);
+    connect(jobId);
+  }
+  stream.subscribers++;
+}
+
+function unsubscribe(jobId: number) {
+  const stream = streams.get(jobId);
+  if (!stream) return;
+
+  stream.subscribers--;
+  if (stream.subscribers <= 0) {
+    disconnect(stream);
+    streams.delete(jobId);
+    notify();
+  }
+}
+
+function subscribeStore(listener: () => void) {
+  storeListeners.add(listener);
+  return () => {
+    storeListeners.delete(listener);
+  };
+}
+
+// True while the job's event stream is open, i.e. polling for it can slow down
+export function isJobStreaming(jobId?: number): boolean {
+  return jobId !== undefined && (streams.get(jobId)?.connected ?? false);
+}
+
+/**
+ * Live updates for the given jobs over /api/jobs/:id/events. Progress and
+ * status events are written straight into the react-query cache; `connected`
+ * tells callers they can poll at STREAMING_POLL_INTERVAL instead.
+ */
+export function useJobEvents(jobIds: number[]) {
+  const key = jobIds.join(',');
+
+  useEffect(() => {
+    const ids = jobIds.slice();
+    ids.forEach(subscribe);
+    return () => ids.forEach(unsubscribe);
+  }, [key]);
+
+  useSyncExternalStore(subscribeStore, () => storeVersion);
+
+  return {
+    connected: jobIds.length > 0 && jobIds.every(isJobStreaming),
+    recentProfiles: jobIds.flatMap(id => streams.get(id)?.recentProfiles ?? []),
+  };
+}
@@ -1,35 +1,24 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
-
-interface JobStatus {
-  hasActiveJob: boolean;
-  currentJob?: {
-    id: number;
-    fileName: string;
-    status: string;
-    progress: number;
-    processedProfiles: number;
-    totalProfiles: number;
-    successful: number;
-    retrying: number;
-    failed: number;
-    remaining: number;
-    processingRate?: string;
-    estimatedCompletion?: string;
-  };
-}
+import { useJobEvents, isJobStreaming, STREAMING_POLL_INTERVAL, type JobStatus } from "@/hooks/use-job-events";
+import type { ProfileProviderName } from "@shared/schema";
 
 export function useJobProcessing() {
   const { data: jobStatus, isLoading, error } = useQuery<JobStatus | null>({
     queryKey: ["/api/jobs/current-status"],
-    refetchInterval: 5000, // Poll every 5 seconds
+    // Poll every 5 seconds, or slowly while the job's event stream is open
+    refetchInterval: (query) => isJobStreaming(query.state.data?.currentJob?.id) ? STREAMING_POLL_INTERVAL : 5000,
     retry: 3,
   });
 
+  const { connected: isLive, recentProfiles } = useJobEvents(
+    jobStatus?.currentJob ? [jobStatus.currentJob.id] : []
+  );
+
   const startJobMutation = useMutation({
-    mutationFn: async (data: { fileId: string; batchSize: number }) => {
-      const response = await apiRequest("POST", "/api/jobs/start", data);
+    mutationFn: async (data: { fileId: string; batchSize: number; provider: ProfileProviderName; cacheMaxAgeDays: number }) => {
+      const response = await apiRequest("POST", "/api/jobs/start", { body: JSON.stringify(data) });
       return response.json();
     },
     onSuccess: () => {
@@ -119,6 +108,8 @@ export function useJobProcessing() {
     error,
     hasActiveJob: jobStatus?.hasActiveJob ?? false,
     currentJob: jobStatus?.currentJob,
+    isLive,
+    recentProfiles,
     startJob: startJobMutation.mutate,
     pauseJob: pauseJobMutation.mutate,
     resumeJob: resumeJobMutation.mutate,
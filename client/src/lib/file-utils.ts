@@ -1,19 +1,76 @@
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getAccessToken, getActiveWorkspaceId } from '@/lib/queryClient';
+import type { ColumnMapping, UploadPreview } from '@shared/column-mapping';
 
-export async function uploadFile(file: File): Promise<{ id: string; profileCount: number }> {
-  const formData = new FormData();
-  formData.append('file', file);
-
-  const response = await fetch('/api/files/upload', {
+// Multipart requests can't go through apiRequest, which always sends JSON
+async function postFile<T>(endpoint: string, formData: FormData, fallbackError: string): Promise<T> {
+  const token = getAccessToken();
+  const workspaceId = getActiveWorkspaceId();
+  const response = await fetch(endpoint, {
     method: 'POST',
     body: formData,
     credentials: 'include',
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(workspaceId !== null && { 'X-Workspace-Id': String(workspaceId) }),
+    },
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(error || 'Failed to upload file');
+    let message = error;
+    try {
+      message = JSON.parse(error).error || error;
+    } catch {
+      // Not JSON; use the raw text
+    }
+    throw new Error(message || fallbackError);
   }
 
   return response.json();
-}
\ No newline at end of file
+}
+
+export interface UploadResult {
+  id: string;
+  profileCount: number; // Distinct profiles; repeated URLs are merged
+  previouslyExtractedCount: number; // Profiles already extracted in an earlier job
+}
+
+export async function uploadFile(file: File, mapping?: ColumnMapping): Promise<UploadResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (mapping) {
+    formData.append('mapping', JSON.stringify(mapping));
+  }
+
+  return postFile('/api/files/upload', formData, 'Failed to upload file');
+}
+
+export async function previewFile(file: File): Promise<UploadPreview> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  return postFile('/api/files/preview', formData, 'Failed to read file');
+}
+
+// Plain URL lists have no columns to map
+export function needsColumnMapping(file: File): boolean {
+  return !file.name.toLowerCase().endsWith('.txt');
+}
+
+// Saves a file the server sends as an attachment, under the name it gives
+export async function downloadAttachment(endpoint: string, fallbackName: string): Promise<void> {
+  const response = await apiRequest('GET', endpoint);
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const encodedName = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+  const name = encodedName ? decodeURIComponent(encodedName) : /filename="([^"]+)"/i.exec(disposition)?.[1] ?? fallbackName;
+  const blob = await response.blob();
+
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
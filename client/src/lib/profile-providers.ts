@@ -0,0 +1,16 @@
+import type { ProfileProviderName } from "@shared/schema";
+
+export const PROFILE_PROVIDER_LABELS: Record<ProfileProviderName, string> = {
+  linkedin: "LinkedIn API",
+  ai: "AI Inference",
+  mock: "Mock Data",
+};
+
+export function getProfileProviderLabel(provider?: string): string {
+  return PROFILE_PROVIDER_LABELS[provider as ProfileProviderName] ?? provider ?? "Unknown";
+}
+
+// AI and mock providers generate synthetic profiles rather than real LinkedIn data
+export function isSyntheticProvider(provider?: string): boolean {
+  return provider === "ai" || provider === "mock";
+}
@@ -36,6 +36,28 @@ export const queryClient = new QueryClient({
   },
 });
 
+// Access token of the signed-in user, if any
+export function getAccessToken(): string | null {
+  const authData = localStorage.getItem('auth');
+  return authData ? JSON.parse(authData).accessToken : null;
+}
+
+// Workspace the app is working in (sent as X-Workspace-Id); null for the user's personal jobs
+export function getActiveWorkspaceId(): number | null {
+  const id = localStorage.getItem('activeWorkspaceId');
+  return id ? parseInt(id) : null;
+}
+
+export function setActiveWorkspaceId(id: number | null): void {
+  if (id === null) {
+    localStorage.removeItem('activeWorkspaceId');
+  } else {
+    localStorage.setItem('activeWorkspaceId', String(id));
+  }
+  // Cached jobs and stats belong to the previous workspace
+  queryClient.resetQueries();
+}
+
 // Enhanced API request function with better error handling and caching
 export async function apiRequest(
   method: string,
@@ -50,8 +72,8 @@ export async function apiRequest(
   const url = `${baseUrl}${endpoint}`;
   
   // Get auth token from localStorage
-  const authData = localStorage.getItem('auth');
-  const token = authData ? JSON.parse(authData).accessToken : null;
+  const token = getAccessToken();
+  const workspaceId = getActiveWorkspaceId();
   
   const config: RequestInit = {
     method,
@@ -59,6 +81,7 @@ export async function apiRequest(
       'Content-Type': 'application/json',
       ...options.headers,
       ...(token && { Authorization: `Bearer ${token}` }),
+      ...(workspaceId !== null && { 'X-Workspace-Id': String(workspaceId) }),
     },
     signal: options.signal,
   };
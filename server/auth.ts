@@ -1,7 +1,9 @@
 import bcrypt from 'bcryptjs';
+import { createHash, randomBytes } from 'crypto';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import type { User } from '@shared/schema';
+import { CONFIG } from './config/constants';
 
 // Validate environment variables
 const envSchema = z.object({
@@ -77,6 +79,24 @@ export function verifyRefreshToken(token: string): { userId: number } {
   }
 }
 
+// Personal API keys are random, so a fast hash is enough to store them safely
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${CONFIG.API_KEYS.PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    prefix: key.slice(0, CONFIG.API_KEYS.DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(CONFIG.API_KEYS.PREFIX);
+}
+
 // Generate a secure random string for refresh tokens
 export function generateSecureToken(): string {
   return bcrypt.genSaltSync(16);
@@ -0,0 +1,45 @@
+import { db } from "./db";
+import { profiles } from "@shared/schema";
+import { getCanonicalLinkedInId } from "@shared/linkedin-url";
+import { and, asc, eq, gt, isNull } from "drizzle-orm";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Sets profiles.canonical_id on rows created before URLs were normalized
+async function backfillCanonicalIds() {
+  try {
+    let lastId = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    while (true) {
+      const batch = await db
+        .select({ id: profiles.id, linkedinUrl: profiles.linkedinUrl })
+        .from(profiles)
+        .where(and(isNull(profiles.canonicalId), gt(profiles.id, lastId)))
+        .orderBy(asc(profiles.id))
+        .limit(500);
+      if (batch.length === 0) break;
+
+      for (const profile of batch) {
+        const canonicalId = getCanonicalLinkedInId(profile.linkedinUrl);
+        if (canonicalId) {
+          await db.update(profiles).set({ canonicalId }).where(eq(profiles.id, profile.id));
+          updated++;
+        } else {
+          skipped++;
+        }
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+
+    console.log(`Backfilled ${updated} profiles (${skipped} URLs could not be normalized)`);
+  } catch (error) {
+    console.error("Error backfilling canonical ids:", error);
+  } finally {
+    process.exit(0);
+  }
+}
+
+backfillCanonicalIds();
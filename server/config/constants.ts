@@ -1,9 +1,11 @@
 // Configuration constants for the application
+import { uploadFileExtensions } from '@shared/schema';
+
 export const CONFIG = {
   // File upload limits
   FILE_UPLOAD: {
     MAX_SIZE: 50 * 1024 * 1024, // 50MB
-    ALLOWED_EXTENSIONS: ['.xlsx', '.xls'],
+    ALLOWED_EXTENSIONS: uploadFileExtensions as readonly string[],
     TEMP_DIRECTORY: 'uploads/',
   },
 
@@ -12,10 +14,69 @@ export const CONFIG = {
     DEFAULT_BATCH_SIZE: 50,
     MIN_BATCH_SIZE: 10,
     MAX_BATCH_SIZE: 100,
-    RATE_LIMIT_DELAY: 2000, // 2 seconds between requests
     BATCH_DELAY: 5000, // 5 seconds between batches
     MAX_RETRIES: 3,
     RETRY_DELAY: 1000, // Initial retry delay
+    MAX_CONCURRENT_JOBS: parseInt(process.env.JOB_WORKER_CONCURRENCY || '4', 10), // Jobs one server runs at once
+    MAX_CONCURRENT_JOBS_PER_USER: parseInt(process.env.JOB_MAX_CONCURRENT_PER_USER || '2', 10), // Across all servers
+  },
+
+  // Durable job queue
+  JOB_QUEUE: {
+    POLL_INTERVAL: 5000, // How often an idle worker looks for queued jobs
+    LEASE_DURATION: 60 * 1000, // Lease length, renewed after every profile
+  },
+
+  // Scheduled retry pass for 'retrying' profiles
+  RETRY_SCHEDULER: {
+    POLL_INTERVAL: 60 * 1000, // How often due retries are looked for
+    BASE_DELAYS: { // First backoff per error type, doubled on each further attempt
+      rate_limit: 15 * 60 * 1000,
+      captcha: 30 * 60 * 1000,
+      unknown: 2 * 60 * 1000,
+    } as Record<string, number>,
+    MAX_DELAY: 6 * 60 * 60 * 1000,
+  },
+
+  // Scheduled watchlist re-extraction and change alerts
+  WATCHLISTS: {
+    POLL_INTERVAL: 5 * 60 * 1000, // How often due watchlists and finished watchlist jobs are looked for
+    NOTIFICATION_LIST_LIMIT: 50,
+  },
+
+  // Outbound webhooks for job lifecycle events
+  WEBHOOKS: {
+    POLL_INTERVAL: 30 * 1000, // How often deliveries due for a retry are looked for
+    REQUEST_TIMEOUT: 10 * 1000,
+    MAX_ATTEMPTS: 6,
+    BASE_DELAY: 60 * 1000, // First retry backoff, doubled on each further attempt
+    MAX_DELAY: 6 * 60 * 60 * 1000,
+    BATCH_SIZE: 50, // Deliveries retried per poll
+    DELIVERY_LIST_LIMIT: 50,
+  },
+
+  // Server-Sent Events for job progress
+  JOB_EVENTS: {
+    HEARTBEAT_INTERVAL: 25 * 1000, // Keeps proxies from closing idle streams
+  },
+
+  // Cross-job profile cache; jobs choose their own freshness window
+  PROFILE_CACHE: {
+    DEFAULT_MAX_AGE_DAYS: 30,
+    MAX_AGE_DAYS: 365,
+  },
+
+  // Profile data sources
+  PROFILE_PROVIDERS: {
+    DEFAULT: process.env.DEFAULT_PROFILE_PROVIDER || 'mock',
+  },
+
+  // LinkedIn endpoints; point these at the fake server (npm run fake-linkedin) to work offline
+  LINKEDIN: {
+    API_BASE_URL: (process.env.LINKEDIN_API_BASE_URL || 'https://api.linkedin.com/v2').replace(/\/+$/, ''),
+    OAUTH_BASE_URL: (process.env.LINKEDIN_OAUTH_BASE_URL || 'https://www.linkedin.com/oauth/v2').replace(/\/+$/, ''),
+    AUTH_STATE_TTL: 10 * 60 * 1000, // How long an OAuth state stays valid
+    TOKEN_REFRESH_MARGIN: 5 * 60 * 1000, // Refresh access tokens this long before they expire
   },
 
   // API limits
@@ -24,6 +85,17 @@ export const CONFIG = {
     RATE_LIMIT_WINDOW: 60 * 60 * 1000, // 1 hour
   },
 
+  // Token buckets for outbound LinkedIn calls; the per-user request quota
+  // itself is api_stats.requestsLimit per API_LIMITS.RATE_LIMIT_WINDOW
+  LINKEDIN_RATE_LIMIT: {
+    APP_REQUESTS_PER_MINUTE: parseInt(process.env.LINKEDIN_APP_REQUESTS_PER_MINUTE || '100', 10),
+    APP_BURST: 20,
+    USER_REQUESTS_PER_MINUTE: parseInt(process.env.LINKEDIN_USER_REQUESTS_PER_MINUTE || '30', 10),
+    USER_BURST: 5,
+    DEFAULT_RETRY_AFTER: 60, // Seconds to back off after a 429 without Retry-After
+    MAX_WAIT: 30 * 1000, // Longer waits fail with RateLimitError; keep below JOB_QUEUE.LEASE_DURATION
+  },
+
   // Demo mode
   DEMO: {
     USERNAME: 'demo_user',
@@ -40,6 +112,13 @@ export const CONFIG = {
     MAX_CONNECTIONS: 20,
   },
 
+  // Personal API keys
+  API_KEYS: {
+    PREFIX: 'lkh_',
+    DISPLAY_PREFIX_LENGTH: 12, // Characters kept in plain text to identify the key
+    LAST_USED_RESOLUTION: 60 * 1000, // lastUsedAt is written at most this often per key
+  },
+
   // Session
   SESSION: {
     SECRET: process.env.SESSION_SECRET || 'demo-secret-key',
@@ -53,6 +132,17 @@ export const CONFIG = {
     NOT_FOUND: 'not_found',
     ACCESS_RESTRICTED: 'access_restricted',
     RATE_LIMIT: 'rate_limit',
+    INVALID_DATA: 'invalid_data', // Provider output failed profileDataSchema validation
+    INVALID_URL: 'invalid_url', // Not a LinkedIn profile URL; retrying can't help
+  },
+
+  // Job queue entry states
+  QUEUE_STATUS: {
+    QUEUED: 'queued',
+    LEASED: 'leased',
+    PAUSED: 'paused',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
   },
 
   // Status types
@@ -64,6 +154,7 @@ export const CONFIG = {
     PAUSED: 'paused',
     RETRYING: 'retrying',
     SUCCESS: 'success',
+    REAUTH_REQUIRED: 'reauth_required',
   },
 } as const;
 
@@ -0,0 +1,316 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { mockProfileGenerator } from "../services/mock-profile-generator";
+
+// Stand-in for the LinkedIn OAuth and v2 APIs used by LinkedInService.
+// Profiles are generated deterministically from the profile ID, and failures
+// can be scripted through the /__control endpoints or by profile ID
+// (e.g. linkedin.com/in/status-429 always answers 429).
+
+export type FakeRoute = 'authorize' | 'token' | 'people' | 'positions' | 'educations';
+
+export interface FakeRule {
+  id: string;
+  route: FakeRoute | '*';
+  profileId?: string; // Only match requests for this profile
+  status: number;
+  retryAfter?: number; // Seconds, sent as Retry-After (429/503)
+  body?: unknown;
+  remaining?: number; // Number of matches left; unlimited when undefined
+}
+
+export interface FakeRequestLog {
+  route: FakeRoute;
+  profileId?: string;
+  status: number;
+  at: string;
+}
+
+interface IssuedToken {
+  refreshToken: string;
+  expiresAt: number;
+}
+
+const STATUS_SLUG = /^status-(\d{3})$/;
+
+const STATUS_ERRORS: Record<number, { serviceErrorCode: number; message: string }> = {
+  401: { serviceErrorCode: 65600, message: 'Invalid access token' },
+  403: { serviceErrorCode: 100, message: 'Not enough permissions to access this profile' },
+  404: { serviceErrorCode: 0, message: 'Profile not found' },
+  429: { serviceErrorCode: 101, message: 'Resource level throttle limit reached' },
+};
+
+function localized(value: string) {
+  return { localized: { en_US: value }, preferredLocale: { country: 'US', language: 'en' } };
+}
+
+function yearMonth(year: number, month = 1) {
+  return { year, month };
+}
+
+export function createFakeLinkedInApp(options: { tokenTtlSeconds?: number } = {}) {
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+  const app = express();
+
+  let rules: FakeRule[] = [];
+  let requestLog: FakeRequestLog[] = [];
+  const authCodes = new Map<string, string>(); // code -> redirect_uri
+  const accessTokens = new Map<string, IssuedToken>();
+  const refreshTokens = new Set<string>();
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const record = (route: FakeRoute, status: number, profileId?: string) => {
+    requestLog.push({ route, profileId, status, at: new Date().toISOString() });
+  };
+
+  const findRule = (route: FakeRoute, profileId?: string): FakeRule | undefined => {
+    const rule = rules.find(r =>
+      (r.route === '*' || r.route === route) &&
+      (!r.profileId || r.profileId === profileId)
+    );
+    if (rule && rule.remaining !== undefined) {
+      rule.remaining--;
+      if (rule.remaining <= 0) {
+        rules = rules.filter(r => r.id !== rule.id);
+      }
+    }
+    return rule;
+  };
+
+  const sendError = (res: Response, status: number, retryAfter?: number, body?: unknown) => {
+    if (retryAfter !== undefined) {
+      res.set('Retry-After', String(retryAfter));
+    }
+    const known = STATUS_ERRORS[status];
+    res.status(status).json(body ?? {
+      status,
+      serviceErrorCode: known?.serviceErrorCode ?? 0,
+      message: known?.message ?? `Simulated ${status} response`,
+    });
+  };
+
+  // Applies scripted rules and status-NNN profile IDs; returns true if a response was sent
+  const applyScript = (route: FakeRoute, res: Response, profileId?: string): boolean => {
+    const rule = findRule(route, profileId);
+    if (rule) {
+      record(route, rule.status, profileId);
+      sendError(res, rule.status, rule.retryAfter, rule.body);
+      return true;
+    }
+
+    const slugStatus = profileId?.match(STATUS_SLUG);
+    if (slugStatus) {
+      const status = parseInt(slugStatus[1], 10);
+      record(route, status, profileId);
+      sendError(res, status, status === 429 ? 60 : undefined);
+      return true;
+    }
+
+    return false;
+  };
+
+  const extractProfileId = (req: Request): string | undefined => {
+    const source = req.params.person ?? (typeof req.query.person === 'string' ? req.query.person : '');
+    const match = source.match(/^\(id:(.+)\)$/);
+    return match ? decodeURIComponent(match[1]) : undefined;
+  };
+
+  const requireToken = (route: FakeRoute) => (req: Request, res: Response, next: NextFunction) => {
+    const profileId = extractProfileId(req);
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    const issued = token ? accessTokens.get(token) : undefined;
+
+    if (!issued || issued.expiresAt < Date.now()) {
+      record(route, 401, profileId);
+      return sendError(res, 401);
+    }
+    next();
+  };
+
+  const profileFor = (profileId: string) =>
+    mockProfileGenerator.generateProfileFromUrl(`https://www.linkedin.com/in/${profileId}`);
+
+  // OAuth: authorization is approved immediately and redirected back with a code
+  app.get('/oauth/v2/authorization', (req, res) => {
+    if (applyScript('authorize', res)) return;
+
+    const redirectUri = req.query.redirect_uri as string | undefined;
+    if (!redirectUri) {
+      record('authorize', 400);
+      return res.status(400).json({ error: 'invalid_request', error_description: 'redirect_uri is required' });
+    }
+
+    const code = randomUUID();
+    authCodes.set(code, redirectUri);
+    record('authorize', 302);
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    if (req.query.state) {
+      target.searchParams.set('state', String(req.query.state));
+    }
+    res.redirect(target.toString());
+  });
+
+  app.post('/oauth/v2/accessToken', (req, res) => {
+    if (applyScript('token', res)) return;
+
+    const { grant_type, code, refresh_token } = req.body;
+
+    if (grant_type === 'authorization_code') {
+      if (!code || !authCodes.has(code)) {
+        record('token', 400);
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown authorization code' });
+      }
+      authCodes.delete(code);
+    } else if (grant_type === 'refresh_token') {
+      if (!refresh_token || !refreshTokens.has(refresh_token)) {
+        record('token', 400);
+        return res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown refresh token' });
+      }
+    } else {
+      record('token', 400);
+      return res.status(400).json({ error: 'unsupported_grant_type' });
+    }
+
+    const accessToken = `fake_at_${randomUUID()}`;
+    const refreshToken = grant_type === 'refresh_token' ? refresh_token : `fake_rt_${randomUUID()}`;
+    accessTokens.set(accessToken, { refreshToken, expiresAt: Date.now() + tokenTtlSeconds * 1000 });
+    refreshTokens.add(refreshToken);
+    record('token', 200);
+
+    res.json({
+      access_token: accessToken,
+      expires_in: tokenTtlSeconds,
+      refresh_token: refreshToken,
+      refresh_token_expires_in: 365 * 24 * 60 * 60,
+    });
+  });
+
+  app.get('/v2/people/:person', requireToken('people'), (req, res) => {
+    const profileId = extractProfileId(req);
+    if (!profileId) {
+      record('people', 400);
+      return sendError(res, 400);
+    }
+    if (applyScript('people', res, profileId)) return;
+
+    const profile = profileFor(profileId);
+    record('people', 200, profileId);
+    res.json({
+      id: profileId,
+      firstName: localized(profile.firstName),
+      lastName: localized(profile.lastName),
+      headline: localized(profile.headline),
+      summary: localized(profile.summary),
+      industry: profile.industry,
+      location: { name: profile.location },
+      profilePicture: {
+        'displayImage~': { elements: [{ identifiers: [{ identifier: profile.profilePicture }] }] },
+      },
+    });
+  });
+
+  app.get('/v2/positions', requireToken('positions'), (req, res) => {
+    const profileId = extractProfileId(req);
+    if (!profileId) {
+      record('positions', 400);
+      return sendError(res, 400);
+    }
+    if (applyScript('positions', res, profileId)) return;
+
+    const profile = profileFor(profileId);
+    record('positions', 200, profileId);
+    res.json({
+      elements: profile.experience.map(exp => {
+        const [start, end] = exp.duration.split('-').map(part => part.trim());
+        return {
+          title: localized(exp.title),
+          companyName: localized(exp.company),
+          description: localized(exp.description),
+          dateRange: {
+            start: yearMonth(parseInt(start, 10)),
+            ...(end && end !== 'Present' ? { end: yearMonth(parseInt(end, 10)) } : {}),
+          },
+        };
+      }),
+    });
+  });
+
+  app.get('/v2/educations', requireToken('educations'), (req, res) => {
+    const profileId = extractProfileId(req);
+    if (!profileId) {
+      record('educations', 400);
+      return sendError(res, 400);
+    }
+    if (applyScript('educations', res, profileId)) return;
+
+    const profile = profileFor(profileId);
+    record('educations', 200, profileId);
+    res.json({
+      elements: profile.education.map(edu => ({
+        schoolName: localized(edu.school),
+        degreeName: localized(edu.degree),
+        fieldOfStudy: localized(edu.field),
+        dateRange: {
+          start: yearMonth(parseInt(edu.year, 10) - 4, 9),
+          end: yearMonth(parseInt(edu.year, 10), 6),
+        },
+      })),
+    });
+  });
+
+  // Scripting API for tests
+  app.get('/__control/rules', (_req, res) => {
+    res.json(rules);
+  });
+
+  app.post('/__control/rules', (req, res) => {
+    const { route = '*', profileId, status, retryAfter, body, times } = req.body;
+    if (typeof status !== 'number' || status < 400 || status > 599) {
+      return res.status(400).json({ error: 'status must be a 4xx or 5xx number' });
+    }
+
+    const rule: FakeRule = {
+      id: randomUUID(),
+      route,
+      profileId,
+      status,
+      retryAfter,
+      body,
+      remaining: typeof times === 'number' ? times : undefined,
+    };
+    rules.push(rule);
+    res.status(201).json(rule);
+  });
+
+  app.delete('/__control/rules/:id', (req, res) => {
+    rules = rules.filter(r => r.id !== req.params.id);
+    res.status(204).end();
+  });
+
+  // Expire every issued access token so the next API call gets a 401
+  app.post('/__control/tokens/expire', (_req, res) => {
+    for (const token of Array.from(accessTokens.values())) {
+      token.expiresAt = 0;
+    }
+    res.json({ expired: accessTokens.size });
+  });
+
+  app.get('/__control/requests', (_req, res) => {
+    res.json(requestLog);
+  });
+
+  app.post('/__control/reset', (_req, res) => {
+    rules = [];
+    requestLog = [];
+    authCodes.clear();
+    accessTokens.clear();
+    refreshTokens.clear();
+    res.status(204).end();
+  });
+
+  return app;
+}
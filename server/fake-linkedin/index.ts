@@ -0,0 +1,15 @@
+import dotenv from "dotenv";
+import { createFakeLinkedInApp } from "./app";
+
+dotenv.config();
+
+const port = parseInt(process.env.FAKE_LINKEDIN_PORT || '5055', 10);
+const tokenTtlSeconds = parseInt(process.env.FAKE_LINKEDIN_TOKEN_TTL || '3600', 10);
+
+const app = createFakeLinkedInApp({ tokenTtlSeconds });
+
+app.listen(port, () => {
+  console.log(`Fake LinkedIn API listening on http://localhost:${port}`);
+  console.log(`  LINKEDIN_API_BASE_URL=http://localhost:${port}/v2`);
+  console.log(`  LINKEDIN_OAUTH_BASE_URL=http://localhost:${port}/oauth/v2`);
+});
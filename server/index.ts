@@ -2,6 +2,8 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { container } from "./services/dependency-container";
+import { redactSecrets } from "./utils/redact";
 
 const app = express();
 
@@ -30,7 +32,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(redactSecrets(capturedJsonResponse))}`;
       }
 
       if (logLine.length > 80) {
@@ -75,5 +77,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Resume queued and orphaned jobs left over from a previous run
+    container.get('jobQueue').start();
+    container.get('retryScheduler').start();
+    container.get('watchlistScheduler').start();
+    container.get('webhooks').start();
   });
 })();
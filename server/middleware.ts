@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
-import { verifyAccessToken } from './auth';
+import { verifyAccessToken, hashApiKey, isApiKey } from './auth';
 import type { TokenPayload } from './auth';
+import { storage, type JobScope } from './storage';
+import { CONFIG } from './config/constants';
+import { hasWorkspaceRole, type ApiKeyScope, type Job, type Profile, type Workspace, type WorkspaceRole } from '@shared/schema';
 import { z } from 'zod';
 
 // Extend Express Request interface to include user
@@ -10,12 +13,20 @@ declare global {
   namespace Express {
     interface Request {
       user?: TokenPayload;
+      apiKey?: { id: number; scopes: ApiKeyScope[] }; // Set when authenticated with a personal API key
+      job?: Job; // Set by loadOwnedJob / loadOwnedProfile
+      profile?: Profile; // Set by loadOwnedProfile
+      jobScope?: JobScope; // Set by resolveJobScope
+      workspace?: Workspace; // Set by loadWorkspace
+      workspaceRole?: WorkspaceRole; // Caller's role, set by resolveJobScope (for a workspace) and loadWorkspace
     }
   }
 }
 
 // Input validation schemas
 export const jobIdSchema = z.coerce.number().positive().int();
+export const profileIdSchema = z.coerce.number().positive().int();
+export const workspaceIdSchema = z.coerce.number().positive().int();
 export const paginationSchema = z.object({
   page: z.coerce.number().positive().int().default(1),
   limit: z.coerce.number().positive().int().max(100).default(10),
@@ -67,6 +78,13 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     });
   }
 
+  if (isApiKey(token)) {
+    return res.status(403).json({
+      error: 'API keys are not accepted for this endpoint',
+      code: 'API_KEY_NOT_ALLOWED'
+    });
+  }
+
   // Validate token format (basic check)
   if (!/^[A-Za-z0-9\-_]+\.[A-Za-z0-9\-_]+\.[A-Za-z0-9\-_]+$/.test(token)) {
     return res.status(401).json({ 
@@ -91,6 +109,208 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
   }
 }
 
+function getApiKey(req: Request): string | undefined {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+  const token = req.headers['authorization']?.split(' ')[1];
+  return token && isApiKey(token) ? token : undefined;
+}
+
+/**
+ * For routes in the public API (see server/openapi.ts): accepts a session
+ * access token like authenticateToken, or a personal API key holding `scope`,
+ * sent as `X-API-Key` or `Authorization: Bearer`.
+ */
+export function authenticate(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = getApiKey(req);
+    if (!key) {
+      return authenticateToken(req, res, next);
+    }
+
+    try {
+      const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+      const now = new Date();
+      if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+        return res.status(401).json({
+          error: 'Invalid, expired or revoked API key',
+          code: 'INVALID_API_KEY'
+        });
+      }
+
+      const scopes = apiKey.scopes as ApiKeyScope[];
+      if (!scopes.includes(scope)) {
+        return res.status(403).json({
+          error: `API key is missing the ${scope} scope`,
+          code: 'INSUFFICIENT_SCOPE'
+        });
+      }
+
+      const user = await storage.getUser(apiKey.userId);
+      if (!user) {
+        return res.status(401).json({
+          error: 'Invalid, expired or revoked API key',
+          code: 'INVALID_API_KEY'
+        });
+      }
+
+      if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= CONFIG.API_KEYS.LAST_USED_RESOLUTION) {
+        storage.updateApiKeyLastUsed(apiKey.id, now).catch(error => {
+          console.error('Failed to record API key use:', error);
+        });
+      }
+
+      req.user = { userId: user.id, username: user.username, email: user.email };
+      req.apiKey = { id: apiKey.id, scopes };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export type JobAccess = 'allowed' | 'forbidden' | 'not_found';
+
+/**
+ * Personal jobs are only visible to their uploader. Workspace jobs are visible
+ * to the workspace's members, who need at least `minimumRole` to act on them.
+ */
+export async function checkJobAccess(job: Job, userId: number, minimumRole: WorkspaceRole): Promise<JobAccess> {
+  if (job.workspaceId === null) {
+    return job.userId === userId ? 'allowed' : 'not_found';
+  }
+  const member = await storage.getWorkspaceMember(job.workspaceId, userId);
+  if (!member) {
+    return 'not_found';
+  }
+  return hasWorkspaceRole(member.role as WorkspaceRole, minimumRole) ? 'allowed' : 'forbidden';
+}
+
+export function insufficientRole(res: Response, minimumRole: WorkspaceRole) {
+  return res.status(403).json({
+    error: `Requires the ${minimumRole} role in this workspace`,
+    code: 'INSUFFICIENT_ROLE'
+  });
+}
+
+/**
+ * Loads the job named by `req.params[param]` into req.job. Jobs the caller
+ * can't see answer 404, as if they didn't exist, so job ids can't be probed;
+ * workspace members below `minimumRole` get 403. Goes after an authentication
+ * middleware.
+ */
+export function loadOwnedJob(param: string = 'id', minimumRole: WorkspaceRole = 'viewer') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = jobIdSchema.safeParse(req.params[param]);
+      const job = id.success ? await storage.getJob(id.data) : undefined;
+      const access = job ? await checkJobAccess(job, req.user!.userId, minimumRole) : 'not_found';
+      if (access === 'not_found') {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      if (access === 'forbidden') {
+        return insufficientRole(res, minimumRole);
+      }
+      req.job = job;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Like loadOwnedJob for routes addressed by profile id: sets req.profile and
+ * req.job when the caller can access the profile's job.
+ */
+export function loadOwnedProfile(param: string = 'id', minimumRole: WorkspaceRole = 'viewer') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = profileIdSchema.safeParse(req.params[param]);
+      const profile = id.success ? await storage.getProfile(id.data) : undefined;
+      const job = profile ? await storage.getJob(profile.jobId) : undefined;
+      const access = job ? await checkJobAccess(job, req.user!.userId, minimumRole) : 'not_found';
+      if (access === 'not_found') {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+      if (access === 'forbidden') {
+        return insufficientRole(res, minimumRole);
+      }
+      req.profile = profile;
+      req.job = job;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Loads the workspace named by `req.params[param]` into req.workspace, with the
+ * caller's role. Non-members get 404, members below `minimumRole` 403.
+ */
+export function loadWorkspace(minimumRole: WorkspaceRole = 'viewer', param: string = 'id') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = workspaceIdSchema.safeParse(req.params[param]);
+      const workspace = id.success ? await storage.getWorkspace(id.data) : undefined;
+      const member = workspace ? await storage.getWorkspaceMember(workspace.id, req.user!.userId) : undefined;
+      if (!workspace || !member) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+      if (!hasWorkspaceRole(member.role as WorkspaceRole, minimumRole)) {
+        return insufficientRole(res, minimumRole);
+      }
+      req.workspace = workspace;
+      req.workspaceRole = member.role as WorkspaceRole;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Sets req.jobScope for routes that list, count or create jobs: the workspace
+ * named in the X-Workspace-Id header, or the caller's personal jobs without it.
+ */
+export function resolveJobScope(minimumRole: WorkspaceRole = 'viewer') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('x-workspace-id');
+    if (!header) {
+      req.jobScope = { userId: req.user!.userId };
+      return next();
+    }
+
+    try {
+      const id = workspaceIdSchema.safeParse(header);
+      const member = id.success ? await storage.getWorkspaceMember(id.data, req.user!.userId) : undefined;
+      if (!member) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+      if (!hasWorkspaceRole(member.role as WorkspaceRole, minimumRole)) {
+        return insufficientRole(res, minimumRole);
+      }
+      req.jobScope = { workspaceId: member.workspaceId };
+      req.workspaceRole = member.role as WorkspaceRole;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// EventSource can't send an Authorization header, so event streams may pass the
+// access token as ?token= instead
+export function authenticateEventStream(req: Request, res: Response, next: NextFunction) {
+  if (!req.headers['authorization'] && typeof req.query.token === 'string') {
+    req.headers['authorization'] = `Bearer ${req.query.token}`;
+  }
+  return authenticateToken(req, res, next);
+}
+
 // Optional authentication middleware (for routes that work with or without auth)
 export function optionalAuth(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
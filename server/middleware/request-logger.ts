@@ -1,5 +1,6 @@
 import type { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { redactSecrets } from '../utils/redact';
 
 export function requestLogger(req: Request, res: Response, next: NextFunction): void {
   const start = Date.now();
@@ -8,7 +9,7 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
   // Log request start
   logger.debug("%s %s", method, path, {
     query,
-    body: method !== 'GET' ? body : undefined,
+    body: method !== 'GET' ? redactSecrets(body) : undefined,
     userId: (req as any).user?.id,
   });
 
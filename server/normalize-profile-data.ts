@@ -0,0 +1,128 @@
+import { db } from "./db";
+import { profileCache, profiles, profileSnapshots, type ProfileData } from "@shared/schema";
+import { toProfileData } from "./services/profile-providers/format";
+import { and, asc, eq, gt, isNotNull } from "drizzle-orm";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+interface StoredProfileData {
+  id: number;
+  profileData: unknown;
+  fallback: { id: string; publicProfileUrl: string };
+}
+
+function profileUrl(canonicalId: string): string {
+  return `https://www.linkedin.com/in/${encodeURIComponent(canonicalId)}`;
+}
+
+// jsonb doesn't keep key order, so compare with sorted keys
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === "object" && !Array.isArray(entry)
+      ? Object.fromEntries(Object.keys(entry).sort().map(key => [key, entry[key]]))
+      : entry
+  );
+}
+
+async function normalizeTable(
+  table: string,
+  readBatch: (afterId: number) => Promise<StoredProfileData[]>,
+  write: (id: number, profileData: ProfileData) => Promise<unknown>
+) {
+  let lastId = 0;
+  let updated = 0;
+  let unchanged = 0;
+  let invalid = 0;
+
+  while (true) {
+    const batch = await readBatch(lastId);
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      let normalized: ProfileData;
+      try {
+        normalized = toProfileData(row.profileData, row.fallback);
+      } catch (error) {
+        console.warn(`${table} ${row.id}: left as is, ${error instanceof Error ? error.message : error}`);
+        invalid++;
+        continue;
+      }
+
+      if (stableJson(normalized) === stableJson(row.profileData)) {
+        unchanged++;
+      } else {
+        await write(row.id, normalized);
+        updated++;
+      }
+    }
+    lastId = batch[batch.length - 1].id;
+  }
+
+  console.log(`${table}: normalized ${updated} rows (${unchanged} already canonical, ${invalid} invalid)`);
+}
+
+// Rewrites profile data saved before profileDataSchema into the canonical shape
+async function normalizeProfileData() {
+  try {
+    await normalizeTable(
+      "profiles",
+      async afterId => {
+        const rows = await db
+          .select({ id: profiles.id, linkedinUrl: profiles.linkedinUrl, canonicalId: profiles.canonicalId, profileData: profiles.profileData })
+          .from(profiles)
+          .where(and(isNotNull(profiles.profileData), gt(profiles.id, afterId)))
+          .orderBy(asc(profiles.id))
+          .limit(500);
+        return rows.map(row => ({
+          id: row.id,
+          profileData: row.profileData,
+          fallback: { id: row.canonicalId ?? row.linkedinUrl, publicProfileUrl: row.linkedinUrl },
+        }));
+      },
+      (id, profileData) => db.update(profiles).set({ profileData }).where(eq(profiles.id, id))
+    );
+
+    await normalizeTable(
+      "profile_cache",
+      async afterId => {
+        const rows = await db
+          .select({ id: profileCache.id, canonicalId: profileCache.canonicalId, profileData: profileCache.profileData })
+          .from(profileCache)
+          .where(gt(profileCache.id, afterId))
+          .orderBy(asc(profileCache.id))
+          .limit(500);
+        return rows.map(row => ({
+          id: row.id,
+          profileData: row.profileData,
+          fallback: { id: row.canonicalId, publicProfileUrl: profileUrl(row.canonicalId) },
+        }));
+      },
+      (id, profileData) => db.update(profileCache).set({ profileData }).where(eq(profileCache.id, id))
+    );
+
+    await normalizeTable(
+      "profile_snapshots",
+      async afterId => {
+        const rows = await db
+          .select({ id: profileSnapshots.id, canonicalId: profileSnapshots.canonicalId, profileData: profileSnapshots.profileData })
+          .from(profileSnapshots)
+          .where(gt(profileSnapshots.id, afterId))
+          .orderBy(asc(profileSnapshots.id))
+          .limit(500);
+        return rows.map(row => ({
+          id: row.id,
+          profileData: row.profileData,
+          fallback: { id: row.canonicalId, publicProfileUrl: profileUrl(row.canonicalId) },
+        }));
+      },
+      (id, profileData) => db.update(profileSnapshots).set({ profileData }).where(eq(profileSnapshots.id, id))
+    );
+  } catch (error) {
+    console.error("Error normalizing profile data:", error);
+  } finally {
+    process.exit(0);
+  }
+}
+
+normalizeProfileData();
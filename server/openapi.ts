@@ -0,0 +1,395 @@
+import { z, type ZodTypeAny } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import { jobs, profiles, aiAnalyses, profileDataSchema, exportQuerySchema, enrichQuerySchema, exportTypes, profileExportFormats, profileProviderNames, apiKeyScopes, type ApiKeyScope } from "@shared/schema";
+import { columnMappingSchema } from "@shared/column-mapping";
+import { CONFIG } from "./config/constants";
+
+// The OpenAPI document served at /api/openapi.json. Operations are listed
+// here next to their auth requirement; request and response schemas are
+// generated from the same zod/drizzle schemas the routes use.
+
+type JsonSchema = Record<string, unknown>;
+
+// Converts the subset of zod used by the API's schemas; anything else is left open
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  const description = schema.description ? { description: schema.description } : {};
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: "string", ...description };
+      for (const check of def.checks) {
+        if (check.kind === "email") result.format = "email";
+        if (check.kind === "url") result.format = "uri";
+        if (check.kind === "min") result.minLength = check.value;
+        if (check.kind === "max") result.maxLength = check.value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: "number", ...description };
+      for (const check of def.checks) {
+        if (check.kind === "int") result.type = "integer";
+        if (check.kind === "min") result.minimum = check.value;
+        if (check.kind === "max") result.maximum = check.value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean", ...description };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time", ...description };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { enum: [def.value], ...description };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values, ...description };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: "array", items: zodToJsonSchema(def.type), ...description };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape() as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return { type: "object", properties, ...(required.length > 0 ? { required } : {}), ...description };
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: zodToJsonSchema(def.valueType), ...description };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: ZodTypeAny) => zodToJsonSchema(option)), ...description };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToJsonSchema(def.innerType), nullable: true };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return { ...zodToJsonSchema(def.in), ...description }; // Callers send the input side
+    default:
+      return { ...description };
+  }
+}
+
+// Request bodies of routes that read req.body without a shared schema
+const startJobRequest = z.object({
+  fileId: z.string().describe("Job id returned by /api/files/upload"),
+  batchSize: z.number().int().optional(),
+  provider: z.enum(profileProviderNames).optional(),
+  cacheMaxAgeDays: z.number().int().min(0).max(CONFIG.PROFILE_CACHE.MAX_AGE_DAYS).optional()
+    .describe("Reuse cached profiles up to this many days old; 0 always re-extracts"),
+});
+
+const uploadRequest = z.object({
+  file: z.string().describe("Spreadsheet, CSV/TSV or text file of LinkedIn URLs"),
+  mapping: z.string().optional().describe("JSON-encoded ColumnMapping (see components) from the preview step"),
+});
+
+const recruitingInsightsRequest = z.object({
+  jobTitle: z.string().optional(),
+});
+
+const chatRequest = z.object({
+  message: z.string(),
+  jobId: z.number().int().optional(),
+});
+
+const paginationQuery = z.object({
+  page: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).optional(),
+  search: z.string().optional().describe("Filter by file name"),
+});
+
+// Path parameters that name a kind of export rather than a job or profile id
+const ENUM_PATH_PARAMS: Record<string, readonly string[]> = {
+  type: exportTypes,
+  format: profileExportFormats,
+};
+
+// 'session': browser access token only
+type OperationAuth = ApiKeyScope | 'session';
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  tag: 'Files' | 'Jobs' | 'Export' | 'AI';
+  summary: string;
+  auth: OperationAuth;
+  pathParams?: string[];
+  query?: z.AnyZodObject;
+  workspaceScoped?: boolean; // Honours the X-Workspace-Id header
+  body?: ZodTypeAny;
+  multipart?: z.AnyZodObject;
+  response?: JsonSchema;
+  responseType?: string; // Non-JSON success responses
+  errors?: number[];
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const success = { type: "object", properties: { success: { type: "boolean" } } };
+
+const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'post', path: '/api/files/preview', tag: 'Files', auth: 'files:write',
+    summary: 'Preview the first rows of each sheet with a suggested column mapping',
+    multipart: uploadRequest.pick({ file: true }), errors: [400],
+  },
+  {
+    method: 'post', path: '/api/files/upload', tag: 'Files', auth: 'files:write', workspaceScoped: true,
+    summary: 'Upload a file of LinkedIn URLs; creates a pending job',
+    multipart: uploadRequest,
+    response: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Job id, passed as fileId to /api/jobs/start" },
+        name: { type: "string" },
+        size: { type: "integer" },
+        profileCount: { type: "integer" },
+        previouslyExtractedCount: { type: "integer" },
+        status: { type: "string" },
+      },
+    },
+    errors: [400],
+  },
+  {
+    method: 'get', path: '/api/files/uploaded', tag: 'Files', auth: 'jobs:read', workspaceScoped: true,
+    summary: 'Recently uploaded files whose jobs are pending or processing',
+  },
+  {
+    method: 'delete', path: '/api/files/{id}', tag: 'Files', auth: 'files:write',
+    summary: 'Remove an uploaded file', pathParams: ['id'], response: success, errors: [404],
+  },
+  {
+    method: 'post', path: '/api/jobs/start', tag: 'Jobs', auth: 'jobs:write',
+    summary: 'Start processing an uploaded job', body: startJobRequest, errors: [400, 404],
+  },
+  {
+    method: 'get', path: '/api/jobs/current-status', tag: 'Jobs', auth: 'jobs:read', workspaceScoped: true,
+    summary: 'Progress of the active job, or null',
+  },
+  {
+    method: 'get', path: '/api/jobs/recent', tag: 'Jobs', auth: 'jobs:read', workspaceScoped: true,
+    summary: 'The ten most recent jobs with progress and success rate',
+  },
+  {
+    method: 'get', path: '/api/jobs', tag: 'Jobs', auth: 'jobs:read', workspaceScoped: true,
+    summary: 'Jobs, paginated and searchable by file name', query: paginationQuery,
+    response: { type: "object", properties: { jobs: { type: "array", items: ref('Job') }, total: { type: "integer" } } },
+  },
+  ...(['pause', 'stop', 'cancel', 'resume'] as const).map((action): ApiOperation => ({
+    method: 'post', path: `/api/jobs/{id}/${action}`, tag: 'Jobs', auth: 'jobs:write',
+    summary: `${action[0].toUpperCase()}${action.slice(1)} a job`, pathParams: ['id'],
+    response: success, errors: [404, 409],
+  })),
+  {
+    method: 'post', path: '/api/jobs/{id}/retry', tag: 'Jobs', auth: 'jobs:write',
+    summary: "Retry a finished job's failed profiles", pathParams: ['id'],
+    response: { type: "object", properties: { success: { type: "boolean" }, retried: { type: "integer" } } },
+    errors: [404, 409],
+  },
+  {
+    method: 'get', path: '/api/jobs/{id}/events', tag: 'Jobs', auth: 'session',
+    summary: "Server-Sent Events stream of the job's status, progress and profile events",
+    pathParams: ['id'], responseType: 'text/event-stream', errors: [404],
+  },
+  {
+    method: 'get', path: '/api/jobs/{id}/download', tag: 'Jobs', auth: 'export:read',
+    summary: 'Download the results workbook of a completed job', pathParams: ['id'],
+    responseType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', errors: [404],
+  },
+  {
+    method: 'get', path: '/api/jobs/{id}/enriched', tag: 'Jobs', auth: 'export:read',
+    summary: 'Download the uploaded .xlsx, .csv or .tsv file with the results added as columns on their rows',
+    pathParams: ['id'], query: enrichQuerySchema, responseType: 'application/octet-stream', errors: [400, 404],
+  },
+  {
+    method: 'get', path: '/api/jobs/{id}/export/{format}', tag: 'Export', auth: 'export:read',
+    summary: "ZIP of the job's successful profiles, one JSON Resume or vCard 4.0 file each",
+    pathParams: ['id', 'format'], responseType: 'application/zip', errors: [400, 404],
+  },
+  {
+    method: 'delete', path: '/api/jobs/{id}', tag: 'Jobs', auth: 'jobs:write',
+    summary: 'Delete a job', pathParams: ['id'], response: success, errors: [404],
+  },
+  {
+    method: 'get', path: '/api/jobs/{id}/profiles', tag: 'Jobs', auth: 'jobs:read',
+    summary: "A job's profiles", pathParams: ['id'], errors: [404],
+    response: { type: "object", properties: { profiles: { type: "array", items: ref('Profile') }, total: { type: "integer" } } },
+  },
+  {
+    method: 'get', path: '/api/profiles/{id}/history', tag: 'Jobs', auth: 'jobs:read',
+    summary: "A profile's extractions across the jobs it is shared with, newest first, with the changes since the same provider's previous one",
+    pathParams: ['id'], errors: [404],
+    response: {
+      type: "object",
+      properties: {
+        canonicalId: { type: "string", nullable: true },
+        history: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              snapshotId: { type: "integer" },
+              jobId: { type: "integer" },
+              provider: { type: "string" },
+              extractedAt: { type: "string", format: "date-time" },
+              changes: { type: "array", nullable: true, items: { type: "object" } },
+              summary: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    method: 'post', path: '/api/export/{type}', tag: 'Export', auth: 'export:read', workspaceScoped: true,
+    summary: 'Stream successful, failed or all profiles as XLSX, CSV or NDJSON, optionally filtered', pathParams: ['type'],
+    query: exportQuerySchema.innerType(), responseType: 'application/octet-stream', errors: [400, 404],
+  },
+  {
+    method: 'get', path: '/api/profiles/{id}/export/{format}', tag: 'Export', auth: 'export:read',
+    summary: 'One extracted profile as JSON Resume or vCard 4.0', pathParams: ['id', 'format'],
+    responseType: 'application/octet-stream', errors: [400, 404],
+  },
+  {
+    method: 'post', path: '/api/ai/analyze-profile/{profileId}', tag: 'AI', auth: 'ai:use',
+    summary: 'AI analysis of one extracted profile', pathParams: ['profileId'], errors: [404],
+  },
+  {
+    method: 'post', path: '/api/ai/analyze-job/{jobId}', tag: 'AI', auth: 'ai:use',
+    summary: "AI analysis of a job's successful profiles", pathParams: ['jobId'], errors: [400, 404],
+  },
+  {
+    method: 'post', path: '/api/ai/recruiting-insights/{jobId}', tag: 'AI', auth: 'ai:use',
+    summary: "Recruiting insights for a job's profiles", pathParams: ['jobId'],
+    body: recruitingInsightsRequest, errors: [400, 404],
+  },
+  {
+    method: 'post', path: '/api/ai/chat', tag: 'AI', auth: 'ai:use',
+    summary: 'Ask the AI assistant, optionally about a job', body: chatRequest,
+    response: { type: "object", properties: { response: { type: "string" } } },
+  },
+  {
+    method: 'get', path: '/api/ai/analyses/{jobId}', tag: 'AI', auth: 'ai:use',
+    summary: 'Stored AI analyses of a job', pathParams: ['jobId'], errors: [404],
+    response: { type: "array", items: ref('AiAnalysis') },
+  },
+];
+
+function operationSecurity(auth: OperationAuth): { security: JsonSchema[]; note: string } {
+  if (auth === 'session') {
+    return { security: [{ bearerAuth: [] }], note: 'Requires a session access token; API keys are not accepted.' };
+  }
+  return {
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    note: `Accepts a session access token or an API key with the \`${auth}\` scope.`,
+  };
+}
+
+function buildOperation(operation: ApiOperation): JsonSchema {
+  const { security, note } = operationSecurity(operation.auth);
+  const multipart = operation.multipart ? zodToJsonSchema(operation.multipart) : null;
+  const parameters = [
+    ...(operation.pathParams ?? []).map(name => ({
+      name,
+      in: "path",
+      required: true,
+      schema: ENUM_PATH_PARAMS[name] ? { type: "string", enum: [...ENUM_PATH_PARAMS[name]] } : { type: "integer" },
+    })),
+    ...(operation.workspaceScoped ? [{
+      name: "X-Workspace-Id",
+      in: "header",
+      required: false,
+      description: "Work in this workspace instead of on the caller's personal jobs",
+      schema: { type: "integer" },
+    }] : []),
+    ...Object.entries(operation.query?.shape ?? {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: !(schema as ZodTypeAny).isOptional(),
+      schema: zodToJsonSchema(schema as ZodTypeAny),
+    })),
+  ];
+
+  const responses: Record<string, JsonSchema> = {
+    200: operation.responseType
+      ? { description: "OK", content: { [operation.responseType]: { schema: { type: "string", format: "binary" } } } }
+      : { description: "OK", content: { "application/json": { schema: operation.response ?? { type: "object" } } } },
+  };
+  responses['401'] = { description: "Missing or invalid credentials", content: { "application/json": { schema: ref('Error') } } };
+  responses['403'] = { description: "Expired token or missing API key scope", content: { "application/json": { schema: ref('Error') } } };
+  for (const status of operation.errors ?? []) {
+    responses[String(status)] = { description: "Error", content: { "application/json": { schema: ref('Error') } } };
+  }
+  responses['500'] = { description: "Server error", content: { "application/json": { schema: ref('Error') } } };
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    // Addressed by job or profile id: an id the caller can't see answers 404, same as a missing one
+    description: operation.pathParams?.some(name => !ENUM_PATH_PARAMS[name])
+      ? `${note} Only the caller's own jobs and those of their workspaces are found; changing a workspace job needs the editor role.`
+      : note,
+    ...(operation.auth !== 'session' ? { 'x-required-scope': operation.auth } : {}),
+    security,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.body ? {
+      requestBody: { required: true, content: { "application/json": { schema: zodToJsonSchema(operation.body) } } },
+    } : {}),
+    ...(multipart ? {
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": {
+            schema: { ...multipart, properties: { ...(multipart.properties as JsonSchema), file: { type: "string", format: "binary" } } },
+          },
+        },
+      },
+    } : {}),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "LinkedIn Data Extraction API",
+      version: "1.0.0",
+      description: [
+        "Upload LinkedIn URL lists, run extraction jobs, export results and use the AI assistant.",
+        "Scripts authenticate with a personal API key from /api/api-keys, sent as `X-API-Key` or `Authorization: Bearer`.",
+        `API key scopes: ${apiKeyScopes.join(', ')}.`,
+      ].join(' '),
+    },
+    servers: [{ url: serverUrl }],
+    tags: [{ name: "Files" }, { name: "Jobs" }, { name: "Export" }, { name: "AI" }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "Session access token or personal API key" },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        Error: { type: "object", properties: { error: { type: "string" }, code: { type: "string" } }, required: ["error"] },
+        Job: zodToJsonSchema(createSelectSchema(jobs)),
+        Profile: zodToJsonSchema(createSelectSchema(profiles, { profileData: profileDataSchema.nullable() })),
+        ProfileData: zodToJsonSchema(profileDataSchema),
+        AiAnalysis: zodToJsonSchema(createSelectSchema(aiAnalyses)),
+        ColumnMapping: zodToJsonSchema(columnMappingSchema),
+      },
+    },
+  };
+}
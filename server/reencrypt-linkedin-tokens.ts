@@ -0,0 +1,73 @@
+import { db } from "./db";
+import { users } from "@shared/schema";
+import { decryptToken, encryptToken, needsReencryption } from "./token-encryption";
+import { and, asc, eq, gt, isNotNull, or } from "drizzle-orm";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Encrypts LinkedIn tokens still stored as plain text and re-wraps the ones
+// encrypted with an older key, after a new key is put first in TOKEN_ENCRYPTION_KEYS.
+// Exits non-zero when any user's tokens couldn't be re-encrypted: those rows
+// still need the old key, so it must not be dropped yet.
+async function reencryptLinkedInTokens() {
+  try {
+    let lastId = 0;
+    let updated = 0;
+    let unchanged = 0;
+    let failed = 0;
+
+    while (true) {
+      const batch = await db
+        .select({
+          id: users.id,
+          linkedinAccessToken: users.linkedinAccessToken,
+          linkedinRefreshToken: users.linkedinRefreshToken,
+        })
+        .from(users)
+        .where(and(
+          gt(users.id, lastId),
+          or(isNotNull(users.linkedinAccessToken), isNotNull(users.linkedinRefreshToken))
+        ))
+        .orderBy(asc(users.id))
+        .limit(500);
+      if (batch.length === 0) break;
+
+      for (const user of batch) {
+        const tokens = [user.linkedinAccessToken, user.linkedinRefreshToken];
+        if (!tokens.some(token => token && needsReencryption(token))) {
+          unchanged++;
+          continue;
+        }
+
+        try {
+          await db
+            .update(users)
+            .set({
+              linkedinAccessToken: user.linkedinAccessToken && encryptToken(decryptToken(user.linkedinAccessToken)),
+              linkedinRefreshToken: user.linkedinRefreshToken && encryptToken(decryptToken(user.linkedinRefreshToken)),
+            })
+            .where(eq(users.id, user.id));
+          updated++;
+        } catch (error) {
+          failed++;
+          console.error(`Could not re-encrypt LinkedIn tokens for user ${user.id}:`, error instanceof Error ? error.message : error);
+        }
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+
+    console.log(`Re-encrypted LinkedIn tokens for ${updated} users (${unchanged} already used the current key)`);
+    if (failed > 0) {
+      console.error(`Could not re-encrypt LinkedIn tokens for ${failed} users; keep the old key in TOKEN_ENCRYPTION_KEYS until they are fixed`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("Error re-encrypting LinkedIn tokens:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    process.exit();
+  }
+}
+
+reencryptLinkedInTokens();
@@ -0,0 +1,484 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import request from 'supertest';
+import type { Server } from 'http';
+import { profileDataSchema, type ApiKeyScope, type Job, type User } from '@shared/schema';
+import { storage, MemStorage } from './storage';
+import { registerRoutes } from './routes';
+import { generateAccessToken, generateApiKey } from './auth';
+import { CONFIG } from './config/constants';
+
+/**
+ * Jobs are private to their owner, or to their workspace's members when they
+ * belong to one. Callers who can't see a job get 404 as if it didn't exist;
+ * workspace members below the route's role get 403. Editors and owners can
+ * run every job action.
+ */
+
+// The routes use the storage singleton, so it runs in memory here
+Object.setPrototypeOf(storage, MemStorage.prototype);
+Object.assign(storage, new MemStorage());
+
+let server: Server;
+let owner: User;
+let outsider: User;
+let editor: User;
+let viewer: User;
+let workspaceId: number;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+
+  owner = await storage.createUser({ username: 'owner', email: 'owner@example.com', password: 'x' });
+  outsider = await storage.createUser({ username: 'outsider', email: 'outsider@example.com', password: 'x' });
+  editor = await storage.createUser({ username: 'editor', email: 'editor@example.com', password: 'x' });
+  viewer = await storage.createUser({ username: 'viewer', email: 'viewer@example.com', password: 'x' });
+
+  const workspace = await storage.createWorkspace({ name: 'Team', createdBy: owner.id });
+  workspaceId = workspace.id;
+  await storage.addWorkspaceMember({ workspaceId, userId: owner.id, role: 'owner' });
+  await storage.addWorkspaceMember({ workspaceId, userId: editor.id, role: 'editor' });
+  await storage.addWorkspaceMember({ workspaceId, userId: viewer.id, role: 'viewer' });
+});
+
+after(() => {
+  server.close();
+});
+
+function as(user: User) {
+  const authorization = `Bearer ${generateAccessToken(user)}`;
+  return {
+    get: (path: string) => request(server).get(path).set('Authorization', authorization),
+    post: (path: string) => request(server).post(path).set('Authorization', authorization),
+    delete: (path: string) => request(server).delete(path).set('Authorization', authorization),
+  };
+}
+
+// A job uploaded by the owner, personal unless a workspace is given
+async function createJob(options: { workspace?: boolean; status?: string; resultPath?: string } = {}): Promise<Job> {
+  const job = await storage.createJob({
+    userId: owner.id,
+    workspaceId: options.workspace ? workspaceId : null,
+    fileName: 'profiles.xlsx',
+    filePath: 'uploads/profiles.xlsx',
+    totalProfiles: 1,
+  });
+  await storage.updateJobStatus(job.id, options.status ?? 'pending', { resultPath: options.resultPath ?? null });
+  return (await storage.getJob(job.id))!;
+}
+
+async function statusOf(job: Job): Promise<string | undefined> {
+  return (await storage.getJob(job.id))?.status;
+}
+
+function assertNotFound(res: request.Response) {
+  assert.equal(res.status, 404);
+  assert.deepEqual(res.body, { error: 'Job not found' });
+}
+
+function assertEditorRequired(res: request.Response) {
+  assert.equal(res.status, 403);
+  assert.deepEqual(res.body, { error: 'Requires the editor role in this workspace', code: 'INSUFFICIENT_ROLE' });
+}
+
+describe('POST /api/jobs/:id/pause', () => {
+  it('pauses the owner\'s job', async () => {
+    const job = await createJob({ status: 'processing' });
+    const res = await as(owner).post(`/api/jobs/${job.id}/pause`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.equal(await statusOf(job), 'paused');
+  });
+
+  it('lets a workspace editor pause a workspace job', async () => {
+    const job = await createJob({ workspace: true, status: 'processing' });
+    const res = await as(editor).post(`/api/jobs/${job.id}/pause`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.equal(await statusOf(job), 'paused');
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'processing' });
+    const shared = await createJob({ workspace: true, status: 'processing' });
+    assertNotFound(await as(outsider).post(`/api/jobs/${personal.id}/pause`));
+    assertNotFound(await as(outsider).post(`/api/jobs/${shared.id}/pause`));
+    assertNotFound(await as(editor).post(`/api/jobs/${personal.id}/pause`));
+    assert.equal(await statusOf(personal), 'processing');
+    assert.equal(await statusOf(shared), 'processing');
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true, status: 'processing' });
+    assertEditorRequired(await as(viewer).post(`/api/jobs/${job.id}/pause`));
+    assert.equal(await statusOf(job), 'processing');
+  });
+});
+
+describe('POST /api/jobs/:id/stop', () => {
+  it('stops the owner\'s job', async () => {
+    const job = await createJob({ status: 'processing' });
+    const res = await as(owner).post(`/api/jobs/${job.id}/stop`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.equal(await statusOf(job), 'failed');
+  });
+
+  it('lets a workspace editor stop a workspace job', async () => {
+    const job = await createJob({ workspace: true, status: 'processing' });
+    const res = await as(editor).post(`/api/jobs/${job.id}/stop`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.equal(await statusOf(job), 'failed');
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'processing' });
+    const shared = await createJob({ workspace: true, status: 'processing' });
+    assertNotFound(await as(outsider).post(`/api/jobs/${personal.id}/stop`));
+    assertNotFound(await as(outsider).post(`/api/jobs/${shared.id}/stop`));
+    assertNotFound(await as(editor).post(`/api/jobs/${personal.id}/stop`));
+    assert.equal(await statusOf(personal), 'processing');
+    assert.equal(await statusOf(shared), 'processing');
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true, status: 'processing' });
+    assertEditorRequired(await as(viewer).post(`/api/jobs/${job.id}/stop`));
+    assert.equal(await statusOf(job), 'processing');
+  });
+});
+
+describe('POST /api/jobs/:id/cancel', () => {
+  it('cancels the owner\'s job', async () => {
+    const job = await createJob({ status: 'paused' });
+    const res = await as(owner).post(`/api/jobs/${job.id}/cancel`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.equal(await statusOf(job), 'failed');
+  });
+
+  it('lets a workspace editor cancel a workspace job', async () => {
+    const job = await createJob({ workspace: true, status: 'paused' });
+    const res = await as(editor).post(`/api/jobs/${job.id}/cancel`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.equal(await statusOf(job), 'failed');
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'paused' });
+    const shared = await createJob({ workspace: true, status: 'paused' });
+    assertNotFound(await as(outsider).post(`/api/jobs/${personal.id}/cancel`));
+    assertNotFound(await as(outsider).post(`/api/jobs/${shared.id}/cancel`));
+    assertNotFound(await as(editor).post(`/api/jobs/${personal.id}/cancel`));
+    assert.equal(await statusOf(personal), 'paused');
+    assert.equal(await statusOf(shared), 'paused');
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true, status: 'paused' });
+    assertEditorRequired(await as(viewer).post(`/api/jobs/${job.id}/cancel`));
+    assert.equal(await statusOf(job), 'paused');
+  });
+});
+
+describe('POST /api/jobs/:id/resume', () => {
+  it('re-queues the owner\'s paused job', async () => {
+    const job = await createJob({ status: 'paused' });
+    const res = await as(owner).post(`/api/jobs/${job.id}/resume`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.ok(await storage.getQueueEntryByJob(job.id));
+  });
+
+  it('lets a workspace editor resume a workspace job', async () => {
+    const job = await createJob({ workspace: true, status: 'paused' });
+    const res = await as(editor).post(`/api/jobs/${job.id}/resume`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+    assert.ok(await storage.getQueueEntryByJob(job.id));
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'paused' });
+    const shared = await createJob({ workspace: true, status: 'paused' });
+    assertNotFound(await as(outsider).post(`/api/jobs/${personal.id}/resume`));
+    assertNotFound(await as(outsider).post(`/api/jobs/${shared.id}/resume`));
+    assertNotFound(await as(editor).post(`/api/jobs/${personal.id}/resume`));
+    assert.equal(await storage.getQueueEntryByJob(personal.id), undefined);
+    assert.equal(await storage.getQueueEntryByJob(shared.id), undefined);
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true, status: 'paused' });
+    assertEditorRequired(await as(viewer).post(`/api/jobs/${job.id}/resume`));
+    assert.equal(await storage.getQueueEntryByJob(job.id), undefined);
+  });
+});
+
+describe('POST /api/jobs/:id/retry', () => {
+  // A finished job with one failed profile to retry
+  async function finishedJob(workspace: boolean): Promise<Job> {
+    const job = await createJob({ workspace, status: 'completed' });
+    const profile = await storage.createProfile({ jobId: job.id, linkedinUrl: 'https://www.linkedin.com/in/jane', status: 'pending' });
+    await storage.updateProfileStatus(profile.id, 'failed', { errorType: 'captcha' });
+    return job;
+  }
+
+  it('re-queues the owner\'s failed profiles as a retry pass', async () => {
+    const job = await finishedJob(false);
+    const res = await as(owner).post(`/api/jobs/${job.id}/retry`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true, retried: 1 });
+    assert.equal((await storage.getQueueEntryByJob(job.id))?.retryPass, true);
+  });
+
+  it('lets a workspace editor retry a workspace job', async () => {
+    const job = await finishedJob(true);
+    const res = await as(editor).post(`/api/jobs/${job.id}/retry`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true, retried: 1 });
+    assert.equal((await storage.getQueueEntryByJob(job.id))?.retryPass, true);
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await finishedJob(false);
+    const shared = await finishedJob(true);
+    assertNotFound(await as(outsider).post(`/api/jobs/${personal.id}/retry`));
+    assertNotFound(await as(outsider).post(`/api/jobs/${shared.id}/retry`));
+    assertNotFound(await as(editor).post(`/api/jobs/${personal.id}/retry`));
+    assert.equal(await storage.getQueueEntryByJob(personal.id), undefined);
+    assert.equal(await storage.getQueueEntryByJob(shared.id), undefined);
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await finishedJob(true);
+    assertEditorRequired(await as(viewer).post(`/api/jobs/${job.id}/retry`));
+    assert.equal(await storage.getQueueEntryByJob(job.id), undefined);
+  });
+});
+
+describe('DELETE /api/jobs/:id', () => {
+  it('deletes the owner\'s job', async () => {
+    const job = await createJob({ status: 'completed' });
+    const res = await as(owner).delete(`/api/jobs/${job.id}`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+  });
+
+  it('lets a workspace editor delete a workspace job', async () => {
+    const job = await createJob({ workspace: true, status: 'completed' });
+    const res = await as(editor).delete(`/api/jobs/${job.id}`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'completed' });
+    const shared = await createJob({ workspace: true, status: 'completed' });
+    assertNotFound(await as(outsider).delete(`/api/jobs/${personal.id}`));
+    assertNotFound(await as(outsider).delete(`/api/jobs/${shared.id}`));
+    assertNotFound(await as(editor).delete(`/api/jobs/${personal.id}`));
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true, status: 'completed' });
+    assertEditorRequired(await as(viewer).delete(`/api/jobs/${job.id}`));
+  });
+});
+
+describe('DELETE /api/files/:id', () => {
+  it('removes the owner\'s file', async () => {
+    const job = await createJob();
+    const res = await as(owner).delete(`/api/files/${job.id}`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+  });
+
+  it('lets a workspace editor remove a workspace file', async () => {
+    const job = await createJob({ workspace: true });
+    const res = await as(editor).delete(`/api/files/${job.id}`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { success: true });
+  });
+
+  it('answers 404 to users who can\'t see the file', async () => {
+    const personal = await createJob();
+    const shared = await createJob({ workspace: true });
+    assertNotFound(await as(outsider).delete(`/api/files/${personal.id}`));
+    assertNotFound(await as(outsider).delete(`/api/files/${shared.id}`));
+    assertNotFound(await as(editor).delete(`/api/files/${personal.id}`));
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true });
+    assertEditorRequired(await as(viewer).delete(`/api/files/${job.id}`));
+  });
+});
+
+describe('POST /api/jobs/start', () => {
+  const started = (job: Job) => ({
+    jobId: job.id,
+    status: 'started',
+    provider: 'mock',
+    cacheMaxAgeDays: CONFIG.PROFILE_CACHE.DEFAULT_MAX_AGE_DAYS,
+  });
+
+  it('starts the owner\'s job', async () => {
+    const job = await createJob();
+    const res = await as(owner).post('/api/jobs/start').send({ fileId: job.id, provider: 'mock' });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, started(job));
+    assert.ok(await storage.getQueueEntryByJob(job.id));
+  });
+
+  it('lets a workspace editor start a workspace job', async () => {
+    const job = await createJob({ workspace: true });
+    const res = await as(editor).post('/api/jobs/start').send({ fileId: job.id, provider: 'mock' });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, started(job));
+    assert.ok(await storage.getQueueEntryByJob(job.id));
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob();
+    const shared = await createJob({ workspace: true });
+    assertNotFound(await as(outsider).post('/api/jobs/start').send({ fileId: personal.id }));
+    assertNotFound(await as(outsider).post('/api/jobs/start').send({ fileId: shared.id }));
+    assertNotFound(await as(editor).post('/api/jobs/start').send({ fileId: personal.id }));
+    assert.equal(await statusOf(personal), 'pending');
+    assert.equal(await statusOf(shared), 'pending');
+  });
+
+  it('answers 403 to a workspace viewer', async () => {
+    const job = await createJob({ workspace: true });
+    assertEditorRequired(await as(viewer).post('/api/jobs/start').send({ fileId: job.id }));
+    assert.equal(await statusOf(job), 'pending');
+  });
+
+  it('queues one job.started delivery', async () => {
+    const user = await storage.createUser({ username: 'subscriber', email: 'subscriber@example.com', password: 'x' });
+    // A loopback target fails at once without leaving the machine; only the queued delivery matters here
+    const webhook = await storage.createWebhook({
+      userId: user.id, url: 'http://127.0.0.1/hook', secret: 'whsec_test', events: ['job.started'],
+    });
+    const job = await storage.createJob({ userId: user.id, fileName: 'started.xlsx', filePath: 'uploads/started.xlsx', totalProfiles: 1 });
+
+    const res = await as(user).post('/api/jobs/start').send({ fileId: job.id, provider: 'mock' });
+    assert.equal(res.status, 200);
+
+    const deliveries = await storage.getWebhookDeliveries(webhook.id, 10);
+    assert.deepEqual(deliveries.map(delivery => delivery.event), ['job.started']);
+    assert.equal((deliveries[0].payload as { data: { job: { id: number } } }).data.job.id, job.id);
+  });
+});
+
+describe('GET /api/jobs/:id/download', () => {
+  const resultPath = 'results/job_8_results.xlsx';
+
+  it('sends the results to the owner and workspace viewers', async () => {
+    const personal = await createJob({ status: 'completed', resultPath });
+    const shared = await createJob({ workspace: true, status: 'completed', resultPath });
+    for (const res of [await as(owner).get(`/api/jobs/${personal.id}/download`), await as(viewer).get(`/api/jobs/${shared.id}/download`)]) {
+      assert.equal(res.status, 200);
+      assert.match(res.headers['content-disposition'], /job_8_results\.xlsx/);
+    }
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'completed', resultPath });
+    const shared = await createJob({ workspace: true, status: 'completed', resultPath });
+    assertNotFound(await as(outsider).get(`/api/jobs/${personal.id}/download`));
+    assertNotFound(await as(outsider).get(`/api/jobs/${shared.id}/download`));
+    assertNotFound(await as(viewer).get(`/api/jobs/${personal.id}/download`));
+  });
+});
+
+describe('GET /api/jobs/:id/profiles', () => {
+  it('lists the profiles to the owner and workspace viewers', async () => {
+    const personal = await createJob();
+    const shared = await createJob({ workspace: true });
+    await storage.createProfile({ jobId: personal.id, linkedinUrl: 'https://www.linkedin.com/in/jane', status: 'pending' });
+    await storage.createProfile({ jobId: shared.id, linkedinUrl: 'https://www.linkedin.com/in/john', status: 'pending' });
+
+    const own = await as(owner).get(`/api/jobs/${personal.id}/profiles`);
+    assert.equal(own.status, 200);
+    assert.equal(own.body.total, 1);
+    assert.equal(own.body.profiles[0].linkedinUrl, 'https://www.linkedin.com/in/jane');
+
+    const viewed = await as(viewer).get(`/api/jobs/${shared.id}/profiles`);
+    assert.equal(viewed.status, 200);
+    assert.equal(viewed.body.total, 1);
+    assert.equal(viewed.body.profiles[0].linkedinUrl, 'https://www.linkedin.com/in/john');
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob();
+    const shared = await createJob({ workspace: true });
+    assertNotFound(await as(outsider).get(`/api/jobs/${personal.id}/profiles`));
+    assertNotFound(await as(outsider).get(`/api/jobs/${shared.id}/profiles`));
+    assertNotFound(await as(viewer).get(`/api/jobs/${personal.id}/profiles`));
+  });
+});
+
+describe('GET /api/ai/analyses/:jobId', () => {
+  it('lists the analyses to the owner and workspace viewers', async () => {
+    const personal = await createJob({ status: 'completed' });
+    const shared = await createJob({ workspace: true, status: 'completed' });
+    for (const res of [await as(owner).get(`/api/ai/analyses/${personal.id}`), await as(viewer).get(`/api/ai/analyses/${shared.id}`)]) {
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body, []);
+    }
+  });
+
+  it('answers 404 to users who can\'t see the job', async () => {
+    const personal = await createJob({ status: 'completed' });
+    const shared = await createJob({ workspace: true, status: 'completed' });
+    assertNotFound(await as(outsider).get(`/api/ai/analyses/${personal.id}`));
+    assertNotFound(await as(outsider).get(`/api/ai/analyses/${shared.id}`));
+    assertNotFound(await as(viewer).get(`/api/ai/analyses/${personal.id}`));
+  });
+});
+
+describe('GET /api/profiles/:id/history', () => {
+  async function keyWith(scopes: ApiKeyScope[]): Promise<string> {
+    const { key, prefix, keyHash } = generateApiKey();
+    await storage.createApiKey({ userId: owner.id, name: 'script', prefix, keyHash, scopes, expiresAt: null });
+    return key;
+  }
+
+  async function extractedProfile() {
+    const job = await createJob({ status: 'completed' });
+    const profile = await storage.createProfile({ jobId: job.id, linkedinUrl: 'https://www.linkedin.com/in/jane', status: 'pending', canonicalId: 'jane' });
+    const profileData = profileDataSchema.parse({ id: 'jane', firstName: 'Jane', publicProfileUrl: 'https://www.linkedin.com/in/jane' });
+    await storage.createProfileSnapshot({ canonicalId: 'jane', profileId: profile.id, jobId: job.id, provider: 'mock', profileData, extractedAt: new Date() });
+    return profile;
+  }
+
+  it('lets an API key with the jobs:read scope read the history', async () => {
+    const profile = await extractedProfile();
+    const res = await request(server).get(`/api/profiles/${profile.id}/history`).set('X-API-Key', await keyWith(['jobs:read']));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.canonicalId, 'jane');
+    assert.equal(res.body.history.length, 1);
+    assert.equal(res.body.history[0].changes, null);
+  });
+
+  it('answers 403 to an API key without the jobs:read scope', async () => {
+    const profile = await extractedProfile();
+    const res = await request(server).get(`/api/profiles/${profile.id}/history`).set('X-API-Key', await keyWith(['export:read']));
+    assert.equal(res.status, 403);
+    assert.deepEqual(res.body, { error: 'API key is missing the jobs:read scope', code: 'INSUFFICIENT_SCOPE' });
+  });
+
+  it('answers 404 to users who can\'t see the profile', async () => {
+    const profile = await extractedProfile();
+    const res = await as(outsider).get(`/api/profiles/${profile.id}/history`);
+    assert.equal(res.status, 404);
+    assert.deepEqual(res.body, { error: 'Profile not found' });
+  });
+});
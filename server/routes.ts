@@ -2,15 +2,27 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
-import { storage } from "./storage";
+import fs from "fs";
+import { storage, jobScopeOf } from "./storage";
 import { linkedInService } from "./services/linkedin-api";
-import { excelProcessor } from "./services/excel-processor";
 import { container } from "./services/dependency-container";
 import { aiAssistant } from "./services/ai-assistant";
 import { jobSimulator } from "./services/job-simulator";
-import { insertJobSchema, loginSchema, insertUserSchema, type LinkedInUrl } from "@shared/schema";
-import { hashPassword, verifyPassword, generateAccessToken, generateRefreshToken, verifyRefreshToken, getRefreshTokenExpiry } from "./auth";
-import { authenticateToken, optionalAuth, globalRateLimit, authRateLimit, uploadRateLimit, securityHeaders, validateOrigin } from "./middleware";
+import { insertJobSchema, loginSchema, insertUserSchema, insertColumnMappingTemplateSchema, insertExportTemplateSchema, createWatchlistSchema, updateWatchlistSchema, createWebhookSchema, updateWebhookSchema, createApiKeySchema, createWorkspaceSchema, addWorkspaceMemberSchema, updateWorkspaceMemberSchema, exportTypes, exportQuerySchema, enrichQuerySchema, profileExportFormats, hasWorkspaceRole, type LinkedInUrl, type Profile, type ProfileData, type ExportType, type ProfileExportFormat, type InsertWatchlistMember, type Watchlist, type Webhook, type ApiKey, type WorkspaceMember, type WorkspaceRole } from "@shared/schema";
+import { columnMappingSchema, type ColumnMapping } from "@shared/column-mapping";
+import { DEFAULT_ENRICH_LAYOUT, DEFAULT_EXPORT_LAYOUT, type ExportLayout } from "@shared/export-layout";
+import { normalizeLinkedInUrl } from "@shared/linkedin-url";
+import { diffProfileData, describeProfileChanges, type ProfileHistoryEntry } from "@shared/profile-diff";
+import { hashPassword, verifyPassword, generateAccessToken, generateRefreshToken, verifyRefreshToken, getRefreshTokenExpiry, generateApiKey } from "./auth";
+import { authenticate, authenticateToken, authenticateEventStream, loadOwnedJob, loadOwnedProfile, loadWorkspace, resolveJobScope, checkJobAccess, insufficientRole, optionalAuth, globalRateLimit, authRateLimit, uploadRateLimit, securityHeaders, validateOrigin } from "./middleware";
+import { CONFIG } from "./config/constants";
+import { toJobStatusPayload, type JobEvent } from "./services/job-event-bus";
+import { nextWatchlistRun } from "./services/watchlist-scheduler";
+import { assertPublicWebhookUrl, generateWebhookSecret } from "./services/webhook-dispatcher";
+import { buildOpenApiDocument } from "./openapi";
+import { AppError, ValidationError } from "./types/errors";
+import { EXPORT_CONTENT_TYPES } from "./services/excel/exporter";
+import { PROFILE_EXPORT_FORMATS, profileFileName, type ExtractedProfile } from "./services/profile-formats";
 
 // Create sample data for demo
 async function createSampleData(userId: number) {
@@ -46,15 +58,19 @@ async function createSampleData(userId: number) {
     ];
 
     for (let i = 0; i < sampleUrls.length; i++) {
+      const normalized = normalizeLinkedInUrl(sampleUrls[i])!;
       const profile = await storage.createProfile({
         jobId: completedJob.id,
-        linkedinUrl: sampleUrls[i],
+        linkedinUrl: normalized.url,
+        canonicalId: normalized.canonicalId,
         status: i < 6 ? 'success' : 'failed',
       });
 
       if (i < 6) {
         // Successful profiles
-        const mockData = {
+        const mockData: ProfileData = {
+          id: normalized.canonicalId,
+          publicProfileUrl: normalized.url,
           firstName: ['Alice', 'Bob', 'Carol', 'Dan', 'Eve', 'Frank'][i],
           lastName: ['Johnson', 'Martin', 'Davis', 'Wilson', 'Garcia', 'Lee'][i],
           headline: ['Senior Product Manager', 'Software Engineer', 'Marketing Director', 'Data Scientist', 'UX Designer', 'Sales Manager'][i],
@@ -66,7 +82,9 @@ async function createSampleData(userId: number) {
             company: ['TechCorp', 'DataSoft', 'MarketPro', 'Analytics Inc', 'Design Studio', 'SalesForce'][i],
             startDate: '2022-01',
             description: 'Leading innovative projects and driving business growth.'
-          }]
+          }],
+          education: [],
+          skills: [],
         };
 
         await storage.updateProfileStatus(profile.id, 'success', {
@@ -97,8 +115,8 @@ async function createSampleData(userId: number) {
 }
 
 const upload = multer({ 
-  dest: 'uploads/',
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit
+  dest: CONFIG.FILE_UPLOAD.TEMP_DIRECTORY,
+  limits: { fileSize: CONFIG.FILE_UPLOAD.MAX_SIZE },
 });
 
 // Helper function to create auth tokens response
@@ -300,11 +318,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/auth/linkedin", authenticateToken, async (req, res) => {
     try {
-      // For demo purposes, simulate successful LinkedIn connection
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
+
+      // Run the real OAuth flow when a LinkedIn app (or the fake server) is configured
+      if (linkedInService.isConfigured()) {
+        return res.json({ authUrl: linkedInService.getAuthUrl(user.id) });
+      }
+
+      // For demo purposes, simulate successful LinkedIn connection
       const mockTokenExpiry = new Date(Date.now() + 3600 * 1000); // 1 hour from now
       
       await storage.updateUserLinkedInTokens(
@@ -313,6 +337,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'mock_refresh_token_' + Date.now(),
         mockTokenExpiry
       );
+      await container.get('jobQueue').resumeReauthRequiredJobs(user.id);
       
       res.json({ 
         success: true,
@@ -323,33 +348,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/linkedin/reconnect", async (req, res) => {
-    try {
-      const authUrl = linkedInService.getAuthUrl();
-      res.json({ authUrl });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to reconnect LinkedIn" });
-    }
-  });
-
   app.get("/api/auth/linkedin/callback", async (req, res) => {
     try {
-      const { code } = req.query;
+      const { code, state } = req.query;
       if (!code) {
         return res.status(400).json({ error: "Authorization code required" });
       }
 
-      const tokens = await linkedInService.exchangeCodeForTokens(code as string);
-      // Note: This callback needs special handling - it's called by LinkedIn
-      // For now, we'll return an error since we can't authenticate from a callback
-      return res.status(400).json({ error: "LinkedIn callback authentication not implemented" });
+      // The callback is called by LinkedIn without our JWT, so the user comes from the OAuth state
+      const userId = typeof state === 'string' ? linkedInService.consumeAuthState(state) : null;
+      if (!userId) {
+        return res.status(400).json({ error: "Invalid or expired OAuth state" });
+      }
+
+      const tokens = await linkedInService.exchangeCodeForTokens(code as string, userId);
       
       await storage.updateUserLinkedInTokens(
-        user.id, 
+        userId, 
         tokens.accessToken, 
         tokens.refreshToken, 
         new Date(Date.now() + tokens.expiresIn * 1000)
       );
+      await container.get('jobQueue').resumeReauthRequiredJobs(userId);
 
       res.redirect('/'); // Redirect back to dashboard
     } catch (error) {
@@ -358,36 +378,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File upload routes
-  app.post("/api/files/upload", authenticateToken, uploadRateLimit, upload.single('file'), async (req, res) => {
+
+  // First step of the upload wizard: sheets, leading rows and a suggested
+  // column mapping. The file is not kept; it is uploaded again with the mapping.
+  app.post("/api/files/preview", authenticate('files:write'), uploadRateLimit, upload.single('file'), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    try {
+      const fileExtension = path.extname(req.file.originalname || '').toLowerCase();
+      if (!CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS.includes(fileExtension)) {
+        return res.status(400).json({ 
+          error: `Invalid file format. Supported formats: ${CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS.join(', ')}` 
+        });
+      }
+
+      const preview = await container.get('excelParser').previewFile(req.file.path, req.file.originalname);
+      res.json(preview);
+    } catch (error) {
+      console.error('Upload preview error:', error);
+      res.status(400).json({ error: "Failed to read the uploaded file" });
+    } finally {
+      fs.promises.unlink(req.file.path).catch(() => {});
+    }
+  });
+
+  app.post("/api/files/upload", authenticate('files:write'), resolveJobScope('editor'), uploadRateLimit, upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
       // Validate file extension
-      const allowedExtensions = ['.xlsx', '.xls'];
       const fileExtension = path.extname(req.file.originalname || '').toLowerCase();
       
-      if (!allowedExtensions.includes(fileExtension)) {
+      if (!CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS.includes(fileExtension)) {
         return res.status(400).json({ 
-          error: "Invalid file format. Only Excel files (.xlsx, .xls) are supported." 
+          error: `Invalid file format. Supported formats: ${CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS.join(', ')}` 
         });
       }
 
-      // Parse LinkedIn URLs from the uploaded Excel file
+      // Optional column mapping from the upload wizard, sent as a JSON form field
+      let columnMapping: ColumnMapping | null = null;
+      if (req.body.mapping) {
+        try {
+          columnMapping = columnMappingSchema.parse(JSON.parse(req.body.mapping));
+        } catch {
+          return res.status(400).json({ error: "Invalid column mapping" });
+        }
+      }
+
+      // Parse LinkedIn URLs from the uploaded spreadsheet, CSV/TSV or URL list
       let linkedinUrls: LinkedInUrl[] = [];
       try {
-        linkedinUrls = await excelProcessor.parseLinkedInUrls(req.file.path);
+        linkedinUrls = await container.get('excelParser').parseLinkedInUrls(req.file.path, req.file.originalname, columnMapping);
         
         if (linkedinUrls.length === 0) {
           return res.status(400).json({ 
-            error: "No LinkedIn URLs found in the uploaded file. Please ensure your Excel file contains LinkedIn profile URLs." 
+            error: "No LinkedIn URLs found in the uploaded file. Please ensure your file contains LinkedIn profile URLs." 
           });
         }
       } catch (parseError) {
-        console.error('Excel parsing error:', parseError);
+        if (parseError instanceof ValidationError) {
+          return res.status(400).json({ error: parseError.message });
+        }
+        console.error('Upload parsing error:', parseError);
         return res.status(400).json({ 
-          error: "Failed to parse Excel file. Please ensure it's a valid Excel file with LinkedIn URLs." 
+          error: "Failed to parse the uploaded file. Please ensure it's a valid spreadsheet, CSV or text file with LinkedIn URLs." 
         });
       }
 
@@ -396,50 +454,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
+      const scope = req.jobScope!;
       const job = await storage.createJob({
         userId: user.id,
         fileName: req.file.originalname || 'uploaded_file.xlsx',
         totalProfiles: linkedinUrls.length,
         batchSize: 50,
         filePath: req.file.path,
+        columnMapping,
+        workspaceId: 'workspaceId' in scope ? scope.workspaceId : null,
       });
 
-      // Create profile records with deduplication
+      // The parser has already merged URLs that point to the same profile
       for (const urlData of linkedinUrls) {
-        // Check if profile already exists for this job and URL
-        const existingProfiles = await storage.getProfilesByJob(job.id);
-        const exists = existingProfiles.some(p => p.linkedinUrl === urlData.url);
-        
-        if (!exists) {
-          await storage.createProfile({
-            jobId: job.id,
-            linkedinUrl: urlData.url,
-            status: 'pending',
-          });
-        }
+        await storage.createProfile({
+          jobId: job.id,
+          linkedinUrl: urlData.url,
+          canonicalId: urlData.canonicalId,
+          status: 'pending',
+          sourceRow: urlData.rowIndex,
+          sourceData: urlData.additionalData ?? null,
+        });
       }
-      
+
+      // Profiles this user already extracted in earlier jobs
+      const knownProfiles = await storage.getSuccessfulProfilesByCanonicalIds(
+        user.id,
+        linkedinUrls.map(urlData => urlData.canonicalId)
+      );
+      const knownCanonicalIds = new Set(
+        knownProfiles.filter(p => p.jobId !== job.id).map(p => p.canonicalId)
+      );
+
       res.json({
         id: job.id.toString(),
         name: req.file.originalname,
         size: req.file.size,
         profileCount: linkedinUrls.length,
+        previouslyExtractedCount: knownCanonicalIds.size,
         status: 'uploaded',
       });
     } catch (error) {
       console.error('Upload error:', error);
-      res.status(500).json({ error: "Failed to process Excel file" });
+      res.status(500).json({ error: "Failed to process uploaded file" });
+    }
+  });
+
+  // Saved column mappings for the upload wizard
+  app.get("/api/column-mapping-templates", authenticateToken, async (req, res) => {
+    try {
+      const templates = await storage.getColumnMappingTemplatesByUser(req.user!.userId);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get mapping templates" });
+    }
+  });
+
+  app.post("/api/column-mapping-templates", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const validatedData = insertColumnMappingTemplateSchema.parse({
+        ...req.body,
+        userId: req.user!.userId,
+      });
+      const template = await storage.createColumnMappingTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to save mapping template" });
+    }
+  });
+
+  app.delete("/api/column-mapping-templates/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteColumnMappingTemplate(parseInt(req.params.id), req.user!.userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Mapping template not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete mapping template" });
+    }
+  });
+
+  // Saved export layouts, chosen with the export buttons or the templateId query parameter
+  app.get("/api/export-templates", authenticateToken, async (req, res) => {
+    try {
+      const templates = await storage.getExportTemplatesByUser(req.user!.userId);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get export templates" });
+    }
+  });
+
+  app.post("/api/export-templates", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const validatedData = insertExportTemplateSchema.parse({
+        ...req.body,
+        userId: req.user!.userId,
+      });
+      const template = await storage.createExportTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to save export template" });
+    }
+  });
+
+  app.delete("/api/export-templates/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteExportTemplate(parseInt(req.params.id), req.user!.userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Export template not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete export template" });
     }
   });
 
-  app.get("/api/files/uploaded", authenticateToken, async (req, res) => {
+  app.get("/api/files/uploaded", authenticate('jobs:read'), resolveJobScope(), async (req, res) => {
     // Return any recently uploaded files from jobs
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const jobs = await storage.getJobsByUser(user.id);
+      const jobs = await storage.getJobsByScope(req.jobScope!);
       const uploadedFiles = jobs
         .filter(job => job.status === 'pending' || job.status === 'processing')
         .slice(0, 5)
@@ -457,7 +601,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/files/:id", async (req, res) => {
+  app.delete("/api/files/:id", authenticate('files:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
       // Remove file logic here
       res.json({ success: true });
@@ -467,24 +611,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Job management routes
-  app.post("/api/jobs/start", authenticateToken, validateOrigin, async (req, res) => {
+  app.post("/api/jobs/start", authenticate('jobs:write'), validateOrigin, async (req, res) => {
     try {
       const { fileId, batchSize } = req.body;
+      const provider = req.body.provider || CONFIG.PROFILE_PROVIDERS.DEFAULT;
+      const cacheMaxAgeDays = req.body.cacheMaxAgeDays ?? CONFIG.PROFILE_CACHE.DEFAULT_MAX_AGE_DAYS;
+      if (!Number.isInteger(cacheMaxAgeDays) || cacheMaxAgeDays < 0 || cacheMaxAgeDays > CONFIG.PROFILE_CACHE.MAX_AGE_DAYS) {
+        return res.status(400).json({ error: `cacheMaxAgeDays must be a whole number from 0 to ${CONFIG.PROFILE_CACHE.MAX_AGE_DAYS}` });
+      }
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
+      const profileProviders = container.get('profileProviders');
+      if (!profileProviders.has(provider)) {
+        return res.status(400).json({ error: `Unknown profile provider: ${provider}` });
+      }
+
       // Get the job by ID
       const job = await storage.getJob(parseInt(fileId));
-      if (!job) {
+      const access = job ? await checkJobAccess(job, user.id, 'editor') : 'not_found';
+      if (!job || access === 'not_found') {
         return res.status(404).json({ error: "Job not found" });
       }
+      if (access === 'forbidden') {
+        return insufficientRole(res, 'editor');
+      }
 
       // Update job status to processing
       await storage.updateJobStatus(job.id, 'processing', {
         startedAt: new Date(),
         batchSize: parseInt(batchSize) || 50,
+        provider,
+        cacheMaxAgeDays,
       });
       
       // Add job to the queue for AI-powered processing
@@ -496,47 +656,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         batchSize: parseInt(batchSize) || 50,
       });
 
-      res.json({ jobId: job.id, status: 'started' });
+      res.json({ jobId: job.id, status: 'started', provider, cacheMaxAgeDays });
     } catch (error) {
       console.error('Start job error:', error);
       res.status(500).json({ error: "Failed to start job processing" });
     }
   });
 
-  app.get("/api/jobs/current-status", authenticateToken, async (req, res) => {
+  app.get("/api/jobs/current-status", authenticate('jobs:read'), resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const activeJob = await storage.getActiveJob(user.id);
+      const activeJob = await storage.getActiveJob(req.jobScope!);
       
       if (!activeJob) {
         return res.json(null);
       }
 
-      const totalProcessed = activeJob.processedProfiles || 0;
-      const percentage = Math.round((totalProcessed / activeJob.totalProfiles) * 100);
-      const remaining = activeJob.totalProfiles - totalProcessed;
-      
       res.json({
         hasActiveJob: true,
-        currentJob: {
-          id: activeJob.id,
-          fileName: activeJob.fileName,
-          status: activeJob.status,
-          progress: percentage,
-          processedProfiles: totalProcessed,
-          totalProfiles: activeJob.totalProfiles,
-          successful: activeJob.successfulProfiles || 0,
-          retrying: activeJob.retryingProfiles || 0,
-          failed: activeJob.failedProfiles || 0,
-          remaining,
-          processingRate: activeJob.processingRate || 'Calculating...',
-          estimatedCompletion: activeJob.estimatedCompletion ? 
-            Math.ceil((activeJob.estimatedCompletion.getTime() - Date.now()) / (1000 * 60)) + 'm' : 
-            'Calculating...',
-        },
+        currentJob: toJobStatusPayload(activeJob),
       });
     } catch (error) {
       console.error('Job status error:', error);
@@ -544,19 +685,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/jobs/recent", authenticateToken, async (req, res) => {
+  app.get("/api/jobs/recent", authenticate('jobs:read'), resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const jobs = await storage.getJobsByUser(user.id);
+      const jobs = await storage.getJobsByScope(req.jobScope!);
       
       const recentJobs = jobs.slice(0, 10).map(job => ({
         id: job.id,
         fileName: job.fileName,
         totalProfiles: job.totalProfiles,
         status: job.status,
+        provider: job.provider,
+        failedProfiles: job.failedProfiles || 0,
+        retryingProfiles: job.retryingProfiles || 0,
         progress: job.processedProfiles ? 
           Math.round((job.processedProfiles / job.totalProfiles) * 100) : 0,
         successRate: job.totalProfiles > 0 ? 
@@ -571,60 +715,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/jobs/:id/pause", async (req, res) => {
+  app.post("/api/jobs/:id/pause", authenticate('jobs:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'paused');
       const jobQueue = container.get('jobQueue');
-      await jobQueue.pauseJob(jobId);
+      if (!(await jobQueue.pauseJob(req.job!.id))) {
+        return res.status(409).json({ error: "Job is not processing" });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to pause job" });
     }
   });
 
-  app.post("/api/jobs/:id/stop", async (req, res) => {
+  app.post("/api/jobs/:id/stop", authenticate('jobs:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'failed');
       const jobQueue = container.get('jobQueue');
-      await jobQueue.stopJob(jobId);
+      if (!(await jobQueue.stopJob(req.job!.id))) {
+        return res.status(409).json({ error: "Job has already finished" });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to stop job" });
     }
   });
 
-  app.post("/api/jobs/:id/cancel", async (req, res) => {
+  app.post("/api/jobs/:id/cancel", authenticate('jobs:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'failed');
       const jobQueue = container.get('jobQueue');
-      await jobQueue.stopJob(jobId);
+      if (!(await jobQueue.stopJob(req.job!.id))) {
+        return res.status(409).json({ error: "Job has already finished" });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to cancel job" });
     }
   });
 
-  app.post("/api/jobs/:id/resume", async (req, res) => {
+  app.post("/api/jobs/:id/resume", authenticate('jobs:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      await storage.updateJobStatus(jobId, 'processing');
       const jobQueue = container.get('jobQueue');
-      await jobQueue.resumeJob(jobId);
+      if (!(await jobQueue.resumeJob(req.job!.id))) {
+        return res.status(409).json({ error: "Job is not paused" });
+      }
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to resume job" });
     }
   });
 
-  app.get("/api/jobs/:id/download", async (req, res) => {
+  app.post("/api/jobs/:id/retry", authenticate('jobs:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      const job = await storage.getJob(jobId);
-      
-      if (!job || !job.resultPath) {
+      const jobQueue = container.get('jobQueue');
+      const retried = await jobQueue.retryFailedProfiles(req.job!.id);
+      if (retried === null) {
+        return res.status(409).json({ error: "Job is still running" });
+      }
+      res.json({ success: true, retried });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retry profiles" });
+    }
+  });
+
+  // Server-Sent Events: a 'status' snapshot on connect, then 'progress',
+  // 'profile' and 'status' events from the job queue as they happen
+  app.get("/api/jobs/:id/events", authenticateEventStream, loadOwnedJob(), async (req, res) => {
+    try {
+      const job = req.job!;
+      const jobId = job.id;
+
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+
+      const send = (event: JobEvent) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      };
+
+      send({ type: 'status', jobId, data: toJobStatusPayload(job) });
+
+      const unsubscribe = container.get('jobEvents').subscribe(jobId, send);
+      const heartbeat = setInterval(() => {
+        res.write(': heartbeat\n\n');
+      }, CONFIG.JOB_EVENTS.HEARTBEAT_INTERVAL);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to open job event stream" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  app.get("/api/jobs/:id/download", authenticate('export:read'), loadOwnedJob(), async (req, res) => {
+    try {
+      const job = req.job!;
+      if (!job.resultPath) {
         return res.status(404).json({ error: "Results not found" });
       }
 
@@ -634,9 +828,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/jobs/:id", async (req, res) => {
+  // The uploaded file itself, with the results added as columns on the rows they came from
+  app.get("/api/jobs/:id/enriched", authenticate('export:read'), loadOwnedJob(), async (req, res) => {
+    try {
+      const job = req.job!;
+      const { templateId } = enrichQuerySchema.parse(req.query);
+
+      let layout = DEFAULT_ENRICH_LAYOUT;
+      if (templateId) {
+        const template = await storage.getExportTemplate(templateId, req.user!.userId);
+        if (!template) {
+          return res.status(404).json({ error: "Export template not found" });
+        }
+        layout = template.layout as ExportLayout;
+      }
+
+      const file = await container.get('fileEnricher').enrich(job, layout);
+      const extension = path.extname(job.fileName);
+      res.attachment(`${path.basename(job.fileName, extension)}_enriched${extension.toLowerCase()}`);
+      res.send(file);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error('Enrich original file error:', error);
+      res.status(500).json({ error: "Failed to write results into the original file" });
+    }
+  });
+
+  app.get("/api/jobs/:id/export/:format", authenticate('export:read'), loadOwnedJob(), async (req, res) => {
+    try {
+      const job = req.job!;
+      const format = req.params.format as ProfileExportFormat;
+      if (!profileExportFormats.includes(format)) {
+        return res.status(400).json({ error: `Export format must be one of: ${profileExportFormats.join(', ')}` });
+      }
+
+      res.attachment(`${path.basename(job.fileName, path.extname(job.fileName))}_${format}.zip`);
+      await container.get('excelExporter').streamProfileArchive(job.id, format, res);
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        // Too late for an error status; cut the download short so it can't pass for a complete file
+        console.error('Profile archive failed mid-stream:', error);
+        return res.destroy();
+      }
+      console.error('Profile archive error:', error);
+      res.status(500).json({ error: "Failed to export profiles" });
+    }
+  });
+
+  app.delete("/api/jobs/:id", authenticate('jobs:write'), validateOrigin, loadOwnedJob('id', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
       // In real implementation, remove job from database
       res.json({ success: true });
     } catch (error) {
@@ -645,14 +891,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Storage routes
-  app.get("/api/storage/stats", authenticateToken, async (req, res) => {
+  app.get("/api/storage/stats", authenticateToken, resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const jobs = await storage.getJobsByUser(user.id);
-      const stats = await storage.getJobStats(user.id);
+      const jobs = await storage.getJobsByScope(req.jobScope!);
+      const stats = await storage.getJobStats(req.jobScope!);
       
       res.json({
         totalJobs: jobs.length,
@@ -666,7 +912,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/jobs", authenticateToken, async (req, res) => {
+  app.get("/api/jobs", authenticate('jobs:read'), resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
@@ -676,7 +922,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const limit = parseInt(req.query.limit as string) || 10;
       const search = req.query.search as string || "";
       
-      const jobs = await storage.getJobsByUser(user.id);
+      const jobs = await storage.getJobsByScope(req.jobScope!);
       
       // Filter by search term
       const filteredJobs = search 
@@ -697,10 +943,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/jobs/:id/profiles", async (req, res) => {
+  app.get("/api/jobs/:id/profiles", authenticate('jobs:read'), loadOwnedJob(), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.id);
-      const profiles = await storage.getProfilesByJob(jobId);
+      const profiles = await storage.getProfilesByJob(req.job!.id);
       
       res.json({
         profiles: profiles,
@@ -711,6 +956,528 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Extraction history of a profile across this user's jobs, with what changed each time
+  app.get("/api/profiles/:id/history", authenticate('jobs:read'), loadOwnedProfile(), async (req, res) => {
+    try {
+      const profile = req.profile!;
+      if (!profile.canonicalId) {
+        return res.json({ canonicalId: null, history: [] });
+      }
+
+      // Extractions from the jobs the profile's job is shared with: the
+      // workspace's jobs for a workspace job, the owner's personal jobs otherwise
+      const snapshots = await storage.getProfileSnapshots(profile.canonicalId, jobScopeOf(req.job!));
+      // Providers word fields differently, so each extraction is compared with
+      // the previous one from the same provider, like watchlist alerts
+      const history: ProfileHistoryEntry[] = snapshots.map((snapshot, index) => {
+        const previous = snapshots
+          .slice(0, index)
+          .reverse()
+          .find(earlier => earlier.provider === snapshot.provider);
+        const changes = previous ? diffProfileData(previous.profileData, snapshot.profileData) : null;
+        return {
+          snapshotId: snapshot.id,
+          jobId: snapshot.jobId,
+          provider: snapshot.provider,
+          extractedAt: snapshot.extractedAt.toISOString(),
+          changes,
+          summary: changes ? describeProfileChanges(changes) : [],
+        };
+      });
+
+      res.json({ canonicalId: profile.canonicalId, history: history.reverse() });
+    } catch (error) {
+      console.error('Profile history error:', error);
+      res.status(500).json({ error: "Failed to get profile history" });
+    }
+  });
+
+  app.get("/api/profiles/:id/export/:format", authenticate('export:read'), loadOwnedProfile(), async (req, res) => {
+    try {
+      const profile = req.profile!;
+      const format = req.params.format as ProfileExportFormat;
+      if (!profileExportFormats.includes(format)) {
+        return res.status(400).json({ error: `Export format must be one of: ${profileExportFormats.join(', ')}` });
+      }
+      if (!profile.profileData) {
+        return res.status(404).json({ error: "Profile has no extracted data" });
+      }
+
+      const extracted = profile as ExtractedProfile;
+      res.attachment(profileFileName(extracted, format));
+      res.setHeader('Content-Type', PROFILE_EXPORT_FORMATS[format].contentType);
+      res.send(PROFILE_EXPORT_FORMATS[format].serialize(extracted));
+    } catch (error) {
+      console.error('Profile export error:', error);
+      res.status(500).json({ error: "Failed to export profile" });
+    }
+  });
+
+  // Watchlists: profiles re-extracted on a schedule, with alerts when tracked fields change
+  const getOwnedWatchlist = async (id: number, userId: number): Promise<Watchlist | undefined> => {
+    const watchlist = await storage.getWatchlist(id);
+    return watchlist && watchlist.userId === userId ? watchlist : undefined;
+  };
+
+  app.get("/api/watchlists", authenticateToken, async (req, res) => {
+    try {
+      const watchlists = await storage.getWatchlistsByUser(req.user!.userId);
+      const result = await Promise.all(watchlists.map(async watchlist => ({
+        ...watchlist,
+        memberCount: (await storage.getWatchlistMembers(watchlist.id)).length,
+      })));
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get watchlists" });
+    }
+  });
+
+  app.post("/api/watchlists", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const userId = req.user!.userId;
+      const data = createWatchlistSchema.parse(req.body);
+      if (!container.get('profileProviders').has(data.provider)) {
+        return res.status(400).json({ error: `Unknown profile provider: ${data.provider}` });
+      }
+
+      // Members come from individual profiles or from every profile of a job
+      const sourceProfiles: Profile[] = [];
+      if (data.jobId !== undefined) {
+        const job = await storage.getJob(data.jobId);
+        if (!job || await checkJobAccess(job, userId, 'viewer') !== 'allowed') {
+          return res.status(404).json({ error: "Job not found" });
+        }
+        sourceProfiles.push(...await storage.getProfilesByJob(job.id));
+      }
+      for (const profileId of data.profileIds ?? []) {
+        const profile = await storage.getProfile(profileId);
+        const job = profile ? await storage.getJob(profile.jobId) : undefined;
+        if (!profile || !job || await checkJobAccess(job, userId, 'viewer') !== 'allowed') {
+          return res.status(404).json({ error: `Profile ${profileId} not found` });
+        }
+        sourceProfiles.push(profile);
+      }
+
+      const members = new Map<string, string>();
+      for (const profile of sourceProfiles) {
+        if (profile.canonicalId && !members.has(profile.canonicalId)) {
+          members.set(profile.canonicalId, profile.linkedinUrl);
+        }
+      }
+      if (members.size === 0) {
+        return res.status(400).json({ error: "None of the selected profiles has a valid LinkedIn URL" });
+      }
+
+      const watchlist = await storage.createWatchlist({
+        userId,
+        name: data.name,
+        provider: data.provider,
+        schedule: data.schedule,
+        trackedFields: data.trackedFields,
+        nextRunAt: nextWatchlistRun(data.schedule, new Date()),
+      });
+      const newMembers: InsertWatchlistMember[] = Array.from(members, ([canonicalId, linkedinUrl]) => ({
+        watchlistId: watchlist.id,
+        canonicalId,
+        linkedinUrl,
+      }));
+      await storage.addWatchlistMembers(newMembers);
+
+      res.status(201).json({ ...watchlist, memberCount: newMembers.length });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      console.error('Create watchlist error:', error);
+      res.status(500).json({ error: "Failed to create watchlist" });
+    }
+  });
+
+  app.get("/api/watchlists/:id", authenticateToken, async (req, res) => {
+    try {
+      const watchlist = await getOwnedWatchlist(parseInt(req.params.id), req.user!.userId);
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      const members = await storage.getWatchlistMembers(watchlist.id);
+      res.json({ ...watchlist, memberCount: members.length, members });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get watchlist" });
+    }
+  });
+
+  app.patch("/api/watchlists/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const watchlist = await getOwnedWatchlist(parseInt(req.params.id), req.user!.userId);
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      const data = updateWatchlistSchema.parse(req.body);
+
+      const update: Partial<Watchlist> = { ...data };
+      // Reactivating or changing the schedule counts from now
+      if ((data.schedule && data.schedule !== watchlist.schedule) || (data.active && !watchlist.active)) {
+        update.nextRunAt = nextWatchlistRun(data.schedule ?? watchlist.schedule, new Date());
+      }
+      await storage.updateWatchlist(watchlist.id, update);
+
+      res.json(await storage.getWatchlist(watchlist.id));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update watchlist" });
+    }
+  });
+
+  app.delete("/api/watchlists/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const watchlist = await getOwnedWatchlist(parseInt(req.params.id), req.user!.userId);
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      await storage.deleteWatchlist(watchlist.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete watchlist" });
+    }
+  });
+
+  app.post("/api/watchlists/:id/run", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const watchlist = await getOwnedWatchlist(parseInt(req.params.id), req.user!.userId);
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+      const job = await container.get('watchlistScheduler').runWatchlist(watchlist);
+      if (!job) {
+        return res.status(409).json({ error: "The previous run of this watchlist is still in progress" });
+      }
+      res.json({ jobId: job.id, status: 'started' });
+    } catch (error) {
+      console.error('Run watchlist error:', error);
+      res.status(500).json({ error: "Failed to run watchlist" });
+    }
+  });
+
+  // In-app notifications, e.g. watchlist change alerts
+  app.get("/api/notifications", authenticateToken, async (req, res) => {
+    try {
+      const userId = req.user!.userId;
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotificationsByUser(userId, CONFIG.WATCHLISTS.NOTIFICATION_LIST_LIMIT),
+        storage.getUnreadNotificationCount(userId),
+      ]);
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const updated = await storage.markNotificationRead(parseInt(req.params.id), req.user!.userId);
+      if (!updated) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+
+  // Outbound webhooks; the signing secret is only returned when the webhook is created
+  const getOwnedWebhook = async (id: number, userId: number): Promise<Webhook | undefined> => {
+    const webhook = await storage.getWebhook(id);
+    return webhook && webhook.userId === userId ? webhook : undefined;
+  };
+  const toWebhookResponse = ({ secret, ...webhook }: Webhook) => webhook;
+
+  app.get("/api/webhooks", authenticateToken, async (req, res) => {
+    try {
+      const webhooks = await storage.getWebhooksByUser(req.user!.userId);
+      res.json(webhooks.map(toWebhookResponse));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get webhooks" });
+    }
+  });
+
+  app.post("/api/webhooks", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = createWebhookSchema.parse(req.body);
+      await assertPublicWebhookUrl(data.url);
+      const webhook = await storage.createWebhook({
+        userId: req.user!.userId,
+        url: data.url,
+        events: data.events,
+        secret: generateWebhookSecret(),
+      });
+      res.status(201).json(webhook);
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/webhooks/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const webhook = await getOwnedWebhook(parseInt(req.params.id), req.user!.userId);
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      const data = updateWebhookSchema.parse(req.body);
+      if (data.url) {
+        await assertPublicWebhookUrl(data.url);
+      }
+      await storage.updateWebhook(webhook.id, data);
+      res.json(toWebhookResponse({ ...webhook, ...data }));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const webhook = await getOwnedWebhook(parseInt(req.params.id), req.user!.userId);
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      await storage.deleteWebhook(webhook.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", authenticateToken, async (req, res) => {
+    try {
+      const webhook = await getOwnedWebhook(parseInt(req.params.id), req.user!.userId);
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      const deliveries = await storage.getWebhookDeliveries(webhook.id, CONFIG.WEBHOOKS.DELIVERY_LIST_LIMIT);
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get webhook deliveries" });
+    }
+  });
+
+  // Personal API keys. Managed with a session only, so a leaked key can't mint more keys;
+  // the key itself is returned once, at creation
+  const toApiKeyResponse = ({ keyHash, ...apiKey }: ApiKey) => apiKey;
+
+  app.get("/api/api-keys", authenticateToken, async (req, res) => {
+    try {
+      const keys = await storage.getApiKeysByUser(req.user!.userId);
+      res.json(keys.map(toApiKeyResponse));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get API keys" });
+    }
+  });
+
+  app.post("/api/api-keys", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = createApiKeySchema.parse(req.body);
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        userId: req.user!.userId,
+        name: data.name,
+        prefix,
+        keyHash,
+        scopes: data.scopes,
+        expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      res.status(201).json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to create API key" });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const revoked = await storage.revokeApiKey(parseInt(req.params.id), req.user!.userId);
+      if (!revoked) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke API key" });
+    }
+  });
+
+  // Workspaces: teams sharing jobs. Jobs uploaded with an X-Workspace-Id header
+  // belong to that workspace; listings and stats read the same header.
+  const toWorkspaceMemberResponse = async (member: WorkspaceMember) => {
+    const user = await storage.getUser(member.userId);
+    return {
+      userId: member.userId,
+      username: user?.username ?? null,
+      email: user?.email ?? null,
+      role: member.role,
+      createdAt: member.createdAt,
+    };
+  };
+  const countOwners = async (workspaceId: number): Promise<number> =>
+    (await storage.getWorkspaceMembers(workspaceId)).filter(member => member.role === 'owner').length;
+
+  app.get("/api/workspaces", authenticateToken, async (req, res) => {
+    try {
+      res.json(await storage.getWorkspacesByUser(req.user!.userId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", authenticateToken, validateOrigin, async (req, res) => {
+    try {
+      const data = createWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace({ name: data.name, createdBy: req.user!.userId });
+      await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: req.user!.userId, role: 'owner' });
+      res.status(201).json({ ...workspace, role: 'owner' });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to create workspace" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", authenticateToken, validateOrigin, loadWorkspace('admin'), async (req, res) => {
+    try {
+      const data = createWorkspaceSchema.parse(req.body);
+      await storage.updateWorkspace(req.workspace!.id, data);
+      res.json({ ...req.workspace!, ...data, role: req.workspaceRole });
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update workspace" });
+    }
+  });
+
+  // Its jobs go back to the personal lists of the members who uploaded them
+  app.delete("/api/workspaces/:id", authenticateToken, validateOrigin, loadWorkspace('owner'), async (req, res) => {
+    try {
+      await storage.deleteWorkspace(req.workspace!.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:id/members", authenticateToken, loadWorkspace(), async (req, res) => {
+    try {
+      const members = await storage.getWorkspaceMembers(req.workspace!.id);
+      res.json(await Promise.all(members.map(toWorkspaceMemberResponse)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get workspace members" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/members", authenticateToken, validateOrigin, loadWorkspace('admin'), async (req, res) => {
+    try {
+      const data = addWorkspaceMemberSchema.parse(req.body);
+      if (data.role === 'owner' && req.workspaceRole !== 'owner') {
+        return insufficientRole(res, 'owner');
+      }
+
+      const user = await storage.getUserByEmail(data.email);
+      if (!user) {
+        return res.status(404).json({ error: "No user with that email address" });
+      }
+      if (await storage.getWorkspaceMember(req.workspace!.id, user.id)) {
+        return res.status(409).json({ error: "Already a member of this workspace" });
+      }
+
+      const member = await storage.addWorkspaceMember({ workspaceId: req.workspace!.id, userId: user.id, role: data.role });
+      res.status(201).json(await toWorkspaceMemberResponse(member));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to add workspace member" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id/members/:userId", authenticateToken, validateOrigin, loadWorkspace('admin'), async (req, res) => {
+    try {
+      const data = updateWorkspaceMemberSchema.parse(req.body);
+      const workspaceId = req.workspace!.id;
+      const member = await storage.getWorkspaceMember(workspaceId, parseInt(req.params.userId));
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      // Only owners hand out or take away ownership
+      if ((member.role === 'owner' || data.role === 'owner') && req.workspaceRole !== 'owner') {
+        return insufficientRole(res, 'owner');
+      }
+      if (member.role === 'owner' && data.role !== 'owner' && await countOwners(workspaceId) === 1) {
+        return res.status(409).json({ error: "A workspace needs at least one owner" });
+      }
+
+      await storage.updateWorkspaceMemberRole(workspaceId, member.userId, data.role);
+      res.json(await toWorkspaceMemberResponse({ ...member, role: data.role }));
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      res.status(500).json({ error: "Failed to update workspace member" });
+    }
+  });
+
+  // Admins remove members; anyone may leave
+  app.delete("/api/workspaces/:id/members/:userId", authenticateToken, validateOrigin, loadWorkspace(), async (req, res) => {
+    try {
+      const workspaceId = req.workspace!.id;
+      const member = await storage.getWorkspaceMember(workspaceId, parseInt(req.params.userId));
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (member.userId !== req.user!.userId) {
+        const required: WorkspaceRole = member.role === 'owner' ? 'owner' : 'admin';
+        if (!hasWorkspaceRole(req.workspaceRole!, required)) {
+          return insufficientRole(res, required);
+        }
+      }
+      if (member.role === 'owner' && await countOwners(workspaceId) === 1) {
+        return res.status(409).json({ error: "A workspace needs at least one owner" });
+      }
+
+      await storage.removeWorkspaceMember(workspaceId, member.userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove workspace member" });
+    }
+  });
+
+  // OpenAPI description of the public API
+  app.get("/api/openapi.json", (req, res) => {
+    res.json(buildOpenApiDocument(`${req.protocol}://${req.get('host')}`));
+  });
+
   // System Health endpoint
   app.get("/api/system/health", authenticateToken, async (req, res) => {
     try {
@@ -742,39 +1509,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Statistics routes
-  app.get("/api/stats/overview", authenticateToken, async (req, res) => {
+  app.get("/api/stats/overview", authenticateToken, resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const stats = await storage.getJobStats(user.id);
+      const stats = await storage.getJobStats(req.jobScope!);
       res.json(stats);
     } catch (error) {
       res.status(500).json({ error: "Failed to get overview stats" });
     }
   });
 
-  app.get("/api/stats/errors", authenticateToken, async (req, res) => {
+  app.get("/api/stats/errors", authenticateToken, resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const errorBreakdown = await storage.getErrorBreakdown(user.id);
+      const errorBreakdown = await storage.getErrorBreakdown(req.jobScope!);
       res.json(errorBreakdown);
     } catch (error) {
       res.status(500).json({ error: "Failed to get error breakdown" });
     }
   });
 
-  app.get("/api/stats/export-counts", authenticateToken, async (req, res) => {
+  app.get("/api/stats/export-counts", authenticateToken, resolveJobScope(), async (req, res) => {
     try {
       const user = await storage.getUser(req.user!.userId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const stats = await storage.getJobStats(user.id);
+      const stats = await storage.getJobStats(req.jobScope!);
       res.json({
         successful: stats.successfulProfiles,
         failed: stats.failedProfiles,
@@ -786,45 +1553,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Assistant routes
-  app.post("/api/ai/analyze-profile/:profileId", authenticateToken, async (req, res) => {
+  app.post("/api/ai/analyze-profile/:profileId", authenticate('ai:use'), loadOwnedProfile('profileId', 'editor'), async (req, res) => {
     try {
-      const profileId = parseInt(req.params.profileId);
-      const user = await storage.getUser(req.user!.userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-      
-      const profiles = await storage.getProfilesByJob(profileId);
-      const profile = profiles.find(p => p.id === profileId);
-      
-      if (!profile || !profile.profileData) {
+      const profile = req.profile!;
+      if (!profile.profileData) {
         return res.status(404).json({ error: "Profile not found or no data available" });
       }
 
-      // Convert profile data for AI analysis
-      const profileData = profile.profileData as any;
-      const profileForAnalysis = {
-        id: profile.id,
-        name: `${profileData?.firstName || ''} ${profileData?.lastName || ''}`.trim(),
-        headline: profileData?.headline || '',
-        summary: profileData?.summary || '',
-        location: profileData?.location || '',
-        experience: profileData?.positions?.map((p: any) => `${p.title} at ${p.company}: ${p.description || ''}`).join('\n') || '',
-        education: profileData?.education?.map((e: any) => `${e.degree} in ${e.fieldOfStudy} from ${e.school}`).join('\n') || '',
-        skills: '',
-        connections: '',
-        linkedinUrl: profile.linkedinUrl,
-        status: profile.status,
-        profileData: profile.profileData,
-        jobId: profile.jobId,
-        errorType: profile.errorType,
-        errorMessage: profile.errorMessage,
-        retryCount: profile.retryCount,
-        lastAttempt: profile.lastAttempt,
-        extractedAt: profile.extractedAt,
-      };
-
-      const analysis = await aiAssistant.analyzeProfile(profileForAnalysis);
+      const analysis = await aiAssistant.analyzeProfile(profile);
       
       // Store the analysis in the database
       await storage.createAiAnalysis({
@@ -841,19 +1577,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/analyze-job/:jobId", authenticateToken, async (req, res) => {
+  app.post("/api/ai/analyze-job/:jobId", authenticate('ai:use'), loadOwnedJob('jobId', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.jobId);
-      const user = await storage.getUser(req.user!.userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-      
-      const job = await storage.getJob(jobId);
-      if (!job) {
-        return res.status(404).json({ error: "Job not found" });
-      }
-
+      const jobId = req.job!.id;
       const profiles = await storage.getProfilesByJob(jobId);
       const successfulProfiles = profiles.filter(p => p.status === 'success' && p.profileData);
 
@@ -861,32 +1587,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No successful profiles found for analysis" });
       }
 
-      // Convert profiles for AI analysis
-      const profilesForAnalysis = successfulProfiles.map(profile => {
-        const profileData = profile.profileData as any;
-        return {
-          id: profile.id,
-          name: `${profileData?.firstName || ''} ${profileData?.lastName || ''}`.trim(),
-          headline: profileData?.headline || '',
-          summary: profileData?.summary || '',
-          location: profileData?.location || '',
-          experience: profileData?.positions?.map((p: any) => `${p.title} at ${p.company}: ${p.description || ''}`).join('\n') || '',
-          education: profileData?.education?.map((e: any) => `${e.degree} in ${e.fieldOfStudy} from ${e.school}`).join('\n') || '',
-          skills: '',
-          connections: '',
-          linkedinUrl: profile.linkedinUrl,
-          status: profile.status,
-          profileData: profile.profileData,
-          jobId: profile.jobId,
-          errorType: profile.errorType,
-          errorMessage: profile.errorMessage,
-          retryCount: profile.retryCount,
-          lastAttempt: profile.lastAttempt,
-          extractedAt: profile.extractedAt,
-        };
-      });
-
-      const analysis = await aiAssistant.analyzeBulkProfiles(profilesForAnalysis);
+      const analysis = await aiAssistant.analyzeBulkProfiles(successfulProfiles);
       
       // Store the analysis in the database
       await storage.createAiAnalysis({
@@ -903,19 +1604,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/recruiting-insights/:jobId", authenticateToken, async (req, res) => {
+  app.post("/api/ai/recruiting-insights/:jobId", authenticate('ai:use'), loadOwnedJob('jobId', 'editor'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.jobId);
+      const jobId = req.job!.id;
       const { jobTitle } = req.body;
-      const user = await storage.getUser(req.user!.userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-      
-      const job = await storage.getJob(jobId);
-      if (!job) {
-        return res.status(404).json({ error: "Job not found" });
-      }
 
       const profiles = await storage.getProfilesByJob(jobId);
       const successfulProfiles = profiles.filter(p => p.status === 'success' && p.profileData);
@@ -924,32 +1616,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No successful profiles found for analysis" });
       }
 
-      // Convert profiles for AI analysis
-      const profilesForAnalysis = successfulProfiles.map(profile => {
-        const profileData = profile.profileData as any;
-        return {
-          id: profile.id,
-          name: `${profileData?.firstName || ''} ${profileData?.lastName || ''}`.trim(),
-          headline: profileData?.headline || '',
-          summary: profileData?.summary || '',
-          location: profileData?.location || '',
-          experience: profileData?.positions?.map((p: any) => `${p.title} at ${p.company}: ${p.description || ''}`).join('\n') || '',
-          education: profileData?.education?.map((e: any) => `${e.degree} in ${e.fieldOfStudy} from ${e.school}`).join('\n') || '',
-          skills: '',
-          connections: '',
-          linkedinUrl: profile.linkedinUrl,
-          status: profile.status,
-          profileData: profile.profileData,
-          jobId: profile.jobId,
-          errorType: profile.errorType,
-          errorMessage: profile.errorMessage,
-          retryCount: profile.retryCount,
-          lastAttempt: profile.lastAttempt,
-          extractedAt: profile.extractedAt,
-        };
-      });
-
-      const insights = await aiAssistant.generateRecruitingInsights(profilesForAnalysis, jobTitle);
+      const insights = await aiAssistant.generateRecruitingInsights(successfulProfiles, jobTitle);
       
       // Store the analysis in the database
       await storage.createAiAnalysis({
@@ -966,7 +1633,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/chat", authenticateToken, async (req, res) => {
+  app.post("/api/ai/chat", authenticate('ai:use'), async (req, res) => {
     try {
       const { message, jobId } = req.body;
       const user = await storage.getUser(req.user!.userId);
@@ -978,22 +1645,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       if (jobId) {
         const job = await storage.getJob(jobId);
+        if (!job || await checkJobAccess(job, user.id, 'viewer') !== 'allowed') {
+          return res.status(404).json({ error: "Job not found" });
+        }
         const profiles = await storage.getProfilesByJob(jobId);
         const successfulProfiles = profiles.filter(p => p.status === 'success' && p.profileData);
         
-        context = {
-          jobId,
-          profiles: successfulProfiles.map(profile => {
-            const profileData = profile.profileData as any;
-            return {
-              id: profile.id,
-              name: `${profileData?.firstName || ''} ${profileData?.lastName || ''}`.trim(),
-              headline: profileData?.headline || '',
-              location: profileData?.location || '',
-              linkedinUrl: profile.linkedinUrl,
-            };
-          })
-        };
+        context = { jobId, profiles: successfulProfiles };
       }
       
       const response = await aiAssistant.chatWithAssistant(message, context);
@@ -1004,10 +1662,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ai/analyses/:jobId", async (req, res) => {
+  app.get("/api/ai/analyses/:jobId", authenticate('ai:use'), loadOwnedJob('jobId'), async (req, res) => {
     try {
-      const jobId = parseInt(req.params.jobId);
-      const analyses = await storage.getAiAnalysisByJob(jobId);
+      const analyses = await storage.getAiAnalysisByJob(req.job!.id);
       res.json(analyses);
     } catch (error) {
       console.error('Error getting AI analyses:', error);
@@ -1016,33 +1673,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Export routes
-  app.post("/api/export/:type", authenticateToken, async (req, res) => {
+  // Streams the export while paging through profiles, so large accounts never sit in memory
+  app.post("/api/export/:type", authenticate('export:read'), resolveJobScope(), async (req, res) => {
     try {
-      const { type } = req.params;
-      const user = await storage.getUser(req.user!.userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const type = req.params.type as ExportType;
+      if (!exportTypes.includes(type)) {
+        return res.status(400).json({ error: `Export type must be one of: ${exportTypes.join(', ')}` });
       }
-      
-      const excelBuffer = await excelProcessor.exportResults(user.id, type as 'successful' | 'failed' | 'all');
-      
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename=linkedin_data_${type}_${new Date().toISOString().split('T')[0]}.xlsx`);
-      res.send(excelBuffer);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to export data" });
-    }
-  });
+      const query = exportQuerySchema.parse(req.query);
 
-  // Job profiles route for AI Assistant
-  app.get("/api/jobs/:id/profiles", async (req, res) => {
-    try {
-      const jobId = parseInt(req.params.id);
-      const profiles = await storage.getProfilesByJob(jobId);
-      res.json(profiles);
-    } catch (error) {
-      console.error('Error getting job profiles:', error);
-      res.status(500).json({ error: "Failed to get job profiles" });
+      let layout = DEFAULT_EXPORT_LAYOUT;
+      if (query.templateId) {
+        const template = await storage.getExportTemplate(query.templateId, req.user!.userId);
+        if (!template) {
+          return res.status(404).json({ error: "Export template not found" });
+        }
+        layout = template.layout as ExportLayout;
+      }
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[query.format]);
+      res.setHeader('Content-Disposition', `attachment; filename=linkedin_data_${type}_${new Date().toISOString().split('T')[0]}.${query.format}`);
+      await container.get('excelExporter').streamResults(req.jobScope!, type, query, res, layout);
+      res.end();
+    } catch (error: any) {
+      if (error.issues) {
+        return res.status(400).json({ error: "Validation error", details: error.issues });
+      }
+      if (res.headersSent) {
+        // Too late for an error status; cut the download short so it can't pass for a complete file
+        console.error('Export failed mid-stream:', error);
+        return res.destroy();
+      }
+      res.status(500).json({ error: "Failed to export data" });
     }
   });
 
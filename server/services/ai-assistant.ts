@@ -27,12 +27,29 @@ export interface BulkAnalysis {
   recommendations: string[];
 }
 
+// Prompt-friendly view of a profile row's canonical profileData
+function describeProfile(profile: Profile) {
+  const data = profile.profileData;
+  return {
+    name: data ? `${data.firstName} ${data.lastName}`.trim() : '',
+    headline: data?.headline || '',
+    location: data?.location || '',
+    summary: data?.summary || '',
+    experience: data?.positions.map(p => `${p.title} at ${p.company}${p.description ? `: ${p.description}` : ''}`).join('\n') || '',
+    education: data?.education.map(e => `${e.degree} in ${e.fieldOfStudy} from ${e.school}`).join('\n') || '',
+    skills: data?.skills.join(', ') || '',
+    connections: data?.connections,
+    linkedinUrl: profile.linkedinUrl,
+  };
+}
+
 export class AIAssistantService {
   /**
    * Analyze a single LinkedIn profile using AI
    */
-  async analyzeProfile(profile: Profile): Promise<ProfileAnalysis> {
+  async analyzeProfile(row: Profile): Promise<ProfileAnalysis> {
     try {
+      const profile = describeProfile(row);
       const prompt = `
 Analyze this LinkedIn profile data and provide structured insights:
 
@@ -104,13 +121,14 @@ Please provide a comprehensive analysis in this exact JSON format:
   async analyzeBulkProfiles(profiles: Profile[]): Promise<BulkAnalysis> {
     try {
       // Prepare data summary for AI analysis
-      const profileSummaries = profiles.map(p => ({
+      const profileSummaries = profiles.map(describeProfile).map(p => ({
         name: p.name,
         headline: p.headline,
         location: p.location,
         experience: p.experience,
         skills: p.skills,
-        connections: p.connections
+        connections: p.connections,
+        linkedinUrl: p.linkedinUrl
       }));
 
       const prompt = `
@@ -179,7 +197,7 @@ Provide comprehensive analysis in this exact JSON format:
 Based on these LinkedIn profiles, provide 5-7 specific recruiting insights ${context}:
 
 Profiles summary:
-${profiles.map(p => `${p.name}: ${p.headline} | ${p.location} | ${p.experience?.substring(0, 200)}`).join('\n')}
+${profiles.map(describeProfile).map(p => `${p.name}: ${p.headline} | ${p.location} | ${p.experience.substring(0, 200)}`).join('\n')}
 
 Provide actionable recruiting insights as a JSON array of strings:
 ["insight1", "insight2", "insight3", "insight4", "insight5"]
@@ -226,7 +244,7 @@ Provide actionable recruiting insights as a JSON array of strings:
       let systemContext = "You are an AI assistant specializing in LinkedIn profile analysis and recruiting insights. Provide helpful, professional responses.";
       
       if (context?.profiles && context.profiles.length > 0) {
-        const profileSummary = context.profiles.map(p => 
+        const profileSummary = context.profiles.map(describeProfile).map(p => 
           `${p.name}: ${p.headline} (${p.location})`
         ).join(', ');
         systemContext += ` You currently have access to ${context.profiles.length} LinkedIn profiles: ${profileSummary}`;
@@ -1,5 +1,6 @@
 import OpenAI from "openai";
 import { storage } from "../storage";
+import { getCanonicalLinkedInId } from "@shared/linkedin-url";
 
 interface ExtractedProfile {
   firstName: string;
@@ -111,8 +112,7 @@ export class AIProfileExtractor {
 
   private basicExtractionFromURL(linkedinUrl: string): ExtractedProfile {
     // Extract username from URL
-    const match = linkedinUrl.match(/linkedin\.com\/in\/([^\/\?]+)/);
-    const username = match ? match[1] : "unknown";
+    const username = getCanonicalLinkedInId(linkedinUrl) ?? "unknown";
     
     // Try to extract name from username
     const nameParts = username.split('-').filter(part => !part.match(/^\d+$/));
@@ -2,19 +2,36 @@
 import { storage } from '../storage';
 import { ExcelParser } from './excel/parser';
 import { ExcelExporter } from './excel/exporter';
+import { FileEnricher } from './excel/enricher';
 import { LinkedInService } from './linkedin-api';
 import { AIProfileExtractor } from './ai-profile-extractor';
 import { JobSimulator } from './job-simulator';
 import { JobQueue } from './job-queue';
+import { LinkedInTokenManager } from './linkedin-token-manager';
+import { RetryScheduler } from './retry-scheduler';
+import { WatchlistScheduler } from './watchlist-scheduler';
+import { JobEventBus } from './job-event-bus';
+import { WebhookDispatcher } from './webhook-dispatcher';
+import { ProfileProviderRegistry } from './profile-providers/registry';
+import { LinkedInProfileProvider } from './profile-providers/linkedin-provider';
+import { AIProfileProvider } from './profile-providers/ai-provider';
+import { MockProfileProvider } from './profile-providers/mock-provider';
 
 interface Services {
   storage: typeof storage;
   excelParser: ExcelParser;
   excelExporter: ExcelExporter;
+  fileEnricher: FileEnricher;
   linkedinService: LinkedInService;
   aiProfileExtractor: AIProfileExtractor;
   jobSimulator: JobSimulator;
+  profileProviders: ProfileProviderRegistry;
+  linkedinTokenManager: LinkedInTokenManager;
+  jobEvents: JobEventBus;
+  webhooks: WebhookDispatcher;
   jobQueue: JobQueue;
+  retryScheduler: RetryScheduler;
+  watchlistScheduler: WatchlistScheduler;
 }
 
 class DependencyContainer {
@@ -37,12 +54,19 @@ class DependencyContainer {
     this.register('storage', storage);
     this.register('excelParser', new ExcelParser());
     this.register('excelExporter', new ExcelExporter());
+    this.register('fileEnricher', new FileEnricher(this.get('excelParser')));
     
     // These will be updated to use dependency injection
     this.register('linkedinService', this.createLinkedInService());
     this.register('aiProfileExtractor', this.createAIProfileExtractor());
     this.register('jobSimulator', this.createJobSimulator());
+    this.register('profileProviders', this.createProfileProviders());
+    this.register('linkedinTokenManager', this.createLinkedInTokenManager());
+    this.register('jobEvents', new JobEventBus());
+    this.register('webhooks', new WebhookDispatcher(storage));
     this.register('jobQueue', this.createJobQueue());
+    this.register('retryScheduler', this.createRetryScheduler());
+    this.register('watchlistScheduler', this.createWatchlistScheduler());
   }
 
   private createLinkedInService(): LinkedInService {
@@ -61,23 +85,76 @@ class DependencyContainer {
     return service;
   }
 
+  private createProfileProviders(): ProfileProviderRegistry {
+    const linkedinService = this.services.linkedinService;
+    const aiExtractorService = this.services.aiProfileExtractor;
+
+    if (!linkedinService || !aiExtractorService) {
+      throw new Error('Required services not registered before profile providers creation');
+    }
+
+    const registry = new ProfileProviderRegistry();
+    registry.register(new LinkedInProfileProvider(linkedinService));
+    registry.register(new AIProfileProvider(aiExtractorService));
+    registry.register(new MockProfileProvider());
+    return registry;
+  }
+
+  private createLinkedInTokenManager(): LinkedInTokenManager {
+    const storageService = this.services.storage;
+    const linkedinService = this.services.linkedinService;
+
+    if (!storageService || !linkedinService) {
+      throw new Error('Required services not registered before LinkedInTokenManager creation');
+    }
+
+    return new LinkedInTokenManager(storageService, linkedinService);
+  }
+
   private createJobQueue(): JobQueue {
     // Avoid circular dependency by getting services that are already registered
     const storageService = this.services.storage;
     const excelParserService = this.services.excelParser;
-    const aiExtractorService = this.services.aiProfileExtractor;
+    const profileProviders = this.services.profileProviders;
+    const tokenManager = this.services.linkedinTokenManager;
+    const jobEvents = this.services.jobEvents;
+    const webhooks = this.services.webhooks;
     
-    if (!storageService || !excelParserService || !aiExtractorService) {
+    if (!storageService || !excelParserService || !profileProviders || !tokenManager || !jobEvents || !webhooks) {
       throw new Error('Required services not registered before JobQueue creation');
     }
     
     const service = new JobQueue(
       storageService,
       excelParserService,
-      aiExtractorService
+      profileProviders,
+      tokenManager,
+      jobEvents,
+      webhooks
     );
     return service;
   }
+
+  private createRetryScheduler(): RetryScheduler {
+    const jobQueueService = this.services.jobQueue;
+
+    if (!jobQueueService) {
+      throw new Error('JobQueue not registered before RetryScheduler creation');
+    }
+
+    return new RetryScheduler(jobQueueService);
+  }
+
+  private createWatchlistScheduler(): WatchlistScheduler {
+    const storageService = this.services.storage;
+    const jobQueueService = this.services.jobQueue;
+
+    if (!storageService || !jobQueueService) {
+      throw new Error('Required services not registered before WatchlistScheduler creation');
+    }
+
+    return new WatchlistScheduler(storageService, jobQueueService);
+  }
 }
 
 export const container = new DependencyContainer();
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../../storage';
+import { enrichableFileExtensions, type Job } from '@shared/schema';
+import { columnLetter, type ColumnMapping } from '@shared/column-mapping';
+import { exportColumnHeader, type ExportLayout } from '@shared/export-layout';
+import { NotFoundError, ValidationError } from '../../types/errors';
+import { DelimitedTextReader } from '../file-readers/delimited-text-reader';
+import { decodeText } from '../file-readers/text-decoding';
+import type { ExcelParser } from './parser';
+import { profileCells, safeCellText } from './exporter';
+import { cellXml, type CellValue } from './xlsx-stream';
+import { XlsxPackage } from './xlsx-package';
+
+function isBlank(value: CellValue): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function hasByteOrderMark(buffer: Buffer): boolean {
+  return [[0xef, 0xbb, 0xbf], [0xff, 0xfe], [0xfe, 0xff]].some(bom => bom.every((byte, index) => buffer[index] === byte));
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of Array.from(source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+    attributes[name] = unescapeXml(doubleQuoted ?? singleQuoted);
+  }
+  return attributes;
+}
+
+/**
+ * Adds cells to rows of a worksheet's XML, from column `firstColumn`
+ * (0-based) on. Keys of `rows` count from `firstRow`, the sheet row (1-based)
+ * of index 0; rows that don't exist yet are created. Everything else in the
+ * worksheet is left as it was.
+ */
+function appendColumns(xml: string, firstRow: number, firstColumn: number, rows: Map<number, CellValue[]>): string {
+  const pending = Array.from(rows, ([index, cells]) => ({ row: firstRow + index, cells })).sort((a, b) => a.row - b.row);
+  const width = Math.max(...pending.map(entry => entry.cells.length));
+  const prefix = /<(\w+:)?sheetData\b/.exec(xml)?.[1] ?? '';
+
+  const cellsXml = (row: number, cells: CellValue[]) => cells
+    .map((value, index) => isBlank(value) ? '' : cellXml(value, `${columnLetter(firstColumn + index)}${row}`, prefix))
+    .join('');
+  const newRowXml = ({ row, cells }: { row: number; cells: CellValue[] }) =>
+    `<${prefix}row r="${row}">${cellsXml(row, cells)}</${prefix}row>`;
+
+  let next = 0;
+  let lastRow = 0;
+  let result = xml.replace(/<((?:\w+:)?)row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1row>)/g, (match, rowPrefix: string, attributes: string, content?: string) => {
+    const rowNumber = Number(/\br="(\d+)"/.exec(attributes)?.[1] ?? lastRow + 1);
+    lastRow = rowNumber;
+
+    let before = '';
+    while (next < pending.length && pending[next].row < rowNumber) {
+      before += newRowXml(pending[next++]);
+    }
+    if (next < pending.length && pending[next].row === rowNumber) {
+      // spans is an optional hint that would no longer cover the row
+      const kept = attributes.replace(/\s+spans="[^"]*"/, '');
+      return `${before}<${rowPrefix}row${kept}>${content ?? ''}${cellsXml(rowNumber, pending[next++].cells)}</${rowPrefix}row>`;
+    }
+    return before + match;
+  });
+
+  const remaining = pending.slice(next).map(newRowXml).join('');
+  if (remaining) {
+    result = result.replace(new RegExp(`<${prefix}sheetData\\s*/>|</${prefix}sheetData>`), end =>
+      end.endsWith('/>') ? `<${prefix}sheetData>${remaining}</${prefix}sheetData>` : remaining + end
+    );
+  }
+
+  const lastColumn = columnLetter(firstColumn + width - 1);
+  return result.replace(/(<(?:\w+:)?dimension\b[^>]*?\bref=")([A-Z]+(\d+))(?::[A-Z]+(\d+))?"/, (_, start, topLeft, topRow, bottomRow) =>
+    `${start}${topLeft}:${lastColumn}${Math.max(Number(bottomRow ?? topRow), pending[pending.length - 1].row)}"`
+  );
+}
+
+/**
+ * Writes a job's results back into the file it was uploaded as. The layout's
+ * columns are added to the right of the sheet's used range, on every row that
+ * lists one of the job's profiles (repeats included), with their headers on
+ * the mapped header row. In .xlsx files only that worksheet is rewritten;
+ * other sheets, styles and the rest of the package are copied unchanged.
+ * CSV/TSV files keep their delimiter and line endings and are saved as UTF-8.
+ */
+export class FileEnricher {
+  private delimitedReader = new DelimitedTextReader();
+
+  constructor(private parser: ExcelParser) {}
+
+  async enrich(job: Job, layout: ExportLayout): Promise<Buffer> {
+    const extension = path.extname(job.fileName).toLowerCase();
+    if (!(enrichableFileExtensions as readonly string[]).includes(extension)) {
+      throw new ValidationError(`Results can only be written into ${enrichableFileExtensions.join(', ')} files`);
+    }
+    if (!job.filePath || !fs.existsSync(job.filePath)) {
+      throw new NotFoundError('Original file');
+    }
+
+    const mapping = job.columnMapping as ColumnMapping | null;
+    const { sheetName, urls } = await this.parser.locateLinkedInUrls(job.filePath, job.fileName, mapping);
+    const profiles = await storage.getProfilesByJob(job.id);
+    const byCanonicalId = new Map(profiles.filter(p => p.canonicalId).map(p => [p.canonicalId!, p]));
+    const bySourceRow = new Map(profiles.filter(p => p.sourceRow !== null).map(p => [p.sourceRow!, p]));
+
+    // A row listing several profiles shows the first one
+    const rows = new Map<number, CellValue[]>();
+    for (const url of urls) {
+      const profile = byCanonicalId.get(url.canonicalId) ?? bySourceRow.get(url.rowIndex);
+      if (profile && !rows.has(url.rowIndex)) {
+        rows.set(url.rowIndex, profileCells(profile, layout));
+      }
+    }
+    if (mapping && mapping.headerRow !== null) {
+      rows.set(mapping.headerRow, layout.columns.map(exportColumnHeader));
+    }
+    if (rows.size === 0) {
+      throw new ValidationError('None of the job\'s profiles were found in the original file');
+    }
+
+    const original = await fs.promises.readFile(job.filePath);
+    return extension === '.xlsx'
+      ? this.enrichWorkbook(original, sheetName, rows)
+      : this.enrichDelimited(original, extension, rows);
+  }
+
+  private async enrichWorkbook(original: Buffer, sheetName: string, rows: Map<number, CellValue[]>): Promise<Buffer> {
+    // Row indexes count from the top of the used range as SheetJS reads it,
+    // and new columns start after its last column
+    const XLSX = await import('xlsx');
+    const ref = XLSX.default.read(original, { sheets: sheetName }).Sheets[sheetName]?.['!ref'];
+    if (!ref) {
+      throw new ValidationError(`Sheet "${sheetName}" is empty`);
+    }
+    const range = XLSX.default.utils.decode_range(ref);
+
+    const workbook = XlsxPackage.read(original);
+    const part = this.worksheetPart(workbook, sheetName);
+    workbook.writeText(part, appendColumns(workbook.readText(part), range.s.r + 1, range.e.c + 1, rows));
+    return workbook.toBuffer();
+  }
+
+  // Follows the workbook's relationship from the sheet name to its part
+  private worksheetPart(workbook: XlsxPackage, sheetName: string): string {
+    const sheet = Array.from(workbook.readText('xl/workbook.xml').matchAll(/<(?:\w+:)?sheet\b([^>]*?)\/?>/g))
+      .map(([, attributes]) => xmlAttributes(attributes))
+      .find(attributes => attributes.name === sheetName);
+    const relationshipId = sheet && Object.entries(sheet).find(([name]) => name.endsWith(':id'))?.[1];
+    const target = Array.from(workbook.readText('xl/_rels/workbook.xml.rels').matchAll(/<(?:\w+:)?Relationship\b([^>]*?)\/?>/g))
+      .map(([, attributes]) => xmlAttributes(attributes))
+      .find(attributes => attributes.Id === relationshipId)?.Target;
+    if (!target) {
+      throw new ValidationError(`Sheet "${sheetName}" not found in workbook`);
+    }
+
+    const part = target.startsWith('/') ? target.slice(1) : path.posix.normalize(`xl/${target}`);
+    if (!workbook.has(part)) {
+      throw new ValidationError(`Sheet "${sheetName}" is not a worksheet`);
+    }
+    return part;
+  }
+
+  private enrichDelimited(original: Buffer, extension: string, rows: Map<number, CellValue[]>): Buffer {
+    const text = decodeText(original);
+    const delimiter = this.delimitedReader.sniffDelimiter(text, extension === '.tsv' ? '\t' : ',');
+    const lines = this.delimitedReader.parse(text, delimiter);
+    const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+    const width = lines.reduce((max, fields) => Math.max(max, fields.length), 0);
+
+    const quote = (field: string) =>
+      field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+    const output = lines.map((fields, index) => {
+      const cells = rows.get(index);
+      if (!cells) {
+        return fields.map(quote).join(delimiter);
+      }
+      const padded = [...fields, ...Array<string>(width - fields.length).fill('')];
+      return [...padded.map(quote), ...cells.map(value => quote(safeCellText(value)))].join(delimiter);
+    });
+
+    // Files that started with a byte order mark get a UTF-8 one, so Excel still reads them as Unicode
+    const hadBom = hasByteOrderMark(original);
+    const trailing = /[\r\n]$/.test(text) ? lineEnding : '';
+    return Buffer.from((hadBom ? '\uFEFF' : '') + output.join(lineEnding) + trailing, 'utf8');
+  }
+}
@@ -0,0 +1,131 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import XLSX from 'xlsx';
+import { profileDataSchema, type ExportQuery } from '@shared/schema';
+import { exportLayoutSchema, type ExportLayout } from '@shared/export-layout';
+import { storage, MemStorage, type JobScope } from '../../storage';
+import { ExcelExporter } from './exporter';
+
+/**
+ * Export layouts pick and name the columns, flatten rows by position or
+ * education, and add extra sheets to workbooks.
+ */
+
+// The exporter reads profiles from the storage singleton, so it runs in memory here
+Object.setPrototypeOf(storage, MemStorage.prototype);
+Object.assign(storage, new MemStorage());
+
+const exporter = new ExcelExporter();
+let scope: JobScope;
+let jobId: number;
+
+before(async () => {
+  const user = await storage.createUser({ username: 'owner', email: 'owner@example.com', password: 'x' });
+  scope = { userId: user.id };
+  const job = await storage.createJob({ userId: user.id, workspaceId: null, fileName: 'profiles.xlsx', filePath: 'uploads/profiles.xlsx', totalProfiles: 3 });
+  jobId = job.id;
+
+  const jane = await storage.createProfile({ jobId: job.id, linkedinUrl: 'https://www.linkedin.com/in/jane', status: 'pending' });
+  await storage.updateProfileStatus(jane.id, 'success', {
+    profileData: profileDataSchema.parse({
+      id: 'jane',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      publicProfileUrl: 'https://www.linkedin.com/in/jane',
+      skills: ['TypeScript', 'Hiring'],
+      positions: [{ title: 'VP Engineering', company: 'Globex' }, { title: 'Engineer', company: 'Acme' }],
+      education: [{ school: 'TU Berlin', degree: 'MSc' }],
+    }),
+  });
+
+  const max = await storage.createProfile({ jobId: job.id, linkedinUrl: 'https://www.linkedin.com/in/max', status: 'pending' });
+  await storage.updateProfileStatus(max.id, 'success', {
+    profileData: profileDataSchema.parse({ id: 'max', firstName: 'Max', publicProfileUrl: 'https://www.linkedin.com/in/max' }),
+  });
+
+  const gone = await storage.createProfile({ jobId: job.id, linkedinUrl: 'https://www.linkedin.com/in/gone', status: 'pending' });
+  await storage.updateProfileStatus(gone.id, 'failed', { errorType: 'not_found', errorMessage: 'LinkedIn profile not found' });
+});
+
+async function exportFile(format: ExportQuery['format'], layout: ExportLayout): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  await exporter.streamResults(scope, 'all', { format }, output, layout);
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+// The test values hold no commas or quotes, so lines split on commas
+async function csvRows(layout: Partial<ExportLayout>): Promise<string[][]> {
+  const text = (await exportFile('csv', exportLayoutSchema.parse(layout))).toString('utf8');
+  return text.replace(/^\uFEFF/, '').trimEnd().split('\r\n').map(line => line.split(','));
+}
+
+describe('export layouts', () => {
+  it('writes the chosen columns with their headers, one row per profile', async () => {
+    assert.deepEqual(await csvRows({
+      columns: [{ field: 'fullName', header: 'Name' }, { field: 'currentCompany' }, { field: 'skills' }, { field: 'errorType' }],
+      listSeparator: ' | ',
+    }), [
+      ['Name', 'Current Company', 'Skills', 'Error Type'],
+      ['Jane Doe', 'Globex', 'TypeScript | Hiring', ''],
+      ['Max', '', '', ''],
+      ['', '', '', 'not_found'],
+    ]);
+  });
+
+  it('writes a row per position, keeping profiles without positions', async () => {
+    assert.deepEqual(await csvRows({
+      columns: [{ field: 'firstName' }, { field: 'positionTitle' }, { field: 'positionCompany' }, { field: 'educationSchool' }],
+      rowPer: 'position',
+    }), [
+      ['First Name', 'Position Title', 'Position Company', 'School'],
+      ['Jane', 'VP Engineering', 'Globex', 'TU Berlin'],
+      ['Jane', 'Engineer', 'Acme', 'TU Berlin'],
+      ['Max', '', '', ''],
+      ['', '', '', ''],
+    ]);
+  });
+
+  it('writes a row per education entry with the latest position', async () => {
+    assert.deepEqual(await csvRows({
+      columns: [{ field: 'firstName' }, { field: 'educationDegree' }, { field: 'positionTitle' }],
+      rowPer: 'education',
+    }), [
+      ['First Name', 'Degree', 'Position Title'],
+      ['Jane', 'MSc', 'VP Engineering'],
+      ['Max', '', ''],
+      ['', '', ''],
+    ]);
+  });
+
+  it('adds the extra sheets to workbooks after the main one', async () => {
+    const workbook = XLSX.read(await exportFile('xlsx', exportLayoutSchema.parse({
+      columns: [{ field: 'linkedinUrl' }],
+      sheets: ['summary', 'errors', 'positions'],
+    })));
+    const rowsOf = (sheet: string) => XLSX.utils.sheet_to_json(workbook.Sheets[sheet], { header: 1 }) as unknown[][];
+
+    assert.deepEqual(workbook.SheetNames, ['Profiles', 'Positions', 'Errors', 'Summary']);
+    assert.equal(rowsOf('Profiles').length, 4);
+    assert.deepEqual(rowsOf('Positions').map(row => row.slice(1, 4)), [
+      ['Full Name', 'Position Title', 'Position Company'],
+      ['Jane Doe', 'VP Engineering', 'Globex'],
+      ['Jane Doe', 'Engineer', 'Acme'],
+    ]);
+    assert.deepEqual(rowsOf('Errors').map(row => row.slice(0, 4)), [
+      ['LinkedIn URL', 'Job ID', 'Status', 'Error Type'],
+      ['https://www.linkedin.com/in/gone', jobId, 'failed', 'not_found'],
+    ]);
+    assert.deepEqual(rowsOf('Summary'), [
+      ['Metric', 'Value'],
+      ['Profiles', 3],
+      ['From Cache', 0],
+      ['Status: success', 2],
+      ['Status: failed', 1],
+      ['Error: not_found', 1],
+    ]);
+  });
+});
@@ -1,137 +1,349 @@
 import fs from 'fs';
 import path from 'path';
-import { storage } from '../../storage';
-import type { ProcessedProfile } from '@shared/schema';
+import type { Writable } from 'stream';
+import { storage, type JobScope, type ProfilePageQuery } from '../../storage';
+import type {
+  ExportFormat, ExportQuery, ExportType, Profile, ProfileEducation, ProfileExportFormat, ProfilePosition, ProfileStatus,
+} from '@shared/schema';
+import { mappedFieldNames, MAPPED_FIELD_LABELS, type MappedFieldName } from '@shared/column-mapping';
+import {
+  DEFAULT_EXPORT_LAYOUT, EXPORT_SHEET_LABELS, exportColumnHeader, exportSheetNames,
+  type ExportFieldName, type ExportLayout, type ExportSheetName,
+} from '@shared/export-layout';
 import { AppError } from '../../types/errors';
+import { XlsxStreamWriter, type CellValue } from './xlsx-stream';
+import { writeChunk, ZipStreamWriter } from './zip-stream';
+import { PROFILE_EXPORT_FORMATS, profileFileName, type ExtractedProfile } from '../profile-formats';
 
-export class ExcelExporter {
-  async exportResults(userId: number, type: 'successful' | 'failed' | 'all'): Promise<Buffer> {
-    try {
-      const jobs = await storage.getJobsByUser(userId);
-      let profiles: any[] = [];
+// Columns mapped in the upload wizard, carried over from the uploaded row
+export function sourceColumns(sourceData: unknown): Record<string, string> {
+  const data = (sourceData || {}) as Record<string, unknown>;
+  const columns: Record<string, string> = {};
+  for (const field of mappedFieldNames) {
+    if (data[field] !== undefined) {
+      columns[`Source ${MAPPED_FIELD_LABELS[field]}`] = String(data[field]);
+    }
+  }
+  return columns;
+}
 
-      for (const job of jobs) {
-        const jobProfiles = await storage.getProfilesByJob(job.id);
-        profiles.push(...jobProfiles);
-      }
+const EXPORT_PAGE_SIZE = 500;
 
-      // Filter based on type
-      switch (type) {
-        case 'successful':
-          profiles = profiles.filter(p => p.status === 'success');
-          break;
-        case 'failed':
-          profiles = profiles.filter(p => p.status === 'failed');
-          break;
-      }
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
 
-      const XLSX = await import('xlsx');
-      const worksheet = XLSX.default.utils.json_to_sheet(
-        profiles.map(p => ({
-          'LinkedIn URL': p.linkedinUrl,
-          'Status': p.status,
-          'First Name': p.profileData?.firstName || '',
-          'Last Name': p.profileData?.lastName || '',
-          'Headline': p.profileData?.headline || '',
-          'Location': p.profileData?.location || '',
-          'Industry': p.profileData?.industry || '',
-          'Error Type': p.errorType || '',
-          'Error Message': p.errorMessage || '',
-          'Retry Count': p.retryCount || 0,
-          'Last Attempt': p.lastAttempt || '',
-          'Extracted At': p.extractedAt || '',
-        }))
-      );
+// The profiles an export covers
+type ProfileFilter = Omit<ProfilePageQuery, 'afterId' | 'limit'>;
 
-      const workbook = XLSX.default.utils.book_new();
-      XLSX.default.utils.book_append_sheet(workbook, worksheet, 'Profiles');
+// A profile with the position and education entry its row shows
+interface LayoutRow {
+  profile: Profile;
+  position?: ProfilePosition;
+  education?: ProfileEducation;
+}
 
-      return XLSX.default.write(workbook, { type: 'buffer', bookType: 'xlsx' });
-    } catch (error) {
-      throw new AppError(`Failed to export results: ${error instanceof Error ? error.message : 'Unknown error'}`);
+function isoDate(value: Date | null): string {
+  return value ? value.toISOString() : '';
+}
+
+function sourceValue(profile: Profile, field: MappedFieldName): CellValue {
+  const data = profile.sourceData as Record<string, unknown> | null;
+  return data?.[field] === undefined ? undefined : String(data[field]);
+}
+
+const FIELD_VALUES: Record<ExportFieldName, (row: LayoutRow, layout: ExportLayout) => CellValue> = {
+  linkedinUrl: ({ profile }) => profile.linkedinUrl,
+  jobId: ({ profile }) => profile.jobId,
+  status: ({ profile }) => profile.status,
+  cacheHit: ({ profile }) => profile.cacheHit ? 'Yes' : 'No',
+  sourceRow: ({ profile }) => profile.sourceRow,
+  sourceName: ({ profile }) => sourceValue(profile, 'name'),
+  sourceCompany: ({ profile }) => sourceValue(profile, 'company'),
+  sourceEmail: ({ profile }) => sourceValue(profile, 'email'),
+  firstName: ({ profile }) => profile.profileData?.firstName,
+  lastName: ({ profile }) => profile.profileData?.lastName,
+  fullName: ({ profile }) => [profile.profileData?.firstName, profile.profileData?.lastName].filter(Boolean).join(' '),
+  headline: ({ profile }) => profile.profileData?.headline,
+  summary: ({ profile }) => profile.profileData?.summary,
+  location: ({ profile }) => profile.profileData?.location,
+  industry: ({ profile }) => profile.profileData?.industry,
+  currentPosition: ({ profile }) => profile.profileData?.currentPosition || profile.profileData?.positions[0]?.title,
+  currentCompany: ({ profile }) => profile.profileData?.currentCompany || profile.profileData?.positions[0]?.company,
+  email: ({ profile }) => profile.profileData?.email,
+  phone: ({ profile }) => profile.profileData?.phone,
+  connections: ({ profile }) => profile.profileData?.connections,
+  skills: ({ profile }, layout) => profile.profileData?.skills.join(layout.listSeparator),
+  positionCount: ({ profile }) => profile.profileData?.positions.length,
+  positionTitle: ({ position }) => position?.title,
+  positionCompany: ({ position }) => position?.company,
+  positionStartDate: ({ position }) => position?.startDate,
+  positionEndDate: ({ position }) => position?.endDate,
+  positionDescription: ({ position }) => position?.description,
+  educationSchool: ({ education }) => education?.school,
+  educationDegree: ({ education }) => education?.degree,
+  educationFieldOfStudy: ({ education }) => education?.fieldOfStudy,
+  educationStartDate: ({ education }) => education?.startDate,
+  educationEndDate: ({ education }) => education?.endDate,
+  errorType: ({ profile }) => profile.errorType,
+  errorMessage: ({ profile }) => profile.errorMessage,
+  retryCount: ({ profile }) => profile.retryCount || 0,
+  lastAttempt: ({ profile }) => isoDate(profile.lastAttempt),
+  extractedAt: ({ profile }) => isoDate(profile.extractedAt),
+};
+
+// Rows flattened by position or education repeat the profile columns; other
+// rows show the latest position and the first education entry
+function layoutRows(profile: Profile, layout: ExportLayout): LayoutRow[] {
+  const positions = profile.profileData?.positions ?? [];
+  const education = profile.profileData?.education ?? [];
+  if (layout.rowPer === 'position' && positions.length > 0) {
+    return positions.map(position => ({ profile, position, education: education[0] }));
+  }
+  if (layout.rowPer === 'education' && education.length > 0) {
+    return education.map(entry => ({ profile, position: positions[0], education: entry }));
+  }
+  return [{ profile, position: positions[0], education: education[0] }];
+}
+
+function layoutCells(row: LayoutRow, layout: ExportLayout): CellValue[] {
+  return layout.columns.map(column => FIELD_VALUES[column.field](row, layout));
+}
+
+// A profile's cells on a single row, whatever the layout's row mode
+export function profileCells(profile: Profile, layout: ExportLayout): CellValue[] {
+  return layoutCells(layoutRows(profile, { ...layout, rowPer: 'profile' })[0], layout);
+}
+
+function fixedLayout(rowPer: ExportLayout['rowPer'], fields: ExportFieldName[]): ExportLayout {
+  return { columns: fields.map(field => ({ field })), rowPer, listSeparator: '; ', sheets: [] };
+}
+
+// Extra XLSX sheets other than the summary, and the profiles each one lists
+const EXTRA_SHEETS: Record<Exclude<ExportSheetName, 'summary'>, { layout: ExportLayout; includes: (profile: Profile) => boolean }> = {
+  positions: {
+    layout: fixedLayout('position', ['linkedinUrl', 'fullName', 'positionTitle', 'positionCompany', 'positionStartDate', 'positionEndDate', 'positionDescription']),
+    includes: profile => (profile.profileData?.positions.length ?? 0) > 0,
+  },
+  education: {
+    layout: fixedLayout('education', ['linkedinUrl', 'fullName', 'educationSchool', 'educationDegree', 'educationFieldOfStudy', 'educationStartDate', 'educationEndDate']),
+    includes: profile => (profile.profileData?.education.length ?? 0) > 0,
+  },
+  errors: {
+    layout: fixedLayout('profile', ['linkedinUrl', 'jobId', 'status', 'errorType', 'errorMessage', 'retryCount', 'lastAttempt']),
+    includes: profile => profile.status === 'failed' || Boolean(profile.errorType),
+  },
+};
+
+// Text for a delimited file; values that spreadsheet apps would run as formulas are prefixed with '
+export function safeCellText(value: CellValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+function csvCell(value: CellValue): string {
+  const text = safeCellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: CellValue[]): string {
+  return values.map(csvCell).join(',') + '\r\n';
+}
+
+export class ExcelExporter {
+  /**
+   * Streams the profiles of the jobs in scope to `output`, reading them a page
+   * at a time, so memory use doesn't grow with the size of the account. The
+   * layout shapes XLSX and CSV files; NDJSON always holds full records.
+   * Returns the number of profiles written.
+   */
+  async streamResults(
+    scope: JobScope,
+    type: ExportType,
+    query: ExportQuery,
+    output: Writable,
+    layout: ExportLayout = DEFAULT_EXPORT_LAYOUT
+  ): Promise<number> {
+    const scopeJobIds = (await storage.getJobsByScope(scope)).map(job => job.id);
+    const jobIds = query.jobIds ? scopeJobIds.filter(id => query.jobIds!.includes(id)) : scopeJobIds;
+
+    const typeStatus = type === 'successful' ? 'success' : type === 'failed' ? 'failed' : undefined;
+    const statuses = typeStatus
+      ? [typeStatus].filter(status => !query.status || query.status.includes(status as ProfileStatus))
+      : query.status;
+
+    const filter: ProfileFilter = { jobIds, statuses, errorTypes: query.errorType, from: query.from, to: query.to };
+    switch (query.format) {
+      case 'csv':
+        return this.writeCsv(filter, layout, output);
+      case 'ndjson':
+        return this.writeNdjson(filter, output);
+      case 'xlsx':
+        return this.writeWorkbook(filter, layout, output);
     }
   }
 
-  async saveJobResults(jobId: number, processedProfiles: ProcessedProfile[]): Promise<string> {
+  // Writes the results workbook kept with a finished job, in the default layout
+  async saveJobResults(jobId: number): Promise<string> {
     try {
       const job = await storage.getJob(jobId);
       if (!job) {
         throw new AppError('Job not found', 404);
       }
 
-      const XLSX = await import('xlsx');
-      
-      // Transform profiles to spreadsheet format
-      const data = processedProfiles.map((profile, index) => {
-        const row: any = {
-          'Row #': index + 1,
-          'LinkedIn URL': profile.url,
-          'Status': profile.status,
-        };
-
-        if (profile.status === 'success' && profile.data) {
-          row['First Name'] = profile.data.firstName || '';
-          row['Last Name'] = profile.data.lastName || '';
-          row['Headline'] = profile.data.headline || '';
-          row['Location'] = profile.data.location || '';
-          row['Industry'] = profile.data.industry || '';
-          row['Current Position'] = profile.data.currentPosition || '';
-          row['Current Company'] = profile.data.currentCompany || '';
-          row['Summary'] = profile.data.summary || '';
-          
-          // Skills as comma-separated list
-          if (profile.data.skills && Array.isArray(profile.data.skills)) {
-            row['Skills'] = profile.data.skills.join(', ');
-          }
-          
-          // Experience summary
-          if (profile.data.experience && profile.data.experience.length > 0) {
-            row['Years of Experience'] = profile.data.experience.length;
-            row['Latest Position'] = profile.data.experience[0]?.title || '';
-            row['Latest Company'] = profile.data.experience[0]?.company || '';
-          }
-          
-          // Education summary
-          if (profile.data.education && profile.data.education.length > 0) {
-            row['Highest Education'] = profile.data.education[0]?.degree || '';
-            row['School'] = profile.data.education[0]?.school || '';
-            row['Field of Study'] = profile.data.education[0]?.field || '';
-          }
-        } else if (profile.status === 'failed' || profile.status === 'retrying') {
-          row['Error Type'] = profile.errorType || 'Unknown';
-          row['Error Message'] = profile.error || 'Failed to extract profile';
-          row['Retry Count'] = profile.retryCount || 0;
-          row['Status'] = profile.status;
-        }
-
-        return row;
-      });
-
-      // Create worksheet and workbook
-      const worksheet = XLSX.default.utils.json_to_sheet(data);
-      const workbook = XLSX.default.utils.book_new();
-      
-      // Auto-size columns
-      const keys = Object.keys(data[0] || {});
-      const colWidths = keys.map(key => ({
-        wch: Math.max(key.length, 15)
-      }));
-      worksheet['!cols'] = colWidths;
-
-      XLSX.default.utils.book_append_sheet(workbook, worksheet, 'Results');
-
-      // Save to file
       const resultsDir = 'results';
       if (!fs.existsSync(resultsDir)) {
         fs.mkdirSync(resultsDir, { recursive: true });
       }
 
       const resultPath = path.join(resultsDir, `job_${jobId}_results.xlsx`);
-      XLSX.default.writeFile(workbook, resultPath);
+      const file = fs.createWriteStream(resultPath);
+      const closed = new Promise<void>((resolve, reject) => {
+        file.on('finish', resolve);
+        file.on('error', reject);
+      });
+      await Promise.all([
+        this.writeWorkbook({ jobIds: [jobId] }, DEFAULT_EXPORT_LAYOUT, file).finally(() => file.end()),
+        closed,
+      ]);
 
       return resultPath;
     } catch (error) {
       throw new AppError(`Failed to save job results: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Streams a ZIP with one JSON Resume or vCard file per successful profile of
+   * the job. Profiles found at more than one URL in the upload share a slug;
+   * repeats get the profile id appended. Returns the number of files written.
+   */
+  async streamProfileArchive(jobId: number, format: ProfileExportFormat, output: Writable): Promise<number> {
+    const zip = new ZipStreamWriter(output);
+    const names = new Set<string>();
+    await this.forEachProfile({ jobIds: [jobId], statuses: ['success'] }, async profile => {
+      if (!profile.profileData) return true;
+      const extracted = profile as ExtractedProfile;
+
+      let name = profileFileName(extracted, format);
+      if (names.has(name)) {
+        name = name.replace(/(\.\w+)$/, `_${profile.id}$1`);
+      }
+      names.add(name);
+      await zip.addEntry(name, PROFILE_EXPORT_FORMATS[format].serialize(extracted));
+      return true;
+    });
+    await zip.finish();
+    return names.size;
+  }
+
+  private async writeCsv(filter: ProfileFilter, layout: ExportLayout, output: Writable): Promise<number> {
+    // The BOM makes Excel read the file as UTF-8
+    await writeChunk(output, '\uFEFF' + csvLine(layout.columns.map(exportColumnHeader)));
+
+    let written = 0;
+    await this.forEachProfile(filter, async profile => {
+      await writeChunk(output, layoutRows(profile, layout).map(row => csvLine(layoutCells(row, layout))).join(''));
+      written++;
+      return true;
+    });
+    return written;
+  }
+
+  // Full records, with profileData and sourceData as nested objects
+  private async writeNdjson(filter: ProfileFilter, output: Writable): Promise<number> {
+    let written = 0;
+    await this.forEachProfile(filter, async ({ id, jobId, linkedinUrl, canonicalId, status, cacheHit, sourceRow, sourceData, profileData, errorType, errorMessage, retryCount, lastAttempt, extractedAt }) => {
+      await writeChunk(output, JSON.stringify({
+        id, jobId, linkedinUrl, canonicalId, status, cacheHit, sourceRow, sourceData, profileData,
+        errorType, errorMessage, retryCount, lastAttempt, extractedAt,
+      }) + '\n');
+      written++;
+      return true;
+    });
+    return written;
+  }
+
+  // The main sheet, then the layout's extra sheets, each read in its own pass
+  private async writeWorkbook(filter: ProfileFilter, layout: ExportLayout, output: Writable): Promise<number> {
+    const workbook = new XlsxStreamWriter(output);
+    await workbook.addSheet('Profiles', layout.columns.map(exportColumnHeader));
+
+    let written = 0;
+    await this.forEachProfile(filter, async profile => {
+      if (!await this.addLayoutRows(workbook, profile, layout)) {
+        return false;
+      }
+      written++;
+      return true;
+    });
+
+    for (const name of exportSheetNames.filter(name => layout.sheets.includes(name))) {
+      if (name === 'summary') {
+        await this.writeSummarySheet(workbook, filter);
+        continue;
+      }
+      const sheet = EXTRA_SHEETS[name];
+      await workbook.addSheet(EXPORT_SHEET_LABELS[name], sheet.layout.columns.map(exportColumnHeader));
+      await this.forEachProfile(filter, profile =>
+        sheet.includes(profile) ? this.addLayoutRows(workbook, profile, sheet.layout) : Promise.resolve(true)
+      );
+    }
+
+    await workbook.finish();
+    return written;
+  }
+
+  // False once the sheet is full
+  private async addLayoutRows(workbook: XlsxStreamWriter, profile: Profile, layout: ExportLayout): Promise<boolean> {
+    for (const row of layoutRows(profile, layout)) {
+      if (!await workbook.addRow(layoutCells(row, layout))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async writeSummarySheet(workbook: XlsxStreamWriter, filter: ProfileFilter): Promise<void> {
+    let total = 0;
+    let cacheHits = 0;
+    const statuses = new Map<string, number>();
+    const errorTypes = new Map<string, number>();
+    await this.forEachProfile(filter, async profile => {
+      total++;
+      if (profile.cacheHit) cacheHits++;
+      statuses.set(profile.status, (statuses.get(profile.status) ?? 0) + 1);
+      if (profile.errorType) {
+        errorTypes.set(profile.errorType, (errorTypes.get(profile.errorType) ?? 0) + 1);
+      }
+      return true;
+    });
+
+    await workbook.addSheet(EXPORT_SHEET_LABELS.summary, ['Metric', 'Value']);
+    const rows: CellValue[][] = [
+      ['Profiles', total],
+      ['From Cache', cacheHits],
+      ...Array.from(statuses, ([status, count]) => [`Status: ${status}`, count]),
+      ...Array.from(errorTypes, ([errorType, count]) => [`Error: ${errorType}`, count]),
+    ];
+    for (const row of rows) {
+      await workbook.addRow(row);
+    }
+  }
+
+  // Visits the matching profiles a page at a time, until visit returns false
+  private async forEachProfile(filter: ProfileFilter, visit: (profile: Profile) => Promise<boolean>): Promise<void> {
+    let afterId = 0;
+    while (true) {
+      const page = await storage.getProfilesPage({ ...filter, afterId, limit: EXPORT_PAGE_SIZE });
+      if (page.length === 0) return;
+
+      for (const profile of page) {
+        if (!await visit(profile)) return;
+      }
+      afterId = page[page.length - 1].id;
+    }
+  }
+}
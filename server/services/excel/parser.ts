@@ -1,74 +1,273 @@
 import fs from 'fs';
+import path from 'path';
 import type { LinkedInUrl } from '@shared/schema';
+import {
+  getColumnKeys,
+  mappedFieldNames,
+  type ColumnMapping,
+  type UploadPreview,
+  type UploadPreviewSheet,
+} from '@shared/column-mapping';
+import { normalizeLinkedInUrl } from '@shared/linkedin-url';
 import { CONFIG } from '../../config/constants';
+import { ValidationError } from '../../types/errors';
+import type { SheetRows, UploadFileReader } from '../file-readers/types';
+import { SpreadsheetReader } from '../file-readers/spreadsheet-reader';
+import { DelimitedTextReader } from '../file-readers/delimited-text-reader';
+import { UrlListReader } from '../file-readers/url-list-reader';
 
+const PREVIEW_ROWS = 10;
+
+// Header text that suggests which column holds a mapped field
+const FIELD_HEADER_PATTERNS: Record<(typeof mappedFieldNames)[number], RegExp> = {
+  name: /^(full[\s_-]?)?name$|candidate|contact/i,
+  company: /company|employer|organi[sz]ation|account/i,
+  email: /e-?mail/i,
+};
+
+/**
+ * Reads LinkedIn URLs from any supported upload: spreadsheets, CSV/TSV and
+ * plain-text URL lists. Uploads are stored without their extension, so the
+ * original file name decides which reader is used.
+ */
 export class ExcelParser {
-  async parseLinkedInUrls(filePath: string): Promise<LinkedInUrl[]> {
-    try {
-      const XLSX = await import('xlsx');
-      const workbook = XLSX.default.readFile(filePath);
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      const data = XLSX.default.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-
-      const linkedinUrls: LinkedInUrl[] = [];
-      const linkedinPattern = /linkedin\.com\/(in|pub)\//i;
-
-      // Find columns that contain LinkedIn URLs
-      for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-        const row = data[rowIndex];
-        
-        for (let colIndex = 0; colIndex < row.length; colIndex++) {
-          const cellValue = row[colIndex];
-          
-          if (typeof cellValue === 'string' && linkedinPattern.test(cellValue)) {
-            // Extract additional data from the same row
-            const additionalData: Record<string, any> = {};
-            row.forEach((cell, idx) => {
-              if (idx !== colIndex && cell) {
-                additionalData[`column_${idx}`] = cell;
-              }
-            });
-
-            linkedinUrls.push({
-              url: cellValue.trim(),
-              rowIndex,
-              additionalData,
-            });
-          }
-        }
-      }
+  private readers: UploadFileReader[] = [
+    new SpreadsheetReader(),
+    new DelimitedTextReader(),
+    new UrlListReader(),
+  ];
+
+  /**
+   * Without a mapping every cell of the first sheet is scanned for LinkedIn
+   * URLs. With one, URLs are read from the mapped column of the chosen sheet
+   * and the row's other cells are kept under their mapped field or column name.
+   *
+   * URLs are normalized, and a profile listed more than once is only returned
+   * for its first row.
+   */
+  async parseLinkedInUrls(filePath: string, fileName: string = filePath, mapping?: ColumnMapping | null): Promise<LinkedInUrl[]> {
+    const { urls } = await this.locateLinkedInUrls(filePath, fileName, mapping);
+
+    const seen = new Set<string>();
+    return urls.filter(({ canonicalId }) => {
+      if (seen.has(canonicalId)) return false;
+      seen.add(canonicalId);
+      return true;
+    });
+  }
 
-      return linkedinUrls;
+  /**
+   * Every row holding a LinkedIn URL, repeated profiles included, and the
+   * sheet they were read from. `rowIndex` counts from the first row of the
+   * sheet's used range.
+   */
+  async locateLinkedInUrls(
+    filePath: string,
+    fileName: string,
+    mapping?: ColumnMapping | null
+  ): Promise<{ sheetName: string; urls: LinkedInUrl[] }> {
+    let sheets: SheetRows[];
+    try {
+      sheets = await this.readSheets(filePath, fileName);
     } catch (error) {
-      throw new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to parse ${path.extname(fileName) || 'uploaded'} file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (mapping) {
+      const sheet = mapping.sheetName ? sheets.find(s => s.name === mapping.sheetName) : sheets[0];
+      if (!sheet) {
+        throw new ValidationError(`Sheet "${mapping.sheetName}" not found in file`);
+      }
+      return { sheetName: sheet.name, urls: this.extractMapped(sheet, mapping) };
     }
+    return { sheetName: sheets[0].name, urls: this.extractScanned(sheets[0].rows) };
+  }
+
+  /**
+   * The first rows of every sheet plus a best guess at the mapping, for the
+   * upload wizard.
+   */
+  async previewFile(filePath: string, fileName: string): Promise<UploadPreview> {
+    const sheets = await this.readSheets(filePath, fileName);
+
+    const previewSheets: UploadPreviewSheet[] = sheets.map(sheet => ({
+      name: sheet.name,
+      rowCount: sheet.rows.length,
+      rows: sheet.rows.slice(0, PREVIEW_ROWS).map(row => Array.from(row, cell => this.cellText(cell))),
+      suggestedHeaderRow: this.guessHeaderRow(sheet.rows),
+    }));
+
+    return {
+      fileName,
+      sheets: previewSheets,
+      suggestedMapping: this.suggestMapping(sheets),
+    };
   }
 
-  async validateExcelFile(filePath: string): Promise<{ valid: boolean; error?: string }> {
+  async validateExcelFile(filePath: string, fileName: string = filePath): Promise<{ valid: boolean; error?: string }> {
     try {
       if (!fs.existsSync(filePath)) {
         return { valid: false, error: 'File does not exist' };
       }
 
       const stats = fs.statSync(filePath);
-      
+
       if (stats.size > CONFIG.FILE_UPLOAD.MAX_SIZE) {
         return { valid: false, error: `File size exceeds ${CONFIG.FILE_UPLOAD.MAX_SIZE / 1024 / 1024}MB limit` };
       }
 
       // Try to read the file
-      const XLSX = await import('xlsx');
-      const workbook = XLSX.default.readFile(filePath);
-      if (!workbook.SheetNames.length) {
-        return { valid: false, error: 'No worksheets found in file' };
-      }
+      await this.readSheets(filePath, fileName);
 
       return { valid: true };
     } catch (error) {
-      return { 
-        valid: false, 
-        error: `Invalid Excel file: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      return {
+        valid: false,
+        error: `Invalid ${path.extname(fileName) || 'uploaded'} file: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
   }
-}
\ No newline at end of file
+
+  private extractScanned(data: unknown[][]): LinkedInUrl[] {
+    const linkedinUrls: LinkedInUrl[] = [];
+
+    // Find columns that contain LinkedIn URLs
+    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
+      const row = data[rowIndex];
+
+      for (let colIndex = 0; colIndex < row.length; colIndex++) {
+        const cellValue = row[colIndex];
+        const normalized = typeof cellValue === 'string' ? normalizeLinkedInUrl(cellValue) : null;
+
+        if (normalized) {
+          // Extract additional data from the same row
+          const additionalData: Record<string, any> = {};
+          row.forEach((cell, idx) => {
+            if (idx !== colIndex && cell) {
+              additionalData[`column_${idx}`] = cell;
+            }
+          });
+
+          linkedinUrls.push({
+            ...normalized,
+            rowIndex,
+            additionalData,
+          });
+        }
+      }
+    }
+
+    return linkedinUrls;
+  }
+
+  private extractMapped(sheet: SheetRows, mapping: ColumnMapping): LinkedInUrl[] {
+    const keys = getColumnKeys(sheet.rows, mapping.headerRow);
+    const columnIndex = (key: string) => {
+      const index = keys.indexOf(key);
+      if (index === -1) {
+        throw new ValidationError(`Column "${key}" not found in sheet "${sheet.name}"`);
+      }
+      return index;
+    };
+
+    const urlIndex = columnIndex(mapping.columns.url);
+    const fieldIndexes = mappedFieldNames
+      .filter(field => mapping.columns[field])
+      .map(field => [field, columnIndex(mapping.columns[field]!)] as const);
+    const mappedIndexes = new Set<number>([urlIndex, ...fieldIndexes.map(([, index]) => index)]);
+
+    const linkedinUrls: LinkedInUrl[] = [];
+    const firstDataRow = mapping.headerRow !== null ? mapping.headerRow + 1 : 0;
+
+    for (let rowIndex = firstDataRow; rowIndex < sheet.rows.length; rowIndex++) {
+      const row = sheet.rows[rowIndex];
+      const normalized = normalizeLinkedInUrl(this.cellText(row[urlIndex]));
+      if (!normalized) continue;
+
+      const additionalData: Record<string, any> = {};
+      for (const [field, index] of fieldIndexes) {
+        const value = this.cellText(row[index]);
+        if (value) additionalData[field] = value;
+      }
+      row.forEach((cell, index) => {
+        if (!mappedIndexes.has(index) && cell !== undefined && cell !== null && cell !== '') {
+          additionalData[keys[index]] = cell;
+        }
+      });
+
+      linkedinUrls.push({ ...normalized, rowIndex, additionalData });
+    }
+
+    return linkedinUrls;
+  }
+
+  // The header is the last row before the first LinkedIn URL, if it has text
+  private guessHeaderRow(rows: unknown[][]): number | null {
+    const firstUrlRow = rows.findIndex(row => row.some(cell => this.isProfileUrl(cell)));
+    if (firstUrlRow <= 0) return null;
+
+    for (let index = firstUrlRow - 1; index >= 0; index--) {
+      if (rows[index].some(cell => this.cellText(cell) !== '')) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  private suggestMapping(sheets: SheetRows[]): ColumnMapping | null {
+    // Prefer the sheet with the most LinkedIn URLs
+    const ranked = sheets
+      .map(sheet => ({ sheet, urlCounts: this.countUrlsByColumn(sheet.rows) }))
+      .filter(({ urlCounts }) => urlCounts.some(count => count > 0))
+      .sort((a, b) => Math.max(...b.urlCounts) - Math.max(...a.urlCounts));
+    if (ranked.length === 0) return null;
+
+    const { sheet, urlCounts } = ranked[0];
+    const headerRow = this.guessHeaderRow(sheet.rows);
+    const keys = getColumnKeys(sheet.rows, headerRow);
+    const urlIndex = urlCounts.indexOf(Math.max(...urlCounts));
+
+    const columns: ColumnMapping['columns'] = { url: keys[urlIndex] };
+    if (headerRow !== null) {
+      for (const field of mappedFieldNames) {
+        const index = sheet.rows[headerRow].findIndex((cell, i) =>
+          i !== urlIndex && FIELD_HEADER_PATTERNS[field].test(this.cellText(cell))
+        );
+        if (index !== -1) columns[field] = keys[index];
+      }
+    }
+
+    return { sheetName: sheet.name, headerRow, columns };
+  }
+
+  private countUrlsByColumn(rows: unknown[][]): number[] {
+    const counts: number[] = [];
+    for (const row of rows) {
+      row.forEach((cell, index) => {
+        counts[index] = (counts[index] || 0) + (this.isProfileUrl(cell) ? 1 : 0);
+      });
+    }
+    return Array.from(counts, count => count || 0);
+  }
+
+  private isProfileUrl(cell: unknown): boolean {
+    return normalizeLinkedInUrl(this.cellText(cell)) !== null;
+  }
+
+  private cellText(cell: unknown): string {
+    return cell === undefined || cell === null ? '' : String(cell).trim();
+  }
+
+  private findReader(fileName: string): UploadFileReader | undefined {
+    const extension = path.extname(fileName).toLowerCase();
+    return this.readers.find(reader => reader.extensions.includes(extension));
+  }
+
+  private async readSheets(filePath: string, fileName: string): Promise<SheetRows[]> {
+    const reader = this.findReader(fileName);
+    if (!reader) {
+      throw new ValidationError(`Unsupported file type. Supported types: ${CONFIG.FILE_UPLOAD.ALLOWED_EXTENSIONS.join(', ')}`);
+    }
+    return reader.readSheets(filePath, path.extname(fileName).toLowerCase());
+  }
+}
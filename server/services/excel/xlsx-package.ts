@@ -0,0 +1,148 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+
+/**
+ * An existing .xlsx (zip) file whose parts can be read and replaced. Parts
+ * that aren't replaced keep their compressed bytes, so saving rewrites only
+ * what changed. Zip64 archives are not supported; uploads are far below the
+ * 4GB where they are needed.
+ */
+
+interface PackageEntry {
+  name: string;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  data: Buffer; // Compressed as described by method
+}
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export class XlsxPackage {
+  private constructor(private entries: PackageEntry[]) {}
+
+  static read(buffer: Buffer): XlsxPackage {
+    const endOffset = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (endOffset === -1) {
+      throw new Error('Not a zip file');
+    }
+    const count = buffer.readUInt16LE(endOffset + 10);
+    let offset = buffer.readUInt32LE(endOffset + 16);
+
+    const entries: PackageEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+        throw new Error('Corrupt zip central directory');
+      }
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const size = buffer.readUInt32LE(offset + 24);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+        throw new Error('Zip64 files are not supported');
+      }
+
+      // The local header's name and extra field lengths can differ from the central directory's
+      const dataOffset = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      entries.push({
+        name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+        flags: buffer.readUInt16LE(offset + 8) & 0x0800, // Keep only the UTF-8 name flag
+        method: buffer.readUInt16LE(offset + 10),
+        time: buffer.readUInt16LE(offset + 12),
+        date: buffer.readUInt16LE(offset + 14),
+        crc: buffer.readUInt32LE(offset + 16),
+        compressedSize,
+        size,
+        data: buffer.subarray(dataOffset, dataOffset + compressedSize),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return new XlsxPackage(entries);
+  }
+
+  has(name: string): boolean {
+    return this.entries.some(entry => entry.name === name);
+  }
+
+  readText(name: string): string {
+    const entry = this.entries.find(e => e.name === name);
+    if (!entry) {
+      throw new Error(`Part ${name} not found`);
+    }
+    if (entry.method === STORED) {
+      return entry.data.toString('utf8');
+    }
+    if (entry.method === DEFLATED) {
+      return inflateRawSync(entry.data).toString('utf8');
+    }
+    throw new Error(`Part ${name} uses unsupported compression method ${entry.method}`);
+  }
+
+  writeText(name: string, text: string): void {
+    const entry = this.entries.find(e => e.name === name);
+    if (!entry) {
+      throw new Error(`Part ${name} not found`);
+    }
+    const content = Buffer.from(text, 'utf8');
+    entry.method = DEFLATED;
+    entry.crc = crc32(content);
+    entry.size = content.length;
+    entry.data = deflateRawSync(content);
+    entry.compressedSize = entry.data.length;
+  }
+
+  toBuffer(): Buffer {
+    const parts: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of this.entries) {
+      const name = Buffer.from(entry.name, 'utf8');
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4); // Version needed to extract
+      local.writeUInt16LE(entry.flags, 6);
+      local.writeUInt16LE(entry.method, 8);
+      local.writeUInt16LE(entry.time, 10);
+      local.writeUInt16LE(entry.date, 12);
+      local.writeUInt32LE(entry.crc >>> 0, 14);
+      local.writeUInt32LE(entry.compressedSize, 18);
+      local.writeUInt32LE(entry.size, 22);
+      local.writeUInt16LE(name.length, 26);
+      parts.push(local, name, entry.data);
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc >>> 0, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(name.length, 28);
+      // Extra, comment, disk, attributes (30-41) stay zero
+      header.writeUInt32LE(offset, 42);
+      central.push(header, name);
+
+      offset += local.length + name.length + entry.data.length;
+    }
+
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...parts, directory, end]);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import XLSX from 'xlsx';
+import { cellXml, XlsxStreamWriter } from './xlsx-stream';
+
+async function writeWorkbook(build: (writer: XlsxStreamWriter) => Promise<void>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  const writer = new XlsxStreamWriter(output);
+  await build(writer);
+  await writer.finish();
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+const rowsOf = (workbook: XLSX.WorkBook, sheet: string) =>
+  XLSX.utils.sheet_to_json(workbook.Sheets[sheet], { header: 1, defval: null });
+
+describe('XlsxStreamWriter', () => {
+  it('writes a workbook that spreadsheet readers open', async () => {
+    const workbook = XLSX.read(await writeWorkbook(async writer => {
+      await writer.addSheet('Profiles', ['Name', 'Connections']);
+      await writer.addRow(['Jane Doe', 500]);
+      await writer.addRow(['Max <Müller> & Co "GmbH"', null]);
+      await writer.addSheet('Errors', ['URL']);
+      await writer.addRow(['https://www.linkedin.com/in/jane']);
+    }));
+
+    assert.deepEqual(workbook.SheetNames, ['Profiles', 'Errors']);
+    assert.deepEqual(rowsOf(workbook, 'Profiles'), [
+      ['Name', 'Connections'],
+      ['Jane Doe', 500],
+      ['Max <Müller> & Co "GmbH"', null],
+    ]);
+    assert.deepEqual(rowsOf(workbook, 'Errors'), [['URL'], ['https://www.linkedin.com/in/jane']]);
+  });
+
+  it('writes rows larger than one compressed chunk', async () => {
+    const summary = 'x'.repeat(40_000);
+    const workbook = XLSX.read(await writeWorkbook(async writer => {
+      await writer.addSheet('Profiles', ['Summary']);
+      for (let i = 0; i < 5; i++) {
+        await writer.addRow([`${i}${summary}`]);
+      }
+    }));
+
+    const rows = rowsOf(workbook, 'Profiles') as string[][];
+    assert.equal(rows.length, 6);
+    assert.equal(rows[5][0], `4${summary}`);
+  });
+
+  it('counts the rows of the current sheet, header included', async () => {
+    await writeWorkbook(async writer => {
+      await writer.addSheet('Profiles', ['Name']);
+      assert.equal(await writer.addRow(['Jane']), true);
+      assert.equal(writer.rows, 2);
+      await writer.addSheet('Errors', ['URL']);
+      assert.equal(writer.rows, 1);
+    });
+  });
+});
+
+describe('cellXml', () => {
+  it('writes empty values as empty cells', () => {
+    assert.equal(cellXml(null), '<c/>');
+    assert.equal(cellXml(undefined, 'B2'), '<c r="B2"/>');
+    assert.equal(cellXml(''), '<c/>');
+  });
+
+  it('writes finite numbers as values and everything else as inline strings', () => {
+    assert.equal(cellXml(42), '<c><v>42</v></c>');
+    assert.equal(cellXml(Number.NaN), '<c t="inlineStr"><is><t xml:space="preserve">NaN</t></is></c>');
+  });
+
+  it('escapes markup and drops control characters XML does not allow', () => {
+    assert.equal(
+      cellXml('a < b & "c"\u0007\n', 'C1', 'x:'),
+      '<x:c r="C1" t="inlineStr"><x:is><x:t xml:space="preserve">a &lt; b &amp; &quot;c&quot;\n</x:t></x:is></x:c>'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { Writable } from 'stream';
+import { ZipStreamWriter } from './zip-stream';
+
+/**
+ * Writes an .xlsx workbook sheet by sheet and row by row, so exports never
+ * hold a whole sheet in memory. An .xlsx file is a zip of XML parts, streamed
+ * by ZipStreamWriter; the parts listing the sheets are written last. Cells
+ * are inline strings and numbers, without styles.
+ */
+
+export type CellValue = string | number | null | undefined;
+
+// Excel's limit per sheet; rows beyond it would make the file unreadable
+export const XLSX_MAX_ROWS = 1_048_576;
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// XML 1.0 forbids most control characters, which can turn up in scraped text
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// `ref` (e.g. "B3") is needed when the row's earlier cells aren't all written
+export function cellXml(value: CellValue, ref?: string, prefix: string = ''): string {
+  const r = ref ? ` r="${ref}"` : '';
+  if (value === null || value === undefined || value === '') {
+    return `<${prefix}c${r}/>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<${prefix}c${r}><${prefix}v>${value}</${prefix}v></${prefix}c>`;
+  }
+  return `<${prefix}c${r} t="inlineStr"><${prefix}is><${prefix}t xml:space="preserve">${escapeXml(String(value))}</${prefix}t></${prefix}is></${prefix}c>`;
+}
+
+export class XlsxStreamWriter {
+  private zip: ZipStreamWriter;
+  private sheetNames: string[] = [];
+  private sheetOpen = false;
+  private rowCount = 0;
+
+  constructor(output: Writable) {
+    this.zip = new ZipStreamWriter(output);
+  }
+
+  // Rows written to the current sheet, including the header
+  get rows(): number {
+    return this.rowCount;
+  }
+
+  // Ends the previous sheet, if any; names must be unique and at most 31 characters
+  async addSheet(name: string, columns: string[]): Promise<void> {
+    await this.endSheet();
+    this.sheetNames.push(name);
+    this.rowCount = 0;
+
+    const widths = columns
+      .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${Math.max(column.length, 15)}" customWidth="1"/>`)
+      .join('');
+    await this.zip.beginEntry(`xl/worksheets/sheet${this.sheetNames.length}.xml`);
+    this.sheetOpen = true;
+    await this.zip.append(`${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><cols>${widths}</cols><sheetData>`);
+    await this.addRow(columns);
+  }
+
+  // Returns false once the sheet is full; further rows are dropped
+  async addRow(values: CellValue[]): Promise<boolean> {
+    if (this.rowCount >= XLSX_MAX_ROWS) {
+      return false;
+    }
+    this.rowCount++;
+    await this.zip.append(`<row>${values.map(value => cellXml(value)).join('')}</row>`);
+    return true;
+  }
+
+  async finish(): Promise<void> {
+    await this.endSheet();
+
+    const sheets = this.sheetNames.map((name, index) => ({ name, id: index + 1 }));
+    await this.zip.addEntry('[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      sheets.map(sheet => `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>');
+    await this.zip.addEntry('_rels/.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+    await this.zip.addEntry('xl/workbook.xml', `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>` +
+      sheets.map(sheet => `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join('') +
+      '</sheets></workbook>');
+    await this.zip.addEntry('xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      sheets.map(sheet => `<Relationship Id="rId${sheet.id}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`).join('') +
+      '</Relationships>');
+    await this.zip.finish();
+  }
+
+  private async endSheet(): Promise<void> {
+    if (!this.sheetOpen) return;
+    this.sheetOpen = false;
+    await this.zip.append('</sheetData></worksheet>');
+    await this.zip.endEntry();
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough, Writable } from 'stream';
+import { crc32, inflateRawSync } from 'zlib';
+import { writeChunk, ZipStreamWriter } from './zip-stream';
+
+async function writeArchive(build: (zip: ZipStreamWriter) => Promise<void>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  const zip = new ZipStreamWriter(output);
+  await build(zip);
+  await zip.finish();
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+// Reads the archive from its central directory, checking each entry's local
+// header and data descriptor against it
+function readArchive(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  assert.equal(archive.readUInt32LE(end), 0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  assert.equal(offset + archive.readUInt32LE(end + 12), end);
+
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    assert.equal(archive.readUInt32LE(offset), 0x02014b50);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const local = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength;
+
+    assert.equal(archive.readUInt32LE(local), 0x04034b50);
+    assert.equal(archive.toString('utf8', local + 30, local + 30 + nameLength), name);
+    const dataStart = local + 30 + nameLength;
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    assert.equal(content.length, size);
+    assert.equal(crc32(content), crc);
+    assert.deepEqual(
+      [archive.readUInt32LE(dataStart + compressedSize), archive.readUInt32LE(dataStart + compressedSize + 4)],
+      [0x08074b50, crc]
+    );
+    entries.set(name, content.toString('utf8'));
+  }
+  return entries;
+}
+
+describe('ZipStreamWriter', () => {
+  it('writes entries that inflate back to their content', async () => {
+    const archive = await writeArchive(async zip => {
+      await zip.addEntry('jane.json', '{"name":"Jane"}\n');
+      await zip.addEntry('müller.vcf', 'BEGIN:VCARD\r\nFN:Max Müller\r\nEND:VCARD\r\n');
+      await zip.addEntry('empty.txt', '');
+    });
+
+    assert.deepEqual(readArchive(archive), new Map([
+      ['jane.json', '{"name":"Jane"}\n'],
+      ['müller.vcf', 'BEGIN:VCARD\r\nFN:Max Müller\r\nEND:VCARD\r\n'],
+      ['empty.txt', ''],
+    ]));
+  });
+
+  it('joins entries appended in parts across compressed chunks', async () => {
+    const part = 'profile row '.repeat(3000);
+    const archive = await writeArchive(async zip => {
+      await zip.beginEntry('sheet.xml');
+      for (let i = 0; i < 10; i++) {
+        await zip.append(`${i}:${part}`);
+      }
+      await zip.endEntry();
+    });
+
+    const content = readArchive(archive).get('sheet.xml')!;
+    assert.equal(content, Array.from({ length: 10 }, (_, i) => `${i}:${part}`).join(''));
+  });
+
+  it('writes an empty archive', async () => {
+    assert.deepEqual(readArchive(await writeArchive(async () => {})), new Map());
+  });
+});
+
+describe('writeChunk', () => {
+  // Accepts one byte before asking for a drain, and finishes writes on the next tick
+  function slowOutput(received: string[]): Writable {
+    return new Writable({
+      highWaterMark: 1,
+      write(chunk, _encoding, callback) {
+        received.push(chunk.toString());
+        setImmediate(callback);
+      },
+    });
+  }
+
+  it('waits for the output to drain before resolving', async () => {
+    const received: string[] = [];
+    const output = slowOutput(received);
+    await writeChunk(output, 'first');
+    assert.equal(output.writableNeedDrain, false);
+    await writeChunk(output, 'second');
+    assert.deepEqual(received, ['first', 'second']);
+  });
+
+  it('rejects when the output is closed before or while writing', async () => {
+    const output = slowOutput([]);
+    const pending = writeChunk(output, 'first');
+    output.destroy();
+    await assert.rejects(pending, { message: 'Export stream closed' });
+    await assert.rejects(writeChunk(output, 'second'), { message: 'Export stream closed' });
+  });
+});
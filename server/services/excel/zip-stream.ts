@@ -0,0 +1,148 @@
+import { constants, crc32, deflateRawSync } from 'zlib';
+import type { Writable } from 'stream';
+
+/**
+ * Writes a zip archive entry by entry to a stream. Entries are written with
+ * data descriptors (sizes after the data) and compressed in independently
+ * sync-flushed deflate blocks, so each chunk can be sent as soon as it is
+ * full and no entry is held in memory. Zip64 is not written; exports stay far
+ * below the 4GB and 65535 entries where it is needed.
+ */
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+}
+
+const CHUNK_SIZE = 64 * 1024;
+
+export class ZipStreamWriter {
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+  private pending: string[] = [];
+  private pendingLength = 0;
+  private offset = 0;
+
+  constructor(private output: Writable) {}
+
+  async addEntry(name: string, content: string): Promise<void> {
+    await this.beginEntry(name);
+    await this.append(content);
+    await this.endEntry();
+  }
+
+  // Starts an entry whose content is then given in parts with append()
+  async beginEntry(name: string): Promise<void> {
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), offset: this.offset, crc: 0, size: 0, compressedSize: 0 };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(0x0808, 6); // Sizes in data descriptor, UTF-8 names
+    header.writeUInt16LE(8, 8); // Deflate
+    header.writeUInt16LE(0, 10); // Time
+    header.writeUInt16LE(0x21, 12); // Date: 1980-01-01
+    // CRC and sizes (14-25) stay zero until the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    await this.send(Buffer.concat([header, entry.name]));
+    this.current = entry;
+  }
+
+  async append(text: string): Promise<void> {
+    this.pending.push(text);
+    this.pendingLength += text.length;
+    if (this.pendingLength >= CHUNK_SIZE) {
+      await this.flush(false);
+    }
+  }
+
+  async endEntry(): Promise<void> {
+    const entry = this.current!;
+    await this.flush(true);
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.send(descriptor);
+    this.entries.push(entry);
+    this.current = null;
+  }
+
+  // Writes the central directory; no entries can be added afterwards
+  async finish(): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(0, 12);
+      header.writeUInt16LE(0x21, 14);
+      header.writeUInt32LE(entry.crc >>> 0, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // Extra, comment, disk, attributes (30-41) stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.send(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.send(end);
+  }
+
+  private async flush(final: boolean): Promise<void> {
+    const entry = this.current!;
+    const data = Buffer.from(this.pending.join(''), 'utf8');
+    this.pending = [];
+    this.pendingLength = 0;
+
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    const compressed = deflateRawSync(data, { finishFlush: final ? constants.Z_FINISH : constants.Z_SYNC_FLUSH });
+    entry.compressedSize += compressed.length;
+    await this.send(compressed);
+  }
+
+  private async send(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.output, chunk);
+  }
+}
+
+// Writes with backpressure; rejects if the client goes away mid-export
+export function writeChunk(output: Writable, chunk: string | Buffer): Promise<void> {
+  if (output.destroyed) {
+    return Promise.reject(new Error('Export stream closed'));
+  }
+  if (output.write(chunk)) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Export stream closed'));
+    };
+    output.on('drain', onDrain);
+    output.on('close', onClose);
+  });
+}
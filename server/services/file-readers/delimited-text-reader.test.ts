@@ -0,0 +1,63 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DelimitedTextReader } from './delimited-text-reader';
+
+describe('DelimitedTextReader', () => {
+  const reader = new DelimitedTextReader();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'delimited-reader-'));
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('sniffDelimiter', () => {
+    it('picks the delimiter that splits every line the same way', () => {
+      assert.equal(reader.sniffDelimiter('name;url\nJane;https://linkedin.com/in/jane\n', ','), ';');
+      assert.equal(reader.sniffDelimiter('name\turl\nJane\thttps://linkedin.com/in/jane', ','), '\t');
+      assert.equal(reader.sniffDelimiter('name|url\nJane|https://linkedin.com/in/jane', ','), '|');
+    });
+
+    it('ignores delimiters inside quotes', () => {
+      assert.equal(reader.sniffDelimiter('"Doe, Jane";url\n"Roe, John";url', ','), ';');
+    });
+
+    it('keeps the fallback when no candidate splits the lines', () => {
+      assert.equal(reader.sniffDelimiter('https://linkedin.com/in/jane\nhttps://linkedin.com/in/john', '\t'), '\t');
+    });
+  });
+
+  describe('parse', () => {
+    it('splits rows on any line ending', () => {
+      assert.deepEqual(reader.parse('a,b\r\nc,d\re,f\ng,h', ','), [['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+    });
+
+    it('keeps delimiters, newlines and escaped quotes inside quoted fields', () => {
+      assert.deepEqual(reader.parse('"Doe, Jane","Line 1\nLine 2","Say ""hi"""\n', ','), [['Doe, Jane', 'Line 1\nLine 2', 'Say "hi"']]);
+    });
+
+    it('keeps empty fields and a last line without a newline', () => {
+      assert.deepEqual(reader.parse('a,,c\n,b,', ','), [['a', '', 'c'], ['', 'b', '']]);
+    });
+  });
+
+  describe('readSheets', () => {
+    it('reads a semicolon-separated .csv as one sheet', async () => {
+      const file = path.join(dir, 'profiles.csv');
+      fs.writeFileSync(file, '\uFEFFName;Profile\nZoë;https://www.linkedin.com/in/zoe\n');
+      assert.deepEqual(await reader.readSheets(file, '.csv'), [
+        { name: 'Sheet1', rows: [['Name', 'Profile'], ['Zoë', 'https://www.linkedin.com/in/zoe']] },
+      ]);
+    });
+
+    it('reads a single-column .tsv', async () => {
+      const file = path.join(dir, 'profiles.tsv');
+      fs.writeFileSync(file, 'https://www.linkedin.com/in/jane\nhttps://www.linkedin.com/in/john\n');
+      assert.deepEqual(await reader.readSheets(file, '.tsv'), [
+        { name: 'Sheet1', rows: [['https://www.linkedin.com/in/jane'], ['https://www.linkedin.com/in/john']] },
+      ]);
+    });
+  });
+});
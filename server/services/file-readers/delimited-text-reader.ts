@@ -0,0 +1,111 @@
+import fs from 'fs';
+import type { SheetRows, UploadFileReader } from './types';
+import { decodeText } from './text-decoding';
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+const SNIFF_LINES = 20;
+
+/**
+ * CSV and TSV files. The delimiter is sniffed from the first lines rather
+ * than trusted from the extension, since European CSV exports use ';' and
+ * some tools save tab-separated data as .csv.
+ */
+export class DelimitedTextReader implements UploadFileReader {
+  readonly extensions = ['.csv', '.tsv'];
+
+  async readSheets(filePath: string, extension: string): Promise<SheetRows[]> {
+    const text = decodeText(await fs.promises.readFile(filePath));
+    const delimiter = this.sniffDelimiter(text, extension === '.tsv' ? '\t' : ',');
+    return [{ name: 'Sheet1', rows: this.parse(text, delimiter) }];
+  }
+
+  // Picks the candidate that splits the sample lines into the same number of
+  // fields most consistently, preferring more fields on a tie
+  sniffDelimiter(text: string, fallback: string): string {
+    const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES);
+    let best = fallback;
+    let bestScore = 0;
+
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+      const counts = lines.map(line => this.countDelimiters(line, delimiter));
+      const mostCommon = this.mostCommon(counts);
+      if (mostCommon === 0) continue;
+
+      const consistency = counts.filter(count => count === mostCommon).length / counts.length;
+      const score = consistency * 100 + mostCommon;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  // RFC 4180: quoted fields may contain delimiters, newlines and "" escapes
+  parse(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private countDelimiters(line: string, delimiter: string): number {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of line) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+    return count;
+  }
+
+  private mostCommon(values: number[]): number {
+    const frequency = new Map<number, number>();
+    for (const value of values) {
+      frequency.set(value, (frequency.get(value) || 0) + 1);
+    }
+    let result = 0;
+    let resultFrequency = 0;
+    frequency.forEach((count, value) => {
+      if (count > resultFrequency || (count === resultFrequency && value > result)) {
+        result = value;
+        resultFrequency = count;
+      }
+    });
+    return result;
+  }
+}
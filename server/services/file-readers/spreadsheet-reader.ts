@@ -0,0 +1,20 @@
+import type { SheetRows, UploadFileReader } from './types';
+
+// Excel workbooks and OpenDocument spreadsheets, Google Sheets' .xlsx/.ods
+// exports included
+export class SpreadsheetReader implements UploadFileReader {
+  readonly extensions = ['.xlsx', '.xls', '.ods'];
+
+  async readSheets(filePath: string): Promise<SheetRows[]> {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.default.readFile(filePath);
+    if (!workbook.SheetNames.length) {
+      throw new Error('No worksheets found in file');
+    }
+
+    return workbook.SheetNames.map(name => ({
+      name,
+      rows: XLSX.default.utils.sheet_to_json(workbook.Sheets[name], { header: 1 }) as unknown[][],
+    }));
+  }
+}
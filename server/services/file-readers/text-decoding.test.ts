@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText } from './text-decoding';
+
+const url = 'https://www.linkedin.com/in/zoë';
+
+describe('decodeText', () => {
+  it('decodes UTF-8 with and without a BOM', () => {
+    assert.equal(decodeText(Buffer.from(url, 'utf8')), url);
+    assert.equal(decodeText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(url, 'utf8')])), url);
+  });
+
+  it('decodes UTF-16 by its BOM', () => {
+    assert.equal(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(url, 'utf16le')])), url);
+    assert.equal(decodeText(Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(url, 'utf16le').swap16()])), url);
+  });
+
+  it('recognizes UTF-16 without a BOM from its NUL bytes', () => {
+    assert.equal(decodeText(Buffer.from(url, 'utf16le')), url);
+    assert.equal(decodeText(Buffer.from(url, 'utf16le').swap16()), url);
+  });
+
+  it('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    assert.equal(decodeText(Buffer.from(url, 'latin1')), url);
+    assert.equal(decodeText(Buffer.from([0x80, 0x20, 0x93, 0x41, 0x94, 0x20, 0x96, 0x20, 0x9f])), '€ “A” – Ÿ');
+  });
+
+  it('decodes an empty file to an empty string', () => {
+    assert.equal(decodeText(Buffer.alloc(0)), '');
+  });
+});
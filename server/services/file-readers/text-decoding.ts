@@ -0,0 +1,35 @@
+// CSV exports come from many tools: UTF-8 with or without a BOM, UTF-16 from
+// Excel's "Unicode text" export, and Windows-1252 from older ATS/CRM systems.
+
+// Windows-1252 only differs from Latin-1 in 0x80-0x9F. Node's TextDecoder
+// decodes the 'windows-1252' label as Latin-1, so those bytes are mapped here.
+const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+function decodeWindows1252(buffer: Buffer): string {
+  return buffer.toString('latin1').replace(/[\x80-\x9f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]);
+}
+
+export function decodeText(buffer: Buffer): string {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(buffer.subarray(3));
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buffer.subarray(2));
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+  }
+
+  // UTF-16 without a BOM still shows up as NUL bytes between ASCII characters
+  const sample = buffer.subarray(0, 512);
+  const nulCount = sample.filter(byte => byte === 0).length;
+  if (sample.length > 0 && nulCount / sample.length > 0.3) {
+    return new TextDecoder(sample[0] === 0 ? 'utf-16be' : 'utf-16le').decode(buffer);
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return decodeWindows1252(buffer);
+  }
+}
@@ -0,0 +1,14 @@
+export interface SheetRows {
+  name: string;
+  rows: unknown[][];
+}
+
+/**
+ * Turns an uploaded file into sheets of rows. Readers only deal with the file
+ * format; finding LinkedIn URLs in the rows is shared by all of them.
+ * Formats without sheets return a single one.
+ */
+export interface UploadFileReader {
+  readonly extensions: readonly string[];
+  readSheets(filePath: string, extension: string): Promise<SheetRows[]>;
+}
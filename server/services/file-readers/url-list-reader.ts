@@ -0,0 +1,17 @@
+import fs from 'fs';
+import type { SheetRows, UploadFileReader } from './types';
+import { decodeText } from './text-decoding';
+
+// Plain text with one or more URLs per line, e.g. pasted from a browser or
+// a chat. Each line becomes a row and each whitespace-separated token a cell.
+export class UrlListReader implements UploadFileReader {
+  readonly extensions = ['.txt'];
+
+  async readSheets(filePath: string): Promise<SheetRows[]> {
+    const text = decodeText(await fs.promises.readFile(filePath));
+    const rows = text
+      .split(/\r\n|\n|\r/)
+      .map(line => line.split(/[\s,;]+/).filter(token => token !== ''));
+    return [{ name: 'Sheet1', rows }];
+  }
+}
@@ -0,0 +1,85 @@
+import { EventEmitter } from 'events';
+import type { Job } from '@shared/schema';
+
+export type JobEventType = 'status' | 'progress' | 'profile';
+
+export interface JobEvent {
+  type: JobEventType;
+  jobId: number;
+  data: unknown;
+}
+
+export interface JobStatusPayload {
+  id: number;
+  fileName: string;
+  status: string;
+  progress: number;
+  processedProfiles: number;
+  totalProfiles: number;
+  successful: number;
+  retrying: number;
+  failed: number;
+  remaining: number;
+  processingRate: string;
+  estimatedCompletion: string;
+}
+
+/**
+ * The job summary shown on the dashboard, shared by /api/jobs/current-status
+ * and the 'status'/'progress' events.
+ */
+export function toJobStatusPayload(job: Job): JobStatusPayload {
+  const processed = job.processedProfiles || 0;
+
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    progress: job.totalProfiles > 0 ? Math.round((processed / job.totalProfiles) * 100) : 0,
+    processedProfiles: processed,
+    totalProfiles: job.totalProfiles,
+    successful: job.successfulProfiles || 0,
+    retrying: job.retryingProfiles || 0,
+    failed: job.failedProfiles || 0,
+    remaining: job.totalProfiles - processed,
+    processingRate: job.processingRate || 'Calculating...',
+    estimatedCompletion: job.estimatedCompletion ?
+      Math.ceil((job.estimatedCompletion.getTime() - Date.now()) / (1000 * 60)) + 'm' :
+      'Calculating...',
+  };
+}
+
+/**
+ * In-process fan-out of job events from the JobQueue to SSE subscribers.
+ * Only clients connected to the server whose worker holds the job's lease
+ * see its events; the dashboard keeps polling every 30 seconds while a stream
+ * is open, so a job run by another server still moves, just more slowly.
+ */
+export class JobEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open dashboard tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: JobEvent): void {
+    this.emitter.emit(this.channel(event.jobId), event);
+  }
+
+  subscribe(jobId: number, listener: (event: JobEvent) => void): () => void {
+    const channel = this.channel(jobId);
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  hasSubscribers(jobId: number): boolean {
+    return this.emitter.listenerCount(this.channel(jobId)) > 0;
+  }
+
+  private channel(jobId: number): string {
+    return `job:${jobId}`;
+  }
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { categorizeError } from './job-queue';
+import { LinkedInService } from './linkedin-api';
+import { MockProfileProvider } from './profile-providers/mock-provider';
+import { CONFIG } from '../config/constants';
+
+/**
+ * Provider errors must come out of categorizeError as the right error type:
+ * not-found, restricted and invalid-URL profiles fail without retries, and
+ * rate limits are rescheduled instead of retried in place.
+ */
+
+async function errorTypeOf(extraction: Promise<unknown>): Promise<string> {
+  try {
+    await extraction;
+  } catch (error) {
+    return categorizeError(error);
+  }
+  assert.fail('Expected the extraction to fail');
+}
+
+describe('categorizeError', () => {
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  describe('LinkedIn provider errors', () => {
+    const linkedin = new LinkedInService();
+    const respond = (status: number) =>
+      mock.method(globalThis, 'fetch', async () => new Response(null, { status, headers: { 'Retry-After': '0' } }));
+
+    it('maps a URL without a profile id to invalid_url', async () => {
+      const fetch = respond(200);
+      assert.equal(await errorTypeOf(linkedin.getProfile('token', 'https://example.com/jane')), CONFIG.ERROR_TYPES.INVALID_URL);
+      assert.equal(fetch.mock.callCount(), 0);
+    });
+
+    it('maps a 404 to not_found', async () => {
+      respond(404);
+      assert.equal(await errorTypeOf(linkedin.getProfile('token', 'https://www.linkedin.com/in/jane')), CONFIG.ERROR_TYPES.NOT_FOUND);
+    });
+
+    it('maps a 403 to access_restricted', async () => {
+      respond(403);
+      assert.equal(await errorTypeOf(linkedin.getProfile('token', 'https://www.linkedin.com/in/jane')), CONFIG.ERROR_TYPES.ACCESS_RESTRICTED);
+    });
+
+    it('maps a 429 to rate_limit', async () => {
+      respond(429);
+      assert.equal(await errorTypeOf(linkedin.getProfile('token', 'https://www.linkedin.com/in/jane')), CONFIG.ERROR_TYPES.RATE_LIMIT);
+    });
+  });
+
+  describe('mock provider errors', () => {
+    // Math.random picks the latency, then fails the call, then picks the error
+    const simulate = async (errorIndex: number) => {
+      const rolls = [0, 0.99, errorIndex / 4];
+      mock.method(Math, 'random', () => rolls.shift() ?? 0);
+      mock.timers.enable({ apis: ['setTimeout'] });
+      const extraction = new MockProfileProvider().extractProfile({ profileUrl: 'https://www.linkedin.com/in/jane', userId: 1 });
+      mock.timers.tick(1500);
+      return errorTypeOf(extraction);
+    };
+
+    it('maps a simulated rate limit to rate_limit', async () => {
+      assert.equal(await simulate(0), CONFIG.ERROR_TYPES.RATE_LIMIT);
+    });
+
+    it('maps a simulated missing profile to not_found', async () => {
+      assert.equal(await simulate(1), CONFIG.ERROR_TYPES.NOT_FOUND);
+    });
+
+    it('maps a simulated restricted profile to access_restricted', async () => {
+      assert.equal(await simulate(2), CONFIG.ERROR_TYPES.ACCESS_RESTRICTED);
+    });
+
+    it('maps a simulated captcha to captcha', async () => {
+      assert.equal(await simulate(3), CONFIG.ERROR_TYPES.CAPTCHA);
+    });
+  });
+});
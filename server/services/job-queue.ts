@@ -1,11 +1,18 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { profileDataSchema, type Job, type ProfileData, type QueueEntry } from '@shared/schema';
+import type { ColumnMapping } from '@shared/column-mapping';
 import type { IStorage } from '../storage';
 import type { ExcelParser } from './excel/parser';
-import type { AIProfileExtractor } from './ai-profile-extractor';
+import type { ProfileProviderRegistry } from './profile-providers/registry';
+import type { ProfileProvider, ProfileRequest } from './profile-providers/types';
+import type { LinkedInTokenManager } from './linkedin-token-manager';
+import { toJobStatusPayload, type JobEventBus } from './job-event-bus';
+import { toWebhookJob, toWebhookProfile, type WebhookDispatcher } from './webhook-dispatcher';
 import { CONFIG } from '../config/constants';
-import { ProfileExtractionError } from '../types/errors';
+import { ProfileExtractionError, RateLimitError, ReauthRequiredError } from '../types/errors';
 import { logger } from '../utils/logger';
 import { performanceMonitor } from '../utils/performance-monitor';
-import { mockProfileGenerator } from './mock-profile-generator';
 
 interface JobData {
   jobId: number;
@@ -14,318 +21,645 @@ interface JobData {
   batchSize: number;
 }
 
-interface ProcessingJob {
-  id: number;
-  data: JobData;
-  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed';
-  retryCount: number;
-}
-
+/**
+ * Database-backed job queue. Queue entries live in the `job_queue` table and
+ * are claimed by workers through time-limited leases, so jobs survive restarts
+ * and a crashed worker's jobs are picked up again once its lease expires.
+ */
 export class JobQueue {
   constructor(
     private storage: IStorage,
     private excelParser: ExcelParser,
-    private aiProfileExtractor: AIProfileExtractor
+    private profileProviders: ProfileProviderRegistry,
+    private tokenManager: LinkedInTokenManager,
+    private jobEvents: JobEventBus,
+    private webhooks: WebhookDispatcher
   ) {}
-  private jobs: Map<number, ProcessingJob> = new Map();
-  private processing: boolean = false;
-  private currentJobId: number = 1;
+  private readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private activeJobs: Map<number, QueueEntry> = new Map();
+  private lastServedAt: Map<number, number> = new Map();
+  private filling: boolean = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Recover orphaned jobs and start polling the queue for work.
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer) return;
+
+    try {
+      await this.recoverOrphanedJobs();
+    } catch (error) {
+      logger.error('Failed to recover orphaned jobs', error);
+    }
+
+    this.pollTimer = setInterval(() => this.poll(), CONFIG.JOB_QUEUE.POLL_INTERVAL);
+    this.poll();
+  }
 
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Queues a job's first run. `job.started` is sent here rather than when a
+   * worker picks the job up: resumes, taken-over leases and retry passes run
+   * the same job again without coming through addJob.
+   */
   async addJob(data: JobData): Promise<number> {
-    const jobId = this.currentJobId++;
-    const job: ProcessingJob = {
-      id: jobId,
-      data,
-      status: 'pending',
-      retryCount: 0,
-    };
+    const entry = await this.storage.enqueueJob({
+      jobId: data.jobId,
+      userId: data.userId,
+      batchSize: data.batchSize,
+    });
+    await this.emitJobWebhook(data.userId, data.jobId, 'job.started');
 
-    this.jobs.set(jobId, job);
-    
-    if (!this.processing) {
-      this.startProcessing();
+    this.poll();
+
+    return entry.id;
+  }
+
+  /**
+   * The queue owns the job's status for pause/stop/resume. A worker holding
+   * the lease notices on its next lease renewal and stops; the profiles it
+   * already settled are kept and skipped when the job resumes.
+   * Each returns false when the job is not in a state the action applies to.
+   */
+  async pauseJob(jobId: number): Promise<boolean> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || job.status !== CONFIG.STATUS.PROCESSING) {
+      return false;
     }
 
-    return jobId;
+    const entry = await this.storage.getQueueEntryByJob(jobId);
+    if (entry && (entry.status === CONFIG.QUEUE_STATUS.QUEUED || entry.status === CONFIG.QUEUE_STATUS.LEASED)) {
+      await this.storage.updateQueueEntry(entry.id, { status: CONFIG.QUEUE_STATUS.PAUSED });
+    }
+    await this.storage.updateJobStatus(jobId, CONFIG.STATUS.PAUSED);
+    await this.publishJob(jobId, 'status');
+    return true;
+  }
+
+  async stopJob(jobId: number): Promise<boolean> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || job.status === CONFIG.STATUS.COMPLETED || job.status === CONFIG.STATUS.FAILED) {
+      return false;
+    }
+
+    const entry = await this.storage.getQueueEntryByJob(jobId);
+    if (entry) {
+      await this.storage.updateQueueEntry(entry.id, {
+        status: CONFIG.QUEUE_STATUS.FAILED,
+        lastError: 'Stopped by user',
+      });
+    }
+    await this.storage.updateJobStatus(jobId, CONFIG.STATUS.FAILED, { completedAt: new Date() });
+    await this.publishJob(jobId, 'status');
+    return true;
+  }
+
+  async resumeJob(jobId: number): Promise<boolean> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || (job.status !== CONFIG.STATUS.PAUSED && job.status !== CONFIG.STATUS.REAUTH_REQUIRED)) {
+      return false;
+    }
+
+    await this.storage.updateJobStatus(jobId, CONFIG.STATUS.PROCESSING);
+    const entry = await this.storage.getQueueEntryByJob(jobId);
+    if (entry) {
+      await this.storage.updateQueueEntry(entry.id, {
+        status: CONFIG.QUEUE_STATUS.QUEUED,
+        workerId: null,
+        leaseExpiresAt: null,
+      });
+    } else {
+      await this.storage.enqueueJob({
+        jobId,
+        userId: job.userId,
+        batchSize: job.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+      });
+    }
+    await this.publishJob(jobId, 'status');
+    this.poll();
+    return true;
   }
 
-  async pauseJob(jobId: number): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (job && job.status === 'processing') {
-      job.status = 'paused';
+  /**
+   * Re-queue jobs that were parked waiting for the user to reconnect LinkedIn.
+   */
+  async resumeReauthRequiredJobs(userId: number): Promise<void> {
+    const jobs = await this.storage.getJobsByUser(userId);
+
+    for (const job of jobs.filter(j => j.status === CONFIG.STATUS.REAUTH_REQUIRED)) {
+      await this.resumeJob(job.id);
+      logger.info(`Resumed job ${job.id} after LinkedIn reconnect`, { jobId: job.id, userId });
     }
   }
 
-  async stopJob(jobId: number): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      job.status = 'failed';
+  /**
+   * Give a finished job's failed and retrying profiles another attempt right
+   * away. Returns the number of profiles queued, or null if the job is still
+   * running.
+   */
+  async retryFailedProfiles(jobId: number): Promise<number | null> {
+    const job = await this.storage.getJob(jobId);
+    if (!job || (job.status !== CONFIG.STATUS.COMPLETED && job.status !== CONFIG.STATUS.FAILED)) {
+      return null;
+    }
+
+    const profiles = [
+      ...await this.storage.getFailedProfiles(jobId),
+      ...await this.storage.getProfilesByJobAndStatus(jobId, [CONFIG.STATUS.RETRYING]),
+    ];
+    if (profiles.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    for (const profile of profiles) {
+      await this.storage.updateProfileStatus(profile.id, CONFIG.STATUS.RETRYING, { nextRetryAt: now });
     }
+    await this.requeueForRetry(jobId, job.userId, job.batchSize);
+    return profiles.length;
   }
 
-  async resumeJob(jobId: number): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (job && job.status === 'paused') {
-      job.status = 'pending';
-      if (!this.processing) {
-        this.startProcessing();
+  /**
+   * Re-queue finished jobs that have retrying profiles whose backoff is over.
+   */
+  async requeueDueRetries(): Promise<number> {
+    const jobIds = await this.storage.getJobIdsWithDueRetries(new Date());
+
+    for (const jobId of jobIds) {
+      const job = await this.storage.getJob(jobId);
+      if (job) {
+        await this.requeueForRetry(jobId, job.userId, job.batchSize);
+        logger.info(`Re-queued job ${jobId} for a retry pass`, { jobId });
       }
     }
+    return jobIds.length;
   }
 
-  private async startProcessing(): Promise<void> {
-    if (this.processing) return;
-    
-    this.processing = true;
+  private async requeueForRetry(jobId: number, userId: number, batchSize: number | null): Promise<void> {
+    const statusCounts = await this.storage.getProfileStatusCounts(jobId);
+    await this.storage.updateJobStatus(jobId, CONFIG.STATUS.PROCESSING, {
+      ...this.progressFromCounts(statusCounts),
+      completedAt: null,
+    });
+    await this.publishJob(jobId, 'status');
+    await this.storage.enqueueJob({
+      jobId,
+      userId,
+      batchSize: batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+      retryPass: true,
+    });
+    this.poll();
+  }
 
-    while (this.processing) {
-      const nextJob = this.getNextJob();
-      if (!nextJob) {
-        this.processing = false;
-        break;
+  /**
+   * Jobs left in 'processing' without a queue entry (e.g. started before the
+   * queue was persisted) are re-queued. Entries whose lease has expired need
+   * no special handling: they are claimable again.
+   */
+  private async recoverOrphanedJobs(): Promise<void> {
+    const processingJobs = await this.storage.getJobsByStatus(CONFIG.STATUS.PROCESSING);
+
+    for (const job of processingJobs) {
+      const entry = await this.storage.getQueueEntryByJob(job.id);
+      if (!entry) {
+        await this.storage.enqueueJob({
+          jobId: job.id,
+          userId: job.userId,
+          batchSize: job.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE,
+        });
+        logger.info(`Recovered orphaned job ${job.id}`, { jobId: job.id });
       }
+    }
+  }
 
-      await this.processJob(nextJob);
+  /**
+   * Fill free worker slots with claimable jobs. Several jobs run at once, up
+   * to MAX_CONCURRENT_JOBS per server and MAX_CONCURRENT_JOBS_PER_USER per user.
+   */
+  private async poll(): Promise<void> {
+    if (this.filling) return;
+
+    this.filling = true;
+
+    try {
+      while (this.activeJobs.size < CONFIG.JOB_PROCESSING.MAX_CONCURRENT_JOBS) {
+        const entry = await this.claimNextEntry();
+        if (!entry) break;
+
+        this.runJob(entry);
+      }
+    } catch (error) {
+      logger.error('Job queue polling failed', error);
+    } finally {
+      this.filling = false;
     }
   }
 
-  private getNextJob(): ProcessingJob | null {
-    for (const job of Array.from(this.jobs.values())) {
-      if (job.status === 'pending') {
-        return job;
+  private runJob(entry: QueueEntry): void {
+    this.activeJobs.set(entry.jobId, entry);
+
+    this.processJob(entry)
+      .catch(error => logger.error(`Worker crashed on job ${entry.jobId}`, error))
+      .finally(() => {
+        this.activeJobs.delete(entry.jobId);
+        // A slot just freed up
+        this.poll();
+      });
+  }
+
+  /**
+   * Round-robin between users: among users with claimable work and spare
+   * per-user capacity, the one served least recently goes first, and their
+   * oldest queued job is claimed.
+   */
+  private async claimNextEntry(): Promise<QueueEntry | null> {
+    const candidates = await this.storage.getClaimableQueueEntries();
+    if (candidates.length === 0) return null;
+
+    const runningByUser = await this.storage.getLeasedJobCountsByUser();
+    const nextEntryByUser = new Map<number, QueueEntry>();
+
+    for (const candidate of candidates) {
+      // An expired lease on a job this server is still running: the worker
+      // is merely slow, and taking the job again would run it twice
+      if (this.activeJobs.has(candidate.jobId)) continue;
+      const running = runningByUser.get(candidate.userId) || 0;
+      if (running >= CONFIG.JOB_PROCESSING.MAX_CONCURRENT_JOBS_PER_USER) continue;
+      // Candidates are ordered oldest first
+      if (!nextEntryByUser.has(candidate.userId)) {
+        nextEntryByUser.set(candidate.userId, candidate);
+      }
+    }
+
+    const userOrder = Array.from(nextEntryByUser.keys()).sort(
+      (a, b) => (this.lastServedAt.get(a) || 0) - (this.lastServedAt.get(b) || 0)
+    );
+
+    for (const userId of userOrder) {
+      const candidate = nextEntryByUser.get(userId)!;
+      // Each claim gets its own lease owner, so a worker whose lease expired and
+      // was re-claimed can't renew it, even on the same server
+      const claimed = await this.storage.claimQueueEntry(candidate.id, `${this.workerId}:${randomUUID()}`, this.leaseExpiry());
+      if (claimed) {
+        this.lastServedAt.set(userId, Date.now());
+        return claimed;
       }
     }
     return null;
   }
 
-  private async processJob(job: ProcessingJob): Promise<void> {
+  private leaseExpiry(): Date {
+    return new Date(Date.now() + CONFIG.JOB_QUEUE.LEASE_DURATION);
+  }
+
+  private async processJob(entry: QueueEntry): Promise<void> {
+    const jobId = entry.jobId;
+    const leaseOwner = entry.workerId!;
+
     try {
-      job.status = 'processing';
-      
+      const job = await this.storage.getJob(jobId);
+      if (!job) {
+        throw new Error(`Job ${jobId} not found`);
+      }
+
       // Update job status in storage
-      await this.storage.updateJobStatus(job.data.jobId, 'processing', {
-        startedAt: new Date(),
+      await this.storage.updateJobStatus(jobId, 'processing', {
+        startedAt: job.startedAt || new Date(),
       });
+      await this.publishJob(jobId, 'status');
+
+      // Profile rows are normally created at upload time; only fall back to
+      // parsing the file when a job has none yet.
+      const existingProfiles = await this.storage.getProfilesByJob(jobId);
+      if (existingProfiles.length === 0) {
+        const linkedinUrls = await this.excelParser.parseLinkedInUrls(
+          job.filePath,
+          job.fileName,
+          job.columnMapping as ColumnMapping | null
+        );
+
+        if (linkedinUrls.length === 0) {
+          throw new Error('No LinkedIn URLs found in the uploaded file');
+        }
 
-      // Parse LinkedIn URLs from the uploaded file
-      const linkedinUrls = await this.excelParser.parseLinkedInUrls(job.data.filePath);
-      
-      if (linkedinUrls.length === 0) {
-        throw new Error('No LinkedIn URLs found in the uploaded file');
+        for (const urlData of linkedinUrls) {
+          await this.storage.createProfile({
+            jobId,
+            linkedinUrl: urlData.url,
+            canonicalId: urlData.canonicalId,
+            status: 'pending',
+            sourceRow: urlData.rowIndex,
+            sourceData: urlData.additionalData ?? null,
+          });
+        }
       }
 
-      // Create profile records
-      for (const urlData of linkedinUrls) {
-        await this.storage.createProfile({
-          jobId: job.data.jobId,
-          linkedinUrl: urlData.url,
-          status: 'pending',
-        });
-      }
+      const provider = this.profileProviders.get(job.provider);
 
-      // Get user's LinkedIn access token
-      const user = await this.storage.getUser(job.data.userId);
-      if (!user?.linkedinAccessToken) {
-        throw new Error('LinkedIn authentication required');
+      // Only the official API needs the user's LinkedIn access token; make sure
+      // one is usable (refreshing if close to expiry) before starting
+      if (provider.requiresLinkedInAuth) {
+        await this.tokenManager.getValidAccessToken(entry.userId);
       }
 
+      // Resume is driven by the profiles table: settled profiles are skipped
+      // and the job's counters are rebuilt from the stored statuses. Retrying
+      // profiles wait for their backoff; the RetryScheduler re-queues the job
+      // once they are due.
+      const now = new Date();
+      const remainingProfiles = (await this.storage.getProfilesByJobAndStatus(jobId, [
+        CONFIG.STATUS.PENDING,
+        CONFIG.STATUS.RETRYING,
+      ])).filter(p => p.status === CONFIG.STATUS.PENDING || !p.nextRetryAt || p.nextRetryAt <= now);
+      const statusCounts = await this.storage.getProfileStatusCounts(jobId);
+      const totalProfiles = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+
+      await this.storage.updateJobProgress(jobId, {
+        totalProfiles,
+        ...this.progressFromCounts(statusCounts),
+      });
+
+      // Cached extractions younger than the job's freshness window are reused
+      const cacheCutoff = job.cacheMaxAgeDays > 0
+        ? new Date(Date.now() - job.cacheMaxAgeDays * 24 * 60 * 60 * 1000)
+        : null;
+
       // Process profiles in batches
-      const batchSize = job.data.batchSize;
-      let processed = 0;
-      let successful = 0;
-      let failed = 0;
+      const batchSize = entry.batchSize || CONFIG.JOB_PROCESSING.DEFAULT_BATCH_SIZE;
+      let processedThisRun = 0;
       const startTime = Date.now();
 
-      for (let i = 0; i < linkedinUrls.length; i += batchSize) {
-        // Check if job was paused or stopped
-        const currentJob = this.jobs.get(job.id);
-        if (currentJob?.status !== 'processing') {
-          return;
-        }
-
-        const batch = linkedinUrls.slice(i, i + batchSize);
+      for (let i = 0; i < remainingProfiles.length; i += batchSize) {
+        const batch = remainingProfiles.slice(i, i + batchSize);
         
-        for (const urlData of batch) {
+        for (const profileRecord of batch) {
+          // Renewing the lease doubles as the pause/stop check: it fails once
+          // the entry is paused, stopped or taken over by another worker.
+          const stillLeased = await this.storage.renewQueueLease(entry.id, leaseOwner, this.leaseExpiry());
+          if (!stillLeased) {
+            logger.info(`Job ${jobId} released by worker ${leaseOwner}`, { jobId });
+            return;
+          }
+
+          const previousStatus = profileRecord.status;
+          let outcome: string;
+          let errorType: string | undefined;
+          let cacheHit = false;
           try {
-            const profile = await this.extractProfileWithRetry(
-              user.linkedinAccessToken,
-              urlData.url,
-              3 // max retries
-            );
-
-            // Update profile record
-            const profiles = await this.storage.getProfilesByJob(job.data.jobId);
-            const profileRecord = profiles.find(p => p.linkedinUrl === urlData.url);
-            
-            if (profileRecord) {
+            const cached = cacheCutoff && profileRecord.canonicalId
+              ? await this.storage.getCachedProfile(profileRecord.canonicalId, job.provider, cacheCutoff)
+              : undefined;
+
+            if (cached) {
+              // Never reaches the provider, so it doesn't count against the API quota
+              await this.storage.updateProfileStatus(profileRecord.id, 'success', {
+                profileData: cached.profileData,
+                extractedAt: cached.extractedAt,
+                cacheHit: true,
+                nextRetryAt: null,
+              });
+              cacheHit = true;
+            } else {
+              const request: ProfileRequest = {
+                profileUrl: profileRecord.linkedinUrl,
+                userId: entry.userId,
+              };
+              const profile = provider.requiresLinkedInAuth
+                ? await this.tokenManager.withAccessToken(entry.userId, accessToken =>
+                    this.extractProfileWithRetry(provider, { ...request, accessToken }, CONFIG.JOB_PROCESSING.MAX_RETRIES)
+                  )
+                : await this.extractProfileWithRetry(provider, request, CONFIG.JOB_PROCESSING.MAX_RETRIES);
+
+              const extractedAt = new Date();
               await this.storage.updateProfileStatus(profileRecord.id, 'success', {
                 profileData: profile,
-                extractedAt: new Date(),
+                extractedAt,
+                cacheHit: false,
                 retryCount: profileRecord.retryCount || 0,
+                nextRetryAt: null,
               });
+
+              if (profileRecord.canonicalId) {
+                await this.storage.saveCachedProfile({
+                  canonicalId: profileRecord.canonicalId,
+                  provider: job.provider,
+                  profileData: profile,
+                  extractedAt,
+                });
+                await this.storage.createProfileSnapshot({
+                  canonicalId: profileRecord.canonicalId,
+                  profileId: profileRecord.id,
+                  jobId,
+                  provider: job.provider,
+                  profileData: profile,
+                  extractedAt,
+                });
+              }
             }
 
-            successful++;
+            outcome = CONFIG.STATUS.SUCCESS;
           } catch (error) {
-            const profiles = await this.storage.getProfilesByJob(job.data.jobId);
-            const profileRecord = profiles.find(p => p.linkedinUrl === urlData.url);
-            
-            if (profileRecord) {
-              const errorType = this.categorizeError(error);
-              const retryCount = (profileRecord.retryCount || 0) + 1;
-              
-              // Determine if profile should be retried
-              const shouldRetry = retryCount < 3 && 
-                                errorType !== CONFIG.ERROR_TYPES.NOT_FOUND &&
-                                errorType !== CONFIG.ERROR_TYPES.ACCESS_RESTRICTED;
-              
-              await this.storage.updateProfileStatus(profileRecord.id, shouldRetry ? 'retrying' : 'failed', {
-                errorType,
-                errorMessage: error instanceof Error ? error.message : 'Unknown error',
-                lastAttempt: new Date(),
-                retryCount,
-              });
+            // Not the profile's fault; park the whole job until the user reconnects
+            if (error instanceof ReauthRequiredError) {
+              throw error;
             }
 
-            failed++;
+            errorType = categorizeError(error);
+            const retryCount = (profileRecord.retryCount || 0) + 1;
+            
+            // Determine if profile should be retried
+            const shouldRetry = retryCount < CONFIG.JOB_PROCESSING.MAX_RETRIES && 
+                              errorType !== CONFIG.ERROR_TYPES.NOT_FOUND &&
+                              errorType !== CONFIG.ERROR_TYPES.ACCESS_RESTRICTED &&
+                              errorType !== CONFIG.ERROR_TYPES.INVALID_URL;
+            outcome = shouldRetry ? CONFIG.STATUS.RETRYING : CONFIG.STATUS.FAILED;
+            
+            await this.storage.updateProfileStatus(profileRecord.id, outcome, {
+              errorType,
+              errorMessage: error instanceof Error ? error.message : 'Unknown error',
+              lastAttempt: new Date(),
+              retryCount,
+              nextRetryAt: shouldRetry ? this.nextRetryAt(errorType, retryCount, error) : null,
+            });
           }
 
-          processed++;
-          
+          statusCounts[previousStatus]--;
+          statusCounts[outcome] = (statusCounts[outcome] || 0) + 1;
+          processedThisRun++;
+
           // Update job progress
           const elapsed = Date.now() - startTime;
-          const rate = (processed / (elapsed / 1000 / 60)).toFixed(1); // profiles per minute
-          const remaining = linkedinUrls.length - processed;
+          const rate = (processedThisRun / (elapsed / 1000 / 60)).toFixed(1); // profiles per minute
+          const remaining = remainingProfiles.length - processedThisRun;
           const eta = remaining > 0 ? new Date(Date.now() + (remaining / parseFloat(rate)) * 60 * 1000) : null;
 
-          await this.storage.updateJobStatus(job.data.jobId, 'processing', {
-            processedProfiles: processed,
-            successfulProfiles: successful,
-            failedProfiles: failed,
+          await this.storage.updateJobProgress(jobId, {
+            ...this.progressFromCounts(statusCounts),
             processingRate: `${rate} profiles/min`,
             estimatedCompletion: eta,
           });
 
-          // Rate limiting - wait between requests
-          await this.delay(CONFIG.JOB_PROCESSING.RATE_LIMIT_DELAY);
+          this.jobEvents.publish({
+            type: 'profile',
+            jobId,
+            data: {
+              id: profileRecord.id,
+              linkedinUrl: profileRecord.linkedinUrl,
+              status: outcome,
+              errorType,
+              cacheHit,
+            },
+          });
+          await this.publishJob(jobId, 'progress');
+
+          if (outcome === CONFIG.STATUS.SUCCESS) {
+            await this.webhooks.emit(entry.userId, 'profile.extracted', async () => {
+              const extracted = await this.storage.getProfile(profileRecord.id);
+              return { profile: extracted ? toWebhookProfile(extracted) : { id: profileRecord.id } };
+            });
+          }
         }
 
         // Longer delay between batches
         await this.delay(CONFIG.JOB_PROCESSING.BATCH_DELAY);
       }
 
-      // Job completed
-      job.status = 'completed';
-      
-      // Generate results file
-      const profiles = await this.storage.getProfilesByJob(job.data.jobId);
-      const processedProfiles = profiles.map(p => {
-        let profileData;
-        try {
-          profileData = p.profileData ? 
-            (typeof p.profileData === 'string' ? JSON.parse(p.profileData) : p.profileData) : 
-            undefined;
-        } catch (parseError) {
-          logger.error('Failed to parse profile data:', parseError);
-          profileData = undefined;
-        }
-        
-        return {
-          url: p.linkedinUrl,
-          status: p.status as 'success' | 'failed',
-          data: profileData,
-          error: p.errorMessage || undefined,
-          errorType: p.errorType || undefined,
-        };
-      });
+      // A pause or stop that landed after the last profile still wins
+      const stillLeased = await this.storage.renewQueueLease(entry.id, leaseOwner, this.leaseExpiry());
+      if (!stillLeased) {
+        return;
+      }
 
-      // Need to create exporter instance here
+      // Generate results file
       const { ExcelExporter } = await import('./excel/exporter');
       const exporter = new ExcelExporter();
-      const resultPath = await exporter.saveJobResults(job.data.jobId, processedProfiles);
+      const resultPath = await exporter.saveJobResults(jobId);
 
-      await this.storage.updateJobStatus(job.data.jobId, 'completed', {
+      await this.storage.updateJobStatus(jobId, 'completed', {
         completedAt: new Date(),
         resultPath,
       });
-
-      // Clean up completed job from memory to prevent memory leaks
-      this.jobs.delete(job.id);
+      await this.publishJob(jobId, 'status');
+      await this.emitJobWebhook(entry.userId, jobId, 'job.completed', { retryPass: entry.retryPass });
+      await this.storage.updateQueueEntry(entry.id, {
+        status: CONFIG.QUEUE_STATUS.COMPLETED,
+        workerId: null,
+        leaseExpiresAt: null,
+      });
 
     } catch (error) {
-      job.status = 'failed';
-      await this.storage.updateJobStatus(job.data.jobId, 'failed', {
+      if (error instanceof ReauthRequiredError) {
+        logger.warn(`Job ${jobId} paused: ${error.message}`, { jobId });
+        await this.storage.updateJobStatus(jobId, CONFIG.STATUS.REAUTH_REQUIRED);
+        await this.publishJob(jobId, 'status');
+        await this.storage.updateQueueEntry(entry.id, {
+          status: CONFIG.QUEUE_STATUS.PAUSED,
+          workerId: null,
+          leaseExpiresAt: null,
+          lastError: error.message,
+        });
+        return;
+      }
+
+      logger.error(`Job ${jobId} failed`, error);
+      await this.storage.updateJobStatus(jobId, 'failed', {
         completedAt: new Date(),
       });
-      
-      // Clean up failed job from memory to prevent memory leaks
-      this.jobs.delete(job.id);
+      await this.publishJob(jobId, 'status');
+      await this.emitJobWebhook(entry.userId, jobId, 'job.failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryPass: entry.retryPass,
+      });
+      await this.storage.updateQueueEntry(entry.id, {
+        status: CONFIG.QUEUE_STATUS.FAILED,
+        workerId: null,
+        leaseExpiresAt: null,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 
+  private async emitJobWebhook(
+    userId: number,
+    jobId: number,
+    event: 'job.started' | 'job.completed' | 'job.failed',
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.webhooks.emit(userId, event, async () => {
+      const job = await this.storage.getJob(jobId);
+      return { job: job ? toWebhookJob(job) : { id: jobId }, ...extra };
+    });
+  }
+
+  /**
+   * Push the job's current summary to its SSE subscribers. Skipped when nobody
+   * is listening so workers don't re-read the job for nothing.
+   */
+  private async publishJob(jobId: number, type: 'status' | 'progress'): Promise<void> {
+    if (!this.jobEvents.hasSubscribers(jobId)) return;
+
+    try {
+      const job = await this.storage.getJob(jobId);
+      if (job) {
+        this.jobEvents.publish({ type, jobId, data: toJobStatusPayload(job) });
+      }
+    } catch (error) {
+      logger.error(`Failed to publish ${type} event for job ${jobId}`, error);
+    }
+  }
+
+  private nextRetryAt(errorType: string, retryCount: number, error?: unknown): Date {
+    const { BASE_DELAYS, MAX_DELAY } = CONFIG.RETRY_SCHEDULER;
+    const baseDelay = BASE_DELAYS[errorType] ?? BASE_DELAYS.unknown;
+    let delay = Math.min(baseDelay * Math.pow(2, Math.max(0, retryCount - 1)), MAX_DELAY);
+
+    // Never come back before LinkedIn said we may
+    if (error instanceof RateLimitError && error.retryAfter) {
+      delay = Math.max(delay, error.retryAfter * 1000);
+    }
+    return new Date(Date.now() + delay);
+  }
+
+  private progressFromCounts(counts: Record<string, number>): Partial<Job> {
+    const successful = counts[CONFIG.STATUS.SUCCESS] || 0;
+    const failed = counts[CONFIG.STATUS.FAILED] || 0;
+    const retrying = counts[CONFIG.STATUS.RETRYING] || 0;
+
+    return {
+      processedProfiles: successful + failed + retrying,
+      successfulProfiles: successful,
+      failedProfiles: failed,
+      retryingProfiles: retrying,
+    };
+  }
+
   private async extractProfileWithRetry(
-    accessToken: string, 
-    profileUrl: string, 
+    provider: ProfileProvider,
+    request: ProfileRequest,
     maxRetries: number
-  ): Promise<any> {
+  ): Promise<ProfileData> {
     let retryCount = 0;
-    let delay = 1000; // Start with 1 second
+    let delay = CONFIG.JOB_PROCESSING.RETRY_DELAY;
 
     while (retryCount < maxRetries) {
       try {
-        // Simulate realistic API delay
-        await this.delay(1500 + Math.random() * 1000);
-        
-        // Simulate 95% success rate for realistic behavior
-        const shouldSucceed = Math.random() < 0.95;
-        
-        if (shouldSucceed) {
-          // Use mock profile generator for realistic data
-          const extractedProfile = mockProfileGenerator.generateProfileFromUrl(profileUrl);
-          
-          // Convert to LinkedIn profile format for compatibility
-          return {
-            id: profileUrl.split('/').pop() || 'unknown',
-            firstName: extractedProfile.firstName,
-            lastName: extractedProfile.lastName,
-            headline: extractedProfile.headline,
-          summary: extractedProfile.summary,
-          industry: extractedProfile.industry,
-          location: extractedProfile.location,
-          publicProfileUrl: profileUrl,
-          positions: extractedProfile.experience.map(exp => ({
-            title: exp.title,
-            company: exp.company,
-            startDate: exp.duration.split('-')[0] || '',
-            endDate: exp.duration.split('-')[1] || undefined,
-            description: exp.description
-          })),
-          education: extractedProfile.education.map(edu => ({
-            school: edu.school,
-            degree: edu.degree,
-            fieldOfStudy: edu.field,
-            startDate: edu.year,
-            endDate: edu.year
-          })),
-          skills: extractedProfile.skills,
-          currentPosition: extractedProfile.currentPosition,
-          currentCompany: extractedProfile.currentCompany,
-          email: extractedProfile.email,
-          phone: extractedProfile.phone,
-          connections: extractedProfile.connections,
-          profilePicture: extractedProfile.profilePicture
-        };
-        } else {
-          // Simulate various LinkedIn API errors
-          const errorTypes = ['rate_limit', 'profile_not_found', 'access_restricted', 'captcha_required'];
-          const errorType = errorTypes[Math.floor(Math.random() * errorTypes.length)];
-          throw new Error(`Simulated LinkedIn API error: ${errorType}`);
-        }
+        return this.validateProfileData(provider, request, await provider.extractProfile(request));
       } catch (error) {
-        const errorType = this.categorizeError(error);
+        const errorType = categorizeError(error);
         
-        // Don't retry for certain error types
-        if (errorType === CONFIG.ERROR_TYPES.ACCESS_RESTRICTED || errorType === CONFIG.ERROR_TYPES.NOT_FOUND) {
+        // Don't retry for certain error types; expired tokens are handled by the
+        // token manager and rate limits are rescheduled by the RetryScheduler
+        if (errorType === CONFIG.ERROR_TYPES.ACCESS_RESTRICTED ||
+            errorType === CONFIG.ERROR_TYPES.NOT_FOUND ||
+            errorType === CONFIG.ERROR_TYPES.INVALID_URL ||
+            errorType === CONFIG.ERROR_TYPES.RATE_LIMIT) {
           throw error;
         }
 
@@ -343,22 +677,18 @@ export class JobQueue {
     throw new Error('Max retries exceeded');
   }
 
-  private categorizeError(error: unknown): string {
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase();
-      
-      if (message.includes('captcha') || message.includes('challenge')) {
-        return CONFIG.ERROR_TYPES.CAPTCHA;
-      } else if (message.includes('not found') || message.includes('404')) {
-        return CONFIG.ERROR_TYPES.NOT_FOUND;
-      } else if (message.includes('restricted') || message.includes('403') || message.includes('unauthorized')) {
-        return CONFIG.ERROR_TYPES.ACCESS_RESTRICTED;
-      } else if (message.includes('rate limit') || message.includes('429')) {
-        return CONFIG.ERROR_TYPES.RATE_LIMIT;
-      }
+  // Provider types are only compile-time; AI output in particular can be anything
+  private validateProfileData(provider: ProfileProvider, request: ProfileRequest, output: unknown): ProfileData {
+    const result = profileDataSchema.safeParse(output);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'profile'}: ${issue.message}`);
+      throw new ProfileExtractionError(
+        CONFIG.ERROR_TYPES.INVALID_DATA,
+        `Invalid profile data from ${provider.name} provider (${issues.slice(0, 3).join('; ')})`,
+        request.profileUrl
+      );
     }
-    
-    return 'unknown';
+    return result.data;
   }
 
   private delay(ms: number): Promise<void> {
@@ -366,5 +696,36 @@ export class JobQueue {
   }
 }
 
+/**
+ * Maps a provider error to one of CONFIG.ERROR_TYPES. Providers throw
+ * RateLimitError or ProfileExtractionError; matching the message is only a
+ * fallback for errors from elsewhere, e.g. the network or OpenAI.
+ */
+export function categorizeError(error: unknown): string {
+  if (error instanceof RateLimitError) {
+    return CONFIG.ERROR_TYPES.RATE_LIMIT;
+  }
+
+  if (error instanceof ProfileExtractionError) {
+    return error.errorType;
+  }
+
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    
+    if (message.includes('captcha') || message.includes('challenge')) {
+      return CONFIG.ERROR_TYPES.CAPTCHA;
+    } else if (message.includes('not found') || message.includes('404')) {
+      return CONFIG.ERROR_TYPES.NOT_FOUND;
+    } else if (message.includes('restricted') || message.includes('403') || message.includes('unauthorized')) {
+      return CONFIG.ERROR_TYPES.ACCESS_RESTRICTED;
+    } else if (message.includes('rate limit') || message.includes('429')) {
+      return CONFIG.ERROR_TYPES.RATE_LIMIT;
+    }
+  }
+  
+  return 'unknown';
+}
+
 // JobQueue is now instantiated via the dependency container
 // Import from './dependency-container' to use the jobQueue instance
@@ -1,4 +1,5 @@
 import { storage } from '../storage';
+import type { ProfileData } from '@shared/schema';
 
 interface SimulationConfig {
   minDelay: number;
@@ -33,7 +34,7 @@ export class JobSimulator {
       const isSuccess = Math.random() < this.config.successRate;
       
       if (isSuccess) {
-        const mockProfileData = this.generateMockProfileData();
+        const mockProfileData = this.generateMockProfileData(profile.linkedinUrl);
         await storage.updateProfileStatus(profile.id, 'success', {
           profileData: mockProfileData,
           extractedAt: new Date(),
@@ -71,7 +72,7 @@ export class JobSimulator {
     });
   }
 
-  private generateMockProfileData() {
+  private generateMockProfileData(publicProfileUrl: string): ProfileData {
     const firstNames = ['John', 'Jane', 'Mike', 'Sarah', 'David', 'Emily', 'Robert', 'Lisa'];
     const lastNames = ['Doe', 'Smith', 'Johnson', 'Wilson', 'Brown', 'Davis', 'Miller', 'Taylor'];
     const titles = ['Software Engineer', 'Product Manager', 'Marketing Director', 'Data Scientist', 'UX Designer', 'Sales Executive', 'HR Manager', 'Operations Lead'];
@@ -86,6 +87,7 @@ export class JobSimulator {
       id: Math.random().toString(36).substr(2, 9),
       firstName: this.randomChoice(firstNames),
       lastName: this.randomChoice(lastNames),
+      publicProfileUrl,
       headline: this.randomChoice(titles),
       summary: 'Experienced professional with a passion for innovation and technology. Proven track record of delivering results in fast-paced environments.',
       industry: this.randomChoice(industries),
@@ -94,7 +96,6 @@ export class JobSimulator {
         title: this.randomChoice(titles),
         company: this.randomChoice(companies),
         startDate: '2022-01',
-        endDate: null,
         description: 'Leading development of innovative software solutions and managing cross-functional teams.'
       }],
       education: [{
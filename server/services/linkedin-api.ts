@@ -1,47 +1,37 @@
+import { randomBytes } from 'crypto';
+import type { ProfileData } from '@shared/schema';
+import { CONFIG } from '../config/constants';
+import { ProfileExtractionError, RateLimitError } from '../types/errors';
+import { linkedInRateLimiter } from './linkedin-rate-limiter';
+
 interface LinkedInTokens {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
 }
 
-interface LinkedInProfile {
-  id: string;
-  firstName: string;
-  lastName: string;
-  headline: string;
-  summary: string;
-  industry: string;
-  location: string;
-  profilePictureUrl: string;
-  publicProfileUrl: string;
-  positions: Array<{
-    title: string;
-    company: string;
-    startDate: string;
-    endDate?: string;
-    description: string;
-  }>;
-  education: Array<{
-    school: string;
-    degree: string;
-    fieldOfStudy: string;
-    startDate: string;
-    endDate?: string;
-  }>;
-}
-
 export class LinkedInService {
   private clientId: string;
   private clientSecret: string;
   private redirectUri: string;
+  private apiBaseUrl: string;
+  private oauthBaseUrl: string;
+  // OAuth state -> user who started the flow, so the callback knows whom the tokens belong to
+  private pendingStates = new Map<string, { userId: number; expiresAt: number }>();
 
   constructor() {
     this.clientId = process.env.LINKEDIN_CLIENT_ID || process.env.VITE_LINKEDIN_CLIENT_ID || "default_client_id";
     this.clientSecret = process.env.LINKEDIN_CLIENT_SECRET || "default_client_secret";
     this.redirectUri = process.env.LINKEDIN_REDIRECT_URI || `${process.env.REPLIT_DOMAINS?.split(',')[0] || 'http://localhost:5000'}/api/auth/linkedin/callback`;
+    this.apiBaseUrl = CONFIG.LINKEDIN.API_BASE_URL;
+    this.oauthBaseUrl = CONFIG.LINKEDIN.OAUTH_BASE_URL;
   }
 
-  getAuthUrl(): string {
+  isConfigured(): boolean {
+    return !!(process.env.LINKEDIN_CLIENT_ID || process.env.VITE_LINKEDIN_CLIENT_ID);
+  }
+
+  getAuthUrl(userId: number): string {
     const scopes = [
       'r_liteprofile',
       'r_emailaddress',
@@ -49,6 +39,7 @@ export class LinkedInService {
     ].join(' ');
 
     const state = this.generateRandomState();
+    this.pendingStates.set(state, { userId, expiresAt: Date.now() + CONFIG.LINKEDIN.AUTH_STATE_TTL });
     const params = new URLSearchParams({
       response_type: 'code',
       client_id: this.clientId,
@@ -57,11 +48,28 @@ export class LinkedInService {
       state,
     });
 
-    return `https://www.linkedin.com/oauth/v2/authorization?${params.toString()}`;
+    return `${this.oauthBaseUrl}/authorization?${params.toString()}`;
   }
 
-  async exchangeCodeForTokens(code: string): Promise<LinkedInTokens> {
-    const response = await fetch('https://www.linkedin.com/oauth/v2/accessToken', {
+  // Returns the user that started the OAuth flow, or null for unknown/expired states
+  consumeAuthState(state: string): number | null {
+    const pending = this.pendingStates.get(state);
+    this.pendingStates.delete(state);
+
+    for (const [key, value] of Array.from(this.pendingStates)) {
+      if (value.expiresAt < Date.now()) {
+        this.pendingStates.delete(key);
+      }
+    }
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      return null;
+    }
+    return pending.userId;
+  }
+
+  async exchangeCodeForTokens(code: string, userId?: number): Promise<LinkedInTokens> {
+    const response = await this.linkedinFetch(`${this.oauthBaseUrl}/accessToken`, userId, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -75,6 +83,9 @@ export class LinkedInService {
       }),
     });
 
+    if (response.status === 429) {
+      throw new RateLimitError(response.retryAfter);
+    }
     if (!response.ok) {
       throw new Error(`LinkedIn token exchange failed: ${response.statusText}`);
     }
@@ -87,8 +98,8 @@ export class LinkedInService {
     };
   }
 
-  async refreshAccessToken(refreshToken: string): Promise<LinkedInTokens> {
-    const response = await fetch('https://www.linkedin.com/oauth/v2/accessToken', {
+  async refreshAccessToken(refreshToken: string, userId?: number): Promise<LinkedInTokens> {
+    const response = await this.linkedinFetch(`${this.oauthBaseUrl}/accessToken`, userId, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -101,6 +112,9 @@ export class LinkedInService {
       }),
     });
 
+    if (response.status === 429) {
+      throw new RateLimitError(response.retryAfter);
+    }
     if (!response.ok) {
       throw new Error(`LinkedIn token refresh failed: ${response.statusText}`);
     }
@@ -113,18 +127,18 @@ export class LinkedInService {
     };
   }
 
-  async getProfile(accessToken: string, profileUrl: string): Promise<LinkedInProfile> {
+  async getProfile(accessToken: string, profileUrl: string, userId?: number): Promise<ProfileData> {
     // Extract LinkedIn ID from URL
     const linkedinId = this.extractLinkedInId(profileUrl);
     if (!linkedinId) {
-      throw new Error('profile_url_invalid');
+      throw new ProfileExtractionError(CONFIG.ERROR_TYPES.INVALID_URL, 'Not a LinkedIn profile URL', profileUrl);
     }
 
     try {
       console.log(`Fetching LinkedIn profile for ID: ${linkedinId}`);
       
       // Get basic profile information
-      const profileResponse = await fetch('https://api.linkedin.com/v2/people/(id:' + linkedinId + ')', {
+      const profileResponse = await this.linkedinFetch(`${this.apiBaseUrl}/people/(id:${linkedinId})`, userId, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Connection': 'Keep-Alive',
@@ -135,11 +149,11 @@ export class LinkedInService {
       if (!profileResponse.ok) {
         console.error(`LinkedIn API error: ${profileResponse.status} - ${profileResponse.statusText}`);
         if (profileResponse.status === 403) {
-          throw new Error('access_restricted');
+          throw new ProfileExtractionError(CONFIG.ERROR_TYPES.ACCESS_RESTRICTED, 'Access to this LinkedIn profile is restricted', profileUrl);
         } else if (profileResponse.status === 404) {
-          throw new Error('profile_not_found');
+          throw new ProfileExtractionError(CONFIG.ERROR_TYPES.NOT_FOUND, 'LinkedIn profile not found', profileUrl);
         } else if (profileResponse.status === 429) {
-          throw new Error('rate_limit_exceeded');
+          throw new RateLimitError(profileResponse.retryAfter);
         } else if (profileResponse.status === 401) {
           throw new Error('unauthorized_token_expired');
         }
@@ -149,7 +163,7 @@ export class LinkedInService {
       const profileData = await profileResponse.json();
 
       // Get positions
-      const positionsResponse = await fetch(`https://api.linkedin.com/v2/positions?person=(id:${linkedinId})`, {
+      const positionsResponse = await this.linkedinFetch(`${this.apiBaseUrl}/positions?person=(id:${linkedinId})`, userId, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
         },
@@ -162,7 +176,7 @@ export class LinkedInService {
       }
 
       // Get education
-      const educationResponse = await fetch(`https://api.linkedin.com/v2/educations?person=(id:${linkedinId})`, {
+      const educationResponse = await this.linkedinFetch(`${this.apiBaseUrl}/educations?person=(id:${linkedinId})`, userId, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
         },
@@ -198,6 +212,7 @@ export class LinkedInService {
           startDate: edu.dateRange?.start ? `${edu.dateRange.start.year}-${edu.dateRange.start.month || 1}` : '',
           endDate: edu.dateRange?.end ? `${edu.dateRange.end.year}-${edu.dateRange.end.month || 1}` : undefined,
         })),
+        skills: [], // Not available through the v2 people API
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -207,6 +222,14 @@ export class LinkedInService {
     }
   }
 
+  // Every LinkedIn call goes through the shared rate limiter and is counted in api_stats
+  private async linkedinFetch(url: string, userId: number | undefined, init: RequestInit): Promise<Response & { retryAfter?: number }> {
+    await linkedInRateLimiter.acquire(userId);
+    const response = await fetch(url, init);
+    const retryAfter = await linkedInRateLimiter.recordResponse(response, userId);
+    return Object.assign(response, { retryAfter });
+  }
+
   private extractLinkedInId(profileUrl: string): string | null {
     // Extract LinkedIn ID from various URL formats
     const patterns = [
@@ -224,40 +247,9 @@ export class LinkedInService {
     return null;
   }
 
+  // The state alone ties the callback's tokens to a user, so it must not be guessable
   private generateRandomState(): string {
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15);
-  }
-
-  async withRateLimit<T>(fn: () => Promise<T>): Promise<T> {
-    const maxRetries = 3;
-    let retryCount = 0;
-    let delay = 1000; // Start with 1 second
-
-    while (retryCount < maxRetries) {
-      try {
-        return await fn();
-      } catch (error) {
-        if (error instanceof Error && error.message === 'rate_limit') {
-          retryCount++;
-          if (retryCount >= maxRetries) {
-            throw new Error('Rate limit exceeded, max retries reached');
-          }
-          
-          // Exponential backoff
-          await this.delay(delay);
-          delay *= 2;
-        } else {
-          throw error;
-        }
-      }
-    }
-
-    throw new Error('Unexpected error in rate limit handler');
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return randomBytes(32).toString('base64url');
   }
 }
 
@@ -0,0 +1,163 @@
+import { storage, type IStorage } from '../storage';
+import { CONFIG } from '../config/constants';
+import { RateLimitError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Central limiter for every outbound LinkedIn call. Each call takes a token
+ * from the app-wide bucket and from the calling user's bucket, respects any
+ * Retry-After backoff and the user's api_stats quota, and is counted in
+ * api_stats afterwards. Waits longer than MAX_WAIT fail with a
+ * RateLimitError so callers can reschedule instead of blocking.
+ */
+export class LinkedInRateLimiter {
+  private appBucket: TokenBucket;
+  private userBuckets: Map<number, TokenBucket> = new Map();
+  private appBlockedUntil: number = 0;
+  private userBlockedUntil: Map<number, number> = new Map();
+
+  constructor(private storage: IStorage) {
+    this.appBucket = { tokens: CONFIG.LINKEDIN_RATE_LIMIT.APP_BURST, updatedAt: Date.now() };
+  }
+
+  async acquire(userId?: number): Promise<void> {
+    const deadline = Date.now() + CONFIG.LINKEDIN_RATE_LIMIT.MAX_WAIT;
+
+    if (userId !== undefined) {
+      await this.waitForQuota(userId, deadline);
+    }
+
+    while (true) {
+      const wait = this.tryTake(userId);
+      if (wait === 0) return;
+
+      if (Date.now() + wait > deadline) {
+        throw new RateLimitError(Math.ceil(wait / 1000));
+      }
+      await this.delay(wait);
+    }
+  }
+
+  /**
+   * Record a completed call: count it against the user's quota and back off
+   * after a 429. LinkedIn doesn't say which throttle was hit, so the backoff
+   * applies to the user whose call was throttled (or the whole app for calls
+   * made without a user).
+   * Returns the Retry-After in seconds for throttled responses.
+   */
+  async recordResponse(response: Response, userId?: number): Promise<number | undefined> {
+    if (userId !== undefined) {
+      await this.storage.recordApiRequest(userId, CONFIG.API_LIMITS.RATE_LIMIT_WINDOW);
+    }
+
+    if (response.status !== 429) {
+      return undefined;
+    }
+
+    const retryAfter = this.parseRetryAfter(response.headers.get('retry-after'))
+      ?? CONFIG.LINKEDIN_RATE_LIMIT.DEFAULT_RETRY_AFTER;
+    const blockedUntil = Date.now() + retryAfter * 1000;
+
+    if (userId !== undefined) {
+      this.userBlockedUntil.set(userId, Math.max(this.userBlockedUntil.get(userId) || 0, blockedUntil));
+    } else {
+      this.appBlockedUntil = Math.max(this.appBlockedUntil, blockedUntil);
+    }
+    logger.warn(`LinkedIn throttled a request, backing off ${retryAfter}s`, { userId, retryAfter });
+
+    return retryAfter;
+  }
+
+  // Returns 0 once a token was taken from every applicable bucket, otherwise the ms to wait
+  private tryTake(userId?: number): number {
+    const now = Date.now();
+    const { APP_REQUESTS_PER_MINUTE, APP_BURST, USER_REQUESTS_PER_MINUTE, USER_BURST } = CONFIG.LINKEDIN_RATE_LIMIT;
+
+    this.refill(this.appBucket, APP_REQUESTS_PER_MINUTE, APP_BURST, now);
+    let wait = Math.max(
+      this.appBlockedUntil - now,
+      this.timeUntilToken(this.appBucket, APP_REQUESTS_PER_MINUTE)
+    );
+
+    let userBucket: TokenBucket | undefined;
+    if (userId !== undefined) {
+      userBucket = this.userBuckets.get(userId);
+      if (!userBucket) {
+        userBucket = { tokens: USER_BURST, updatedAt: now };
+        this.userBuckets.set(userId, userBucket);
+      }
+      this.refill(userBucket, USER_REQUESTS_PER_MINUTE, USER_BURST, now);
+      wait = Math.max(
+        wait,
+        (this.userBlockedUntil.get(userId) || 0) - now,
+        this.timeUntilToken(userBucket, USER_REQUESTS_PER_MINUTE)
+      );
+    }
+
+    if (wait > 0) {
+      return wait;
+    }
+
+    this.appBucket.tokens -= 1;
+    if (userBucket) {
+      userBucket.tokens -= 1;
+    }
+    return 0;
+  }
+
+  private refill(bucket: TokenBucket, perMinute: number, capacity: number, now: number): void {
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(capacity, bucket.tokens + (elapsed * perMinute) / 60000);
+    bucket.updatedAt = now;
+  }
+
+  private timeUntilToken(bucket: TokenBucket, perMinute: number): number {
+    if (bucket.tokens >= 1) return 0;
+    return Math.ceil(((1 - bucket.tokens) * 60000) / perMinute);
+  }
+
+  private async waitForQuota(userId: number, deadline: number): Promise<void> {
+    const stats = await this.storage.getApiStats(userId);
+    if (!stats?.resetTime || stats.resetTime.getTime() <= Date.now()) {
+      return;
+    }
+
+    const limit = stats.requestsLimit ?? CONFIG.API_LIMITS.DEFAULT_REQUEST_LIMIT;
+    if ((stats.requestsUsed || 0) < limit) {
+      return;
+    }
+
+    const resetAt = stats.resetTime.getTime();
+    if (resetAt > deadline) {
+      throw new RateLimitError(Math.ceil((resetAt - Date.now()) / 1000));
+    }
+    await this.delay(resetAt - Date.now());
+  }
+
+  // Retry-After is either delta-seconds or an HTTP date
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = parseInt(header, 10);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds);
+    }
+
+    const date = Date.parse(header);
+    if (!isNaN(date)) {
+      return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+    }
+    return undefined;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export const linkedInRateLimiter = new LinkedInRateLimiter(storage);
@@ -0,0 +1,104 @@
+import type { IStorage } from '../storage';
+import type { LinkedInService } from './linkedin-api';
+import { CONFIG } from '../config/constants';
+import { RateLimitError, ReauthRequiredError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Hands out usable LinkedIn access tokens. Tokens are refreshed shortly before
+ * they expire, and a call rejected with `unauthorized_token_expired` is retried
+ * once with a freshly refreshed token. When no refresh is possible a
+ * ReauthRequiredError is thrown so callers can ask the user to reconnect.
+ */
+export class LinkedInTokenManager {
+  // One refresh per user at a time; concurrent jobs share the result
+  private refreshing: Map<number, Promise<string>> = new Map();
+
+  constructor(
+    private storage: IStorage,
+    private linkedinService: LinkedInService
+  ) {}
+
+  async getValidAccessToken(userId: number): Promise<string> {
+    const user = await this.storage.getUser(userId);
+    if (!user?.linkedinAccessToken) {
+      throw new ReauthRequiredError('LinkedIn account is not connected');
+    }
+
+    const expiresAt = user.linkedinTokenExpiry?.getTime();
+    if (expiresAt !== undefined && expiresAt - Date.now() < CONFIG.LINKEDIN.TOKEN_REFRESH_MARGIN) {
+      return this.refresh(userId);
+    }
+
+    return user.linkedinAccessToken;
+  }
+
+  async withAccessToken<T>(userId: number, fn: (accessToken: string) => Promise<T>): Promise<T> {
+    const accessToken = await this.getValidAccessToken(userId);
+
+    try {
+      return await fn(accessToken);
+    } catch (error) {
+      if (!this.isTokenExpiredError(error)) {
+        throw error;
+      }
+    }
+
+    // The token was rejected before its recorded expiry; refresh and try once more
+    const refreshedToken = await this.refresh(userId);
+    try {
+      return await fn(refreshedToken);
+    } catch (error) {
+      if (this.isTokenExpiredError(error)) {
+        throw new ReauthRequiredError('LinkedIn rejected the refreshed access token');
+      }
+      throw error;
+    }
+  }
+
+  refresh(userId: number): Promise<string> {
+    const pending = this.refreshing.get(userId);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = this.doRefresh(userId).finally(() => {
+      this.refreshing.delete(userId);
+    });
+    this.refreshing.set(userId, refresh);
+    return refresh;
+  }
+
+  private async doRefresh(userId: number): Promise<string> {
+    const user = await this.storage.getUser(userId);
+    if (!user?.linkedinRefreshToken) {
+      throw new ReauthRequiredError('No LinkedIn refresh token available');
+    }
+
+    try {
+      const tokens = await this.linkedinService.refreshAccessToken(user.linkedinRefreshToken, userId);
+      await this.storage.updateUserLinkedInTokens(
+        userId,
+        tokens.accessToken,
+        tokens.refreshToken,
+        new Date(Date.now() + tokens.expiresIn * 1000)
+      );
+      logger.info(`Refreshed LinkedIn access token for user ${userId}`, { userId });
+      return tokens.accessToken;
+    } catch (error) {
+      // Being throttled says nothing about the refresh token; let the caller back off
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      logger.warn(`LinkedIn token refresh failed for user ${userId}`, {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new ReauthRequiredError('LinkedIn token refresh failed');
+    }
+  }
+
+  private isTokenExpiredError(error: unknown): boolean {
+    return error instanceof Error && error.message === 'unauthorized_token_expired';
+  }
+}
@@ -1,4 +1,5 @@
 import { faker } from '@faker-js/faker';
+import { getCanonicalLinkedInId } from '@shared/linkedin-url';
 
 interface MockProfile {
   firstName: string;
@@ -57,9 +58,8 @@ export class MockProfileGenerator {
   ];
 
   generateProfileFromUrl(linkedinUrl: string): MockProfile {
-    // Extract username from URL for consistent generation
-    const match = linkedinUrl.match(/linkedin\.com\/in\/([^\/\?]+)/);
-    const username = match ? match[1] : 'unknown';
+    // Seed from the canonical id so every spelling of a URL gets the same profile
+    const username = getCanonicalLinkedInId(linkedinUrl) ?? 'unknown';
     
     // Use username as seed for consistent data
     faker.seed(this.hashCode(username));
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { profileDataSchema, type Profile } from '@shared/schema';
+import { profileFileName, resumeDate, toJsonResume, toVCard, type ExtractedProfile } from './profile-formats';
+
+function extracted(data: Record<string, unknown>, profile: Partial<Profile> = {}): ExtractedProfile {
+  return {
+    id: 7,
+    jobId: 1,
+    linkedinUrl: 'https://linkedin.com/in/jane-doe?trk=x',
+    canonicalId: 'jane-doe',
+    status: 'success',
+    cacheHit: false,
+    sourceRow: 2,
+    sourceData: null,
+    errorType: null,
+    errorMessage: null,
+    retryCount: 0,
+    lastAttempt: null,
+    nextRetryAt: null,
+    extractedAt: new Date('2026-10-19T12:00:00.000Z'),
+    ...profile,
+    profileData: profileDataSchema.parse({ id: 'jane-doe', publicProfileUrl: 'https://www.linkedin.com/in/jane-doe', ...data }),
+  };
+}
+
+const jane = extracted({
+  firstName: 'Jane',
+  lastName: 'Doe',
+  headline: 'VP Engineering at Globex',
+  summary: 'Builds teams; ships software.',
+  location: 'Berlin, Berlin, Germany',
+  email: 'jane@example.com',
+  skills: ['TypeScript', 'Hiring, Coaching'],
+  positions: [
+    { title: 'VP Engineering', company: 'Globex', startDate: 'Mar 2021' },
+    { title: 'Engineer', company: 'Acme', startDate: '2016', endDate: '02/2021', description: 'Payments' },
+  ],
+  education: [{ school: 'TU Berlin', degree: 'MSc', fieldOfStudy: 'Computer Science', startDate: '2014', endDate: '2016' }],
+});
+
+describe('resumeDate', () => {
+  it('normalizes the date forms providers return', () => {
+    assert.equal(resumeDate('2019'), '2019');
+    assert.equal(resumeDate('2021-3'), '2021-03');
+    assert.equal(resumeDate('2021/03/7'), '2021-03-07');
+    assert.equal(resumeDate('03/2021'), '2021-03');
+    assert.equal(resumeDate(' September 2020 '), '2020-09');
+    assert.equal(resumeDate('Sept. 2020'), '2020-09');
+  });
+
+  it('drops the month or day when it is out of range', () => {
+    assert.equal(resumeDate('2021-13'), undefined);
+    assert.equal(resumeDate('2021-02-40'), '2021-02');
+  });
+
+  it('drops text that is not a date', () => {
+    assert.equal(resumeDate('Present'), undefined);
+    assert.equal(resumeDate('Foo 2020'), undefined);
+    assert.equal(resumeDate(''), undefined);
+    assert.equal(resumeDate(undefined), undefined);
+  });
+});
+
+describe('toJsonResume', () => {
+  it('maps the profile to JSON Resume sections', () => {
+    const resume = JSON.parse(JSON.stringify(toJsonResume(jane)));
+    assert.deepEqual(resume.basics, {
+      name: 'Jane Doe',
+      label: 'VP Engineering at Globex',
+      email: 'jane@example.com',
+      summary: 'Builds teams; ships software.',
+      location: { city: 'Berlin', region: 'Berlin' },
+      profiles: [{ network: 'LinkedIn', username: 'jane-doe', url: 'https://www.linkedin.com/in/jane-doe' }],
+    });
+    assert.deepEqual(resume.work, [
+      { name: 'Globex', position: 'VP Engineering', startDate: '2021-03' },
+      { name: 'Acme', position: 'Engineer', startDate: '2016', endDate: '2021-02', summary: 'Payments' },
+    ]);
+    assert.deepEqual(resume.education, [
+      { institution: 'TU Berlin', area: 'Computer Science', studyType: 'MSc', startDate: '2014', endDate: '2016' },
+    ]);
+    assert.deepEqual(resume.skills, [{ name: 'TypeScript' }, { name: 'Hiring, Coaching' }]);
+    assert.deepEqual(resume.meta, { lastModified: '2026-10-19T12:00:00.000Z' });
+  });
+
+  it('lists the current role as work when there are no positions', () => {
+    const resume = JSON.parse(JSON.stringify(toJsonResume(extracted({ currentPosition: 'Founder', currentCompany: 'Initech' }))));
+    assert.deepEqual(resume.work, [{ name: 'Initech', position: 'Founder' }]);
+    assert.equal(resume.basics.name, undefined);
+  });
+});
+
+describe('toVCard', () => {
+  it('writes a vCard 4.0 with escaped values', () => {
+    assert.equal(toVCard(jane), [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Jane Doe',
+      'N:Doe;Jane;;;',
+      'TITLE:VP Engineering',
+      'ORG:Globex',
+      'EMAIL:jane@example.com',
+      'ADR:;;;Berlin;Berlin;;Germany',
+      'URL:https://www.linkedin.com/in/jane-doe',
+      'X-SOCIALPROFILE;TYPE=linkedin:https://www.linkedin.com/in/jane-doe',
+      'CATEGORIES:TypeScript,Hiring\\, Coaching',
+      'NOTE:VP Engineering at Globex\\n\\nBuilds teams\\; ships software.',
+      'UID:https://www.linkedin.com/in/jane-doe',
+      'REV:20261019T120000Z',
+      'END:VCARD',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('names profiles without a name by their slug', () => {
+    const card = toVCard(extracted({}, { extractedAt: null }));
+    assert.match(card, /\r\nFN:jane-doe\r\nN:;;;;\r\n/);
+    assert.doesNotMatch(card, /REV:/);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const card = toVCard(extracted({ summary: 'ü'.repeat(100) }));
+    const note = card.slice(card.indexOf('NOTE:'), card.indexOf('\r\nUID:'));
+    const lines = note.split('\r\n');
+    assert.ok(lines.length > 1);
+    for (const line of lines) {
+      assert.ok(Buffer.byteLength(line, 'utf8') <= 75);
+      assert.ok(!line.includes('�'));
+    }
+    assert.equal(lines.map((line, i) => i === 0 ? line : line.slice(1)).join(''), `NOTE:${'ü'.repeat(100)}`);
+  });
+});
+
+describe('profileFileName', () => {
+  it('uses the slug, with characters unsafe in file names replaced', () => {
+    assert.equal(profileFileName(jane, 'vcard'), 'jane-doe.vcf');
+    assert.equal(profileFileName(extracted({}, { canonicalId: '../jürgen müller' }), 'json-resume'), '_j_rgen_m_ller.json');
+  });
+
+  it('falls back to the profile id when nothing of the slug is left', () => {
+    assert.equal(profileFileName(extracted({}, { canonicalId: '...' }), 'vcard'), 'profile_7.vcf');
+  });
+});
@@ -0,0 +1,211 @@
+import type { Profile, ProfileData, ProfileExportFormat } from '@shared/schema';
+
+/**
+ * Converts extracted profiles into formats that CRM and contact tools import:
+ * JSON Resume (https://jsonresume.org/schema, v1.0.0) and vCard 4.0
+ * (RFC 6350). Both are built from profileData alone, plus the profile's
+ * extraction time; fields that are empty are left out.
+ */
+
+export type ExtractedProfile = Profile & { profileData: ProfileData };
+
+interface ProfileFormat {
+  extension: string;
+  contentType: string;
+  serialize: (profile: ExtractedProfile) => string;
+}
+
+const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value?.trim() || undefined;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Turns the free-form dates providers return ("2021-3", "2019", "Mar 2021",
+ * "03/2021") into the YYYY, YYYY-MM or YYYY-MM-DD forms JSON Resume accepts.
+ * Anything else, such as "Present", is dropped.
+ */
+export function resumeDate(value: string | undefined): string | undefined {
+  const text = value?.trim() ?? '';
+  let year: number;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  let match: RegExpExecArray | null;
+  if ((match = /^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/.exec(text))) {
+    [year, month, day] = [Number(match[1]), match[2] ? Number(match[2]) : undefined, match[3] ? Number(match[3]) : undefined];
+  } else if ((match = /^(\d{1,2})\/(\d{4})$/.exec(text))) {
+    [year, month] = [Number(match[2]), Number(match[1])];
+  } else if ((match = /^([a-z]{3})[a-z]*\.?\s+(\d{4})$/i.exec(text)) && MONTHS.includes(match[1].toLowerCase())) {
+    [year, month] = [Number(match[2]), MONTHS.indexOf(match[1].toLowerCase()) + 1];
+  } else {
+    return undefined;
+  }
+
+  if (month === undefined || month < 1 || month > 12) {
+    return month === undefined ? String(year) : undefined;
+  }
+  if (day === undefined || day < 1 || day > 31) {
+    return `${year}-${pad(month)}`;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// "City, Region, Country" as LinkedIn writes locations
+function locationParts(location: string): { city?: string; region?: string; country?: string } {
+  const [city, region, country] = location.split(',').map(part => part.trim());
+  return { city: nonEmpty(city), region: nonEmpty(region), country: nonEmpty(country) };
+}
+
+function fullName(data: ProfileData): string {
+  return [data.firstName, data.lastName].filter(Boolean).join(' ');
+}
+
+function currentRole(data: ProfileData): { title?: string; company?: string } {
+  return {
+    title: nonEmpty(data.currentPosition || data.positions[0]?.title),
+    company: nonEmpty(data.currentCompany || data.positions[0]?.company),
+  };
+}
+
+function linkedinUrl(profile: ExtractedProfile): string {
+  return profile.profileData.publicProfileUrl || profile.linkedinUrl;
+}
+
+export function toJsonResume(profile: ExtractedProfile): object {
+  const data = profile.profileData;
+  const { city, region } = locationParts(data.location);
+  const role = currentRole(data);
+
+  // Profiles without positions still list the role they were extracted with
+  const positions = data.positions.length > 0
+    ? data.positions
+    : role.title || role.company ? [{ title: role.title ?? '', company: role.company ?? '', startDate: '', description: '' }] : [];
+
+  return {
+    $schema: JSON_RESUME_SCHEMA,
+    basics: {
+      name: nonEmpty(fullName(data)),
+      label: nonEmpty(data.headline),
+      image: nonEmpty(data.profilePictureUrl),
+      email: nonEmpty(data.email),
+      phone: nonEmpty(data.phone),
+      summary: nonEmpty(data.summary),
+      location: city || region ? { city, region } : undefined,
+      profiles: [{
+        network: 'LinkedIn',
+        username: profile.canonicalId ?? data.id,
+        url: linkedinUrl(profile),
+      }],
+    },
+    work: positions.map(position => ({
+      name: nonEmpty(position.company),
+      position: nonEmpty(position.title),
+      startDate: resumeDate(position.startDate),
+      endDate: resumeDate(position.endDate),
+      summary: nonEmpty(position.description),
+    })),
+    education: data.education.map(entry => ({
+      institution: nonEmpty(entry.school),
+      area: nonEmpty(entry.fieldOfStudy),
+      studyType: nonEmpty(entry.degree),
+      startDate: resumeDate(entry.startDate),
+      endDate: resumeDate(entry.endDate),
+    })),
+    skills: data.skills.filter(Boolean).map(name => ({ name })),
+    meta: {
+      lastModified: profile.extractedAt?.toISOString(),
+    },
+  };
+}
+
+// Text values escape backslashes, commas, semicolons and newlines (RFC 6350 3.4)
+function vcardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Lines over 75 octets continue on the next line after a space (RFC 6350 3.2),
+// split between characters so multi-byte UTF-8 sequences stay whole
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = lines.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+// 20261019T120000Z, the timestamp form REV takes
+function vcardTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function toVCard(profile: ExtractedProfile): string {
+  const data = profile.profileData;
+  const url = linkedinUrl(profile);
+  const role = currentRole(data);
+  const { city, region, country } = locationParts(data.location);
+  const skills = data.skills.filter(Boolean);
+  const note = [data.headline, data.summary].map(text => text.trim()).filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    `FN:${vcardText(fullName(data) || profile.canonicalId || data.id)}`,
+    `N:${vcardText(data.lastName)};${vcardText(data.firstName)};;;`,
+    role.title && `TITLE:${vcardText(role.title)}`,
+    role.company && `ORG:${vcardText(role.company)}`,
+    data.email && `EMAIL:${vcardText(data.email)}`,
+    data.phone && `TEL;VALUE=text:${vcardText(data.phone)}`,
+    (city || region || country) && `ADR:;;;${vcardText(city ?? '')};${vcardText(region ?? '')};;${vcardText(country ?? '')}`,
+    `URL:${url}`,
+    `X-SOCIALPROFILE;TYPE=linkedin:${url}`,
+    data.profilePictureUrl && `PHOTO:${data.profilePictureUrl}`,
+    skills.length > 0 && `CATEGORIES:${skills.map(vcardText).join(',')}`,
+    note && `NOTE:${vcardText(note)}`,
+    `UID:${url}`,
+    profile.extractedAt && `REV:${vcardTimestamp(profile.extractedAt)}`,
+    'END:VCARD',
+  ];
+  return lines.filter((line): line is string => Boolean(line)).map(foldLine).join('\r\n') + '\r\n';
+}
+
+export const PROFILE_EXPORT_FORMATS: Record<ProfileExportFormat, ProfileFormat> = {
+  'json-resume': {
+    extension: 'json',
+    contentType: 'application/json; charset=utf-8',
+    serialize: profile => JSON.stringify(toJsonResume(profile), null, 2) + '\n',
+  },
+  vcard: {
+    extension: 'vcf',
+    contentType: 'text/vcard; charset=utf-8',
+    serialize: toVCard,
+  },
+};
+
+// The profile's /in/ slug, kept to characters that are safe in file names
+export function profileFileName(profile: ExtractedProfile, format: ProfileExportFormat): string {
+  const base = (profile.canonicalId || profile.profileData.id).replace(/[^\w.-]+/g, '_').replace(/^\.+/, '') || `profile_${profile.id}`;
+  return `${base}.${PROFILE_EXPORT_FORMATS[format].extension}`;
+}
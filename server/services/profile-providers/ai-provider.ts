@@ -0,0 +1,18 @@
+import type { ProfileData } from '@shared/schema';
+import type { AIProfileExtractor } from '../ai-profile-extractor';
+import type { ProfileProvider, ProfileRequest } from './types';
+import { toLinkedInProfileFormat } from './format';
+
+// Profile data inferred by the AI extractor from the URL alone
+export class AIProfileProvider implements ProfileProvider {
+  readonly name = 'ai' as const;
+  readonly requiresLinkedInAuth = false;
+  readonly isSynthetic = true;
+
+  constructor(private aiProfileExtractor: AIProfileExtractor) {}
+
+  async extractProfile({ profileUrl }: ProfileRequest): Promise<ProfileData> {
+    const extractedProfile = await this.aiProfileExtractor.extractProfileFromURL(profileUrl);
+    return toLinkedInProfileFormat(profileUrl, extractedProfile);
+  }
+}
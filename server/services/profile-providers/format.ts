@@ -0,0 +1,120 @@
+import { getCanonicalLinkedInId } from '@shared/linkedin-url';
+import { profileDataSchema, type ProfileData } from '@shared/schema';
+
+interface GeneratedProfile {
+  firstName: string;
+  lastName: string;
+  headline: string;
+  summary: string;
+  industry: string;
+  location: string;
+  currentPosition?: string;
+  currentCompany?: string;
+  skills: string[];
+  experience: Array<{
+    title: string;
+    company: string;
+    duration: string;
+    description: string;
+  }>;
+  education: Array<{
+    school: string;
+    degree: string;
+    field: string;
+    year: string;
+  }>;
+  email?: string;
+  phone?: string;
+  connections?: number;
+  profilePicture?: string;
+}
+
+// Convert AI/mock output (experience, duration, field) to the canonical ProfileData shape
+export function toLinkedInProfileFormat(profileUrl: string, profile: GeneratedProfile): ProfileData {
+  return {
+    id: getCanonicalLinkedInId(profileUrl) ?? 'unknown',
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    headline: profile.headline,
+    summary: profile.summary,
+    industry: profile.industry,
+    location: profile.location,
+    publicProfileUrl: profileUrl,
+    positions: profile.experience.map(exp => ({
+      title: exp.title,
+      company: exp.company,
+      startDate: exp.duration?.split('-')[0]?.trim() || '',
+      endDate: exp.duration?.split('-')[1]?.trim() || undefined,
+      description: exp.description
+    })),
+    education: profile.education.map(edu => ({
+      school: edu.school,
+      degree: edu.degree,
+      fieldOfStudy: edu.field,
+      startDate: edu.year,
+      endDate: edu.year
+    })),
+    skills: profile.skills,
+    currentPosition: profile.currentPosition,
+    currentCompany: profile.currentCompany,
+    email: profile.email,
+    phone: profile.phone,
+    connections: profile.connections,
+    profilePictureUrl: profile.profilePicture
+  };
+}
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') return text((value as Record<string, unknown>).name);
+  return String(value);
+}
+
+function list(value: unknown): Record<string, any>[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+/**
+ * Rebuilds profile data saved before profileDataSchema existed: the generated
+ * shape (name, experience with duration, education field/year), company
+ * objects, null end dates and rows without an id. Throws if the result still
+ * doesn't validate.
+ */
+export function toProfileData(raw: unknown, fallback: { id: string; publicProfileUrl: string }): ProfileData {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+  const [firstName, ...otherNames] = text(data.name)?.trim().split(/\s+/) ?? [];
+  const positions = list(data.positions).length > 0 ? list(data.positions) : list(data.experience);
+  const connections = Number(data.connections);
+
+  return profileDataSchema.parse({
+    id: text(data.id) || fallback.id,
+    firstName: text(data.firstName) ?? firstName,
+    lastName: text(data.lastName) ?? (otherNames.join(' ') || undefined),
+    headline: text(data.headline),
+    summary: text(data.summary),
+    industry: text(data.industry),
+    location: text(data.location),
+    publicProfileUrl: text(data.publicProfileUrl) || fallback.publicProfileUrl,
+    profilePictureUrl: text(data.profilePictureUrl) ?? text(data.profilePicture),
+    currentPosition: text(data.currentPosition),
+    currentCompany: text(data.currentCompany),
+    email: text(data.email),
+    phone: text(data.phone),
+    connections: Number.isInteger(connections) && connections >= 0 ? connections : undefined,
+    skills: Array.isArray(data.skills) ? data.skills.map(text).filter(Boolean) : undefined,
+    positions: positions.map(pos => ({
+      title: text(pos.title),
+      company: text(pos.company) ?? text(pos.companyName),
+      startDate: text(pos.startDate) ?? (text(pos.duration)?.split('-')[0]?.trim() || undefined),
+      endDate: text(pos.endDate) ?? (text(pos.duration)?.split('-')[1]?.trim() || undefined),
+      description: text(pos.description),
+    })),
+    education: list(data.education).map(edu => ({
+      school: text(edu.school) ?? text(edu.schoolName),
+      degree: text(edu.degree) ?? text(edu.degreeName),
+      fieldOfStudy: text(edu.fieldOfStudy) ?? text(edu.field),
+      startDate: text(edu.startDate) ?? text(edu.year),
+      endDate: text(edu.endDate) ?? text(edu.year),
+    })),
+  });
+}
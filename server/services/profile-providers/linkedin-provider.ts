@@ -0,0 +1,19 @@
+import type { ProfileData } from '@shared/schema';
+import type { LinkedInService } from '../linkedin-api';
+import type { ProfileProvider, ProfileRequest } from './types';
+
+// Real profile data from the official LinkedIn API
+export class LinkedInProfileProvider implements ProfileProvider {
+  readonly name = 'linkedin' as const;
+  readonly requiresLinkedInAuth = true;
+  readonly isSynthetic = false;
+
+  constructor(private linkedinService: LinkedInService) {}
+
+  async extractProfile({ profileUrl, userId, accessToken }: ProfileRequest): Promise<ProfileData> {
+    if (!accessToken) {
+      throw new Error('unauthorized_token_expired');
+    }
+    return this.linkedinService.getProfile(accessToken, profileUrl, userId);
+  }
+}
@@ -0,0 +1,36 @@
+import type { ProfileData } from '@shared/schema';
+import { mockProfileGenerator } from '../mock-profile-generator';
+import type { ProfileProvider, ProfileRequest } from './types';
+import { toLinkedInProfileFormat } from './format';
+import { CONFIG } from '../../config/constants';
+import { ProfileExtractionError, RateLimitError } from '../../types/errors';
+
+// The errors the LinkedIn provider throws, so demo jobs exercise the same handling
+const SIMULATED_ERRORS: Array<(profileUrl: string) => Error> = [
+  () => new RateLimitError(),
+  profileUrl => new ProfileExtractionError(CONFIG.ERROR_TYPES.NOT_FOUND, 'Simulated LinkedIn API error: profile not found', profileUrl),
+  profileUrl => new ProfileExtractionError(CONFIG.ERROR_TYPES.ACCESS_RESTRICTED, 'Simulated LinkedIn API error: access restricted', profileUrl),
+  profileUrl => new ProfileExtractionError(CONFIG.ERROR_TYPES.CAPTCHA, 'Simulated LinkedIn API error: captcha required', profileUrl),
+];
+
+// Generated demo data with realistic latency and occasional API-style errors
+export class MockProfileProvider implements ProfileProvider {
+  readonly name = 'mock' as const;
+  readonly requiresLinkedInAuth = false;
+  readonly isSynthetic = true;
+
+  private readonly successRate = 0.95;
+
+  async extractProfile({ profileUrl }: ProfileRequest): Promise<ProfileData> {
+    // Simulate realistic API delay
+    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
+
+    if (Math.random() >= this.successRate) {
+      // Simulate various LinkedIn API errors
+      throw SIMULATED_ERRORS[Math.floor(Math.random() * SIMULATED_ERRORS.length)](profileUrl);
+    }
+
+    const extractedProfile = mockProfileGenerator.generateProfileFromUrl(profileUrl);
+    return toLinkedInProfileFormat(profileUrl, extractedProfile);
+  }
+}
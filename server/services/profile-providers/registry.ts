@@ -0,0 +1,26 @@
+import type { ProfileProviderName } from '@shared/schema';
+import type { ProfileProvider } from './types';
+
+export class ProfileProviderRegistry {
+  private providers: Map<ProfileProviderName, ProfileProvider> = new Map();
+
+  register(provider: ProfileProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  has(name: string): name is ProfileProviderName {
+    return this.providers.has(name as ProfileProviderName);
+  }
+
+  get(name: string): ProfileProvider {
+    const provider = this.providers.get(name as ProfileProviderName);
+    if (!provider) {
+      throw new Error(`Profile provider ${name} not registered`);
+    }
+    return provider;
+  }
+
+  list(): ProfileProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
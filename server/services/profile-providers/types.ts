@@ -0,0 +1,20 @@
+import type { ProfileData, ProfileProviderName } from '@shared/schema';
+
+export interface ProfileRequest {
+  profileUrl: string;
+  userId: number;
+  accessToken?: string; // Only present for providers that require LinkedIn auth
+}
+
+/**
+ * A source of profile data. Every provider returns profiles in the canonical
+ * ProfileData shape (positions, education, ...) so the rest of the pipeline
+ * does not care where the data came from. The job queue validates the result
+ * against profileDataSchema before saving it.
+ */
+export interface ProfileProvider {
+  readonly name: ProfileProviderName;
+  readonly requiresLinkedInAuth: boolean;
+  readonly isSynthetic: boolean; // True when the data is generated rather than real
+  extractProfile(request: ProfileRequest): Promise<ProfileData>;
+}
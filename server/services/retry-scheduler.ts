@@ -0,0 +1,40 @@
+import type { JobQueue } from './job-queue';
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+/**
+ * Periodically hands finished jobs back to the queue once their 'retrying'
+ * profiles are past the backoff set when they failed.
+ */
+export class RetryScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor(private jobQueue: JobQueue) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), CONFIG.RETRY_SCHEDULER.POLL_INTERVAL);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.jobQueue.requeueDueRetries();
+    } catch (error) {
+      logger.error('Retry pass failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
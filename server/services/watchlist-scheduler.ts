@@ -0,0 +1,176 @@
+import type { Job, Watchlist } from '@shared/schema';
+import { diffProfileData, describeProfileChanges } from '@shared/profile-diff';
+import { jobScopeOf, type IStorage } from '../storage';
+import type { JobQueue } from './job-queue';
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+const ACTIVE_JOB_STATUSES = ['pending', 'processing', 'paused', 'reauth_required'];
+
+export function nextWatchlistRun(schedule: string, from: Date): Date {
+  const next = new Date(from);
+  switch (schedule) {
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+    default:
+      next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+/**
+ * Re-extracts watched profiles on each watchlist's schedule, then compares
+ * every fresh extraction with the previous one and notifies the owner of
+ * changes to the fields the watchlist tracks.
+ */
+export class WatchlistScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor(private storage: IStorage, private jobQueue: JobQueue) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), CONFIG.WATCHLISTS.POLL_INTERVAL);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Starts a re-extraction job for the watchlist and schedules its next run.
+   * Returns null when the previous run is still in progress or there is
+   * nothing to watch.
+   */
+  async runWatchlist(watchlist: Watchlist): Promise<Job | null> {
+    const now = new Date();
+    const nextRunAt = nextWatchlistRun(watchlist.schedule, now);
+
+    if (watchlist.lastJobId) {
+      const previousJob = await this.storage.getJob(watchlist.lastJobId);
+      if (previousJob && ACTIVE_JOB_STATUSES.includes(previousJob.status)) {
+        await this.storage.updateWatchlist(watchlist.id, { nextRunAt });
+        return null;
+      }
+    }
+
+    const members = await this.storage.getWatchlistMembers(watchlist.id);
+    if (members.length === 0) {
+      await this.storage.updateWatchlist(watchlist.id, { nextRunAt });
+      return null;
+    }
+
+    const batchSize = 50;
+    const job = await this.storage.createJob({
+      userId: watchlist.userId,
+      fileName: `Watchlist: ${watchlist.name}`,
+      totalProfiles: members.length,
+      batchSize,
+      filePath: '',
+    });
+    for (const member of members) {
+      await this.storage.createProfile({
+        jobId: job.id,
+        linkedinUrl: member.linkedinUrl,
+        canonicalId: member.canonicalId,
+        status: 'pending',
+      });
+    }
+
+    // Always extract fresh data; a cached copy would show no changes
+    await this.storage.updateJobStatus(job.id, 'processing', {
+      startedAt: now,
+      batchSize,
+      provider: watchlist.provider,
+      cacheMaxAgeDays: 0,
+      watchlistId: watchlist.id,
+    });
+    await this.jobQueue.addJob({
+      jobId: job.id,
+      userId: watchlist.userId,
+      filePath: job.filePath,
+      batchSize,
+    });
+
+    await this.storage.updateWatchlist(watchlist.id, {
+      lastRunAt: now,
+      lastJobId: job.id,
+      nextRunAt,
+    });
+    logger.info(`Watchlist ${watchlist.id} started job ${job.id} for ${members.length} profiles`);
+
+    return job;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const watchlist of await this.storage.getDueWatchlists(new Date())) {
+        await this.runWatchlist(watchlist);
+      }
+      for (const watchlist of await this.storage.getWatchlistsAwaitingAlerts()) {
+        await this.sendAlerts(watchlist);
+      }
+    } catch (error) {
+      logger.error('Watchlist pass failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Notifies the owner once per finished watchlist job
+  private async sendAlerts(watchlist: Watchlist): Promise<void> {
+    const jobId = watchlist.lastJobId!;
+    const job = await this.storage.getJob(jobId);
+    if (job && ACTIVE_JOB_STATUSES.includes(job.status)) return;
+
+    const trackedFields = new Set((watchlist.trackedFields as string[] | null) ?? []);
+    const profiles = job ? await this.storage.getProfilesByJobAndStatus(jobId, ['success']) : [];
+
+    for (const profile of profiles) {
+      if (profile.cacheHit || !profile.canonicalId) continue;
+
+      const snapshots = await this.storage.getProfileSnapshots(profile.canonicalId, jobScopeOf(job!));
+      const index = snapshots.findIndex(snapshot => snapshot.profileId === profile.id);
+      if (index <= 0) continue;
+      const current = snapshots[index];
+      const previous = snapshots
+        .slice(0, index)
+        .reverse()
+        .find(snapshot => snapshot.provider === current.provider);
+      if (!previous) continue;
+
+      const changes = diffProfileData(previous.profileData, current.profileData)
+        .filter(change => trackedFields.has(change.field));
+      if (changes.length === 0) continue;
+
+      const name = [current.profileData.firstName, current.profileData.lastName].filter(Boolean).join(' ');
+      await this.storage.createNotification({
+        userId: watchlist.userId,
+        type: 'profile_change',
+        title: name || profile.canonicalId,
+        message: describeProfileChanges(changes).join('; '),
+        data: {
+          watchlistId: watchlist.id,
+          jobId,
+          profileId: profile.id,
+          canonicalId: profile.canonicalId,
+          changes,
+        },
+      });
+    }
+
+    await this.storage.updateWatchlist(watchlist.id, { alertedJobId: jobId });
+  }
+}
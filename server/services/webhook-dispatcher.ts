@@ -0,0 +1,257 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import type { Job, Profile, Webhook, WebhookDelivery, WebhookEvent } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../types/errors';
+
+export interface WebhookPayload {
+  id: string; // Shared by every delivery of the same event
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export function toWebhookJob(job: Job): Record<string, unknown> {
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    provider: job.provider,
+    totalProfiles: job.totalProfiles,
+    processedProfiles: job.processedProfiles || 0,
+    successfulProfiles: job.successfulProfiles || 0,
+    failedProfiles: job.failedProfiles || 0,
+    retryingProfiles: job.retryingProfiles || 0,
+    watchlistId: job.watchlistId,
+    startedAt: job.startedAt?.toISOString() ?? null,
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+export function toWebhookProfile(profile: Profile): Record<string, unknown> {
+  return {
+    id: profile.id,
+    jobId: profile.jobId,
+    linkedinUrl: profile.linkedinUrl,
+    canonicalId: profile.canonicalId,
+    cacheHit: profile.cacheHit,
+    extractedAt: profile.extractedAt?.toISOString() ?? null,
+    profileData: profile.profileData,
+  };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 of "<timestamp>.<body>"
+ * with the webhook's secret, hex encoded. Receivers recompute it over the raw
+ * body and the X-Webhook-Timestamp header.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Loopback, private, link-local, unique-local, shared and reserved ranges a
+// webhook must not reach: the server would POST signed job data into its own network
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:7f00:1 or ::ffff:127.0.0.1) is checked as the IPv4 address it carries
+  const mapped = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (mapped) {
+    const ipv4 = mapped[1] ?? [parseInt(mapped[2], 16), parseInt(mapped[3], 16)]
+      .flatMap(word => [word >> 8, word & 0xff]).join('.');
+    return PRIVATE_ADDRESSES.check(ipv4, 'ipv4');
+  }
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Rejects webhook URLs that resolve to an address inside the server's own
+ * network, and in production URLs on a non-default port. Checked when a
+ * webhook is saved and again before every delivery, since DNS can change.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const { hostname, port } = new URL(url);
+  if (process.env.NODE_ENV === 'production' && port !== '') {
+    throw new ValidationError('Webhook URL must use the default port');
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    throw new ValidationError(`Webhook host ${host} could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new ValidationError('Webhook URL must point to a public address');
+  }
+}
+
+/**
+ * Sends job lifecycle events to the webhooks users registered for them. Every
+ * delivery is logged in `webhook_deliveries`; failed ones are retried with
+ * exponential backoff by the poller until CONFIG.WEBHOOKS.MAX_ATTEMPTS.
+ */
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  constructor(private storage: IStorage) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), CONFIG.WEBHOOKS.POLL_INTERVAL);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queues the event for each of the user's active webhooks subscribed to it
+   * and makes the first attempt in the background. Never throws, so callers
+   * in the job pipeline don't fail because of a webhook. `data` may be a
+   * loader, called only when someone is subscribed.
+   */
+  async emit(
+    userId: number,
+    event: WebhookEvent,
+    data: Record<string, unknown> | (() => Promise<Record<string, unknown>>)
+  ): Promise<void> {
+    try {
+      const subscribed = (await this.storage.getWebhooksByUser(userId))
+        .filter(webhook => webhook.active && (webhook.events as string[]).includes(event));
+      if (subscribed.length === 0) return;
+
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        data: typeof data === 'function' ? await data() : data,
+      };
+
+      for (const webhook of subscribed) {
+        // The poller leaves it alone until the first attempt has had time to finish
+        const delivery = await this.storage.createWebhookDelivery({
+          webhookId: webhook.id,
+          event,
+          payload,
+          status: 'pending',
+          nextAttemptAt: new Date(Date.now() + CONFIG.WEBHOOKS.REQUEST_TIMEOUT * 2),
+        });
+        this.deliver(webhook, delivery).catch(error => {
+          logger.error(`Webhook delivery ${delivery.id} failed`, error);
+        });
+      }
+    } catch (error) {
+      logger.error(`Failed to queue webhook event ${event} for user ${userId}`, error);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = await this.storage.getDueWebhookDeliveries(new Date(), CONFIG.WEBHOOKS.BATCH_SIZE);
+      for (const delivery of due) {
+        const webhook = await this.storage.getWebhook(delivery.webhookId);
+        if (!webhook || !webhook.active) {
+          await this.storage.updateWebhookDelivery(delivery.id, {
+            status: 'failed',
+            nextAttemptAt: null,
+            error: webhook ? 'Webhook disabled' : 'Webhook deleted',
+          });
+          continue;
+        }
+        await this.deliver(webhook, delivery);
+      }
+    } catch (error) {
+      logger.error('Webhook retry pass failed', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(webhook: Webhook, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    let blocked = false;
+    try {
+      await assertPublicWebhookUrl(webhook.url);
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'LinkedInHarvester-Webhooks/1.0',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(CONFIG.WEBHOOKS.REQUEST_TIMEOUT),
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : 'Request failed';
+      blocked = fetchError instanceof ValidationError;
+    }
+
+    if (!error) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: 'delivered',
+        attempts,
+        responseStatus,
+        error: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+      return;
+    }
+
+    // A target that isn't allowed won't become allowed by retrying
+    const giveUp = blocked || attempts >= CONFIG.WEBHOOKS.MAX_ATTEMPTS;
+    const backoff = Math.min(CONFIG.WEBHOOKS.BASE_DELAY * 2 ** (attempts - 1), CONFIG.WEBHOOKS.MAX_DELAY);
+    await this.storage.updateWebhookDelivery(delivery.id, {
+      status: giveUp ? 'failed' : 'pending',
+      attempts,
+      responseStatus,
+      error,
+      nextAttemptAt: giveUp ? null : new Date(Date.now() + backoff),
+    });
+    if (giveUp) {
+      logger.warn(`Webhook delivery ${delivery.id} to ${webhook.url} failed after ${attempts} attempts: ${error}`);
+    }
+  }
+}
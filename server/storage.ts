@@ -1,14 +1,73 @@
 import { 
-  users, jobs, profiles, apiStats, aiAnalyses, sessions,
+  users, jobs, profiles, apiStats, aiAnalyses, sessions, jobQueue, columnMappingTemplates, exportTemplates, profileCache, profileSnapshots,
+  watchlists, watchlistMembers, notifications, webhooks, webhookDeliveries, apiKeys, workspaces, workspaceMembers,
   type User, type InsertUser,
   type Job, type InsertJob,
+  type QueueEntry, type InsertQueueEntry,
   type Profile, type InsertProfile,
+  type ProfileCacheEntry, type InsertProfileCacheEntry,
+  type ProfileSnapshot, type InsertProfileSnapshot,
+  type Watchlist, type InsertWatchlist,
+  type WatchlistMember, type InsertWatchlistMember,
+  type Notification, type InsertNotification,
+  type Workspace, type InsertWorkspace,
+  type WorkspaceMember, type InsertWorkspaceMember,
+  type ApiKey, type InsertApiKey,
+  type Webhook, type InsertWebhook,
+  type WebhookDelivery, type InsertWebhookDelivery,
   type ApiStats, type InsertApiStats,
   type AiAnalysis, type InsertAiAnalysis,
-  type Session, type InsertSession
+  type Session, type InsertSession,
+  type ColumnMappingTemplate, type InsertColumnMappingTemplate,
+  type ExportTemplate, type InsertExportTemplate
 } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { encryptToken, decryptToken } from "./token-encryption";
+import { logger } from "./utils/logger";
+import { eq, and, or, lt, lte, gt, gte, asc, desc, inArray, isNull, sql, type SQL } from "drizzle-orm";
+
+// A token that can't be decrypted (its key was dropped from TOKEN_ENCRYPTION_KEYS)
+// reads as missing: the account shows as disconnected and its jobs wait for a
+// reconnect, instead of every request that loads the user failing
+function readToken(userId: number, value: string | null): string | null {
+  if (!value) return value;
+  try {
+    return decryptToken(value);
+  } catch (error) {
+    logger.error(`Could not decrypt LinkedIn token of user ${userId}; treating the account as disconnected`, error);
+    return null;
+  }
+}
+
+// LinkedIn tokens are stored encrypted and handed out decrypted
+function withDecryptedTokens(user: User | undefined): User | undefined {
+  if (!user) return undefined;
+  return {
+    ...user,
+    linkedinAccessToken: readToken(user.id, user.linkedinAccessToken),
+    linkedinRefreshToken: readToken(user.id, user.linkedinRefreshToken),
+  };
+}
+
+// Which jobs a listing or statistic covers: a user's personal jobs, or every job of a workspace
+export type JobScope = { userId: number } | { workspaceId: number };
+
+// The scope a job belongs to: its workspace, or its owner's personal jobs
+export function jobScopeOf(job: Job): JobScope {
+  return job.workspaceId !== null ? { workspaceId: job.workspaceId } : { userId: job.userId };
+}
+
+// One page of profiles for a streaming export, in id order. Pages are read
+// with an id cursor: pass the last id of the previous page as afterId.
+export interface ProfilePageQuery {
+  jobIds: number[];
+  statuses?: string[];
+  errorTypes?: string[];
+  from?: Date; // Compared with extractedAt, or lastAttempt when never extracted
+  to?: Date;
+  afterId: number;
+  limit: number;
+}
 
 export interface IStorage {
   // User operations
@@ -29,28 +88,55 @@ export interface IStorage {
   createJob(job: InsertJob): Promise<Job>;
   getJob(id: number): Promise<Job | undefined>;
   getJobsByUser(userId: number): Promise<Job[]>;
+  getJobsByScope(scope: JobScope): Promise<Job[]>;
   updateJobStatus(id: number, status: string, data?: Partial<Job>): Promise<void>;
-  getActiveJob(userId: number): Promise<Job | undefined>;
+  updateJobProgress(id: number, data: Partial<Job>): Promise<void>;
+  getActiveJob(scope: JobScope): Promise<Job | undefined>;
+  getJobsByStatus(status: string): Promise<Job[]>;
+
+  // Job queue operations
+  enqueueJob(entry: InsertQueueEntry): Promise<QueueEntry>;
+  getQueueEntryByJob(jobId: number): Promise<QueueEntry | undefined>;
+  getClaimableQueueEntries(): Promise<QueueEntry[]>;
+  claimQueueEntry(id: number, workerId: string, leaseExpiresAt: Date): Promise<QueueEntry | undefined>;
+  renewQueueLease(id: number, workerId: string, leaseExpiresAt: Date): Promise<boolean>;
+  getLeasedJobCountsByUser(): Promise<Map<number, number>>;
+  updateQueueEntry(id: number, data: Partial<QueueEntry>): Promise<void>;
 
   // Profile operations
   createProfile(profile: InsertProfile): Promise<Profile>;
+  getProfile(id: number): Promise<Profile | undefined>;
   getProfilesByJob(jobId: number): Promise<Profile[]>;
+  getProfilesByJobAndStatus(jobId: number, statuses: string[]): Promise<Profile[]>;
+  getProfilesPage(query: ProfilePageQuery): Promise<Profile[]>;
+  getProfileStatusCounts(jobId: number): Promise<Record<string, number>>;
   updateProfileStatus(id: number, status: string, data?: Partial<Profile>): Promise<void>;
   getFailedProfiles(jobId: number): Promise<Profile[]>;
+  getJobIdsWithDueRetries(now: Date): Promise<number[]>;
+  getSuccessfulProfilesByCanonicalIds(userId: number, canonicalIds: string[]): Promise<Profile[]>;
+
+  // Profile cache operations
+  getCachedProfile(canonicalId: string, provider: string, extractedSince: Date): Promise<ProfileCacheEntry | undefined>;
+  saveCachedProfile(entry: InsertProfileCacheEntry): Promise<void>;
+
+  // Profile snapshot operations
+  createProfileSnapshot(snapshot: InsertProfileSnapshot): Promise<ProfileSnapshot>;
+  getProfileSnapshots(canonicalId: string, scope: JobScope): Promise<ProfileSnapshot[]>; // Extractions made in the scope's jobs
 
   // API Stats operations
   getApiStats(userId: number): Promise<ApiStats | undefined>;
   updateApiStats(userId: number, data: Partial<ApiStats>): Promise<void>;
+  recordApiRequest(userId: number, windowMs: number): Promise<void>; // Counts one call, starting a new window once resetTime has passed
 
   // Analytics
-  getJobStats(userId: number): Promise<{
+  getJobStats(scope: JobScope): Promise<{
     totalProfiles: number;
     successfulProfiles: number;
     failedProfiles: number;
     successRate: string;
   }>;
   
-  getErrorBreakdown(userId: number): Promise<{
+  getErrorBreakdown(scope: JobScope): Promise<{
     captchaBlocked: number;
     profileNotFound: number;
     accessRestricted: number;
@@ -60,6 +146,65 @@ export interface IStorage {
   createAiAnalysis(analysis: InsertAiAnalysis): Promise<AiAnalysis>;
   getAiAnalysisByJob(jobId: number): Promise<AiAnalysis[]>;
   getAiAnalysisByProfile(profileId: number): Promise<AiAnalysis | undefined>;
+
+  // Column mapping templates
+  createColumnMappingTemplate(template: InsertColumnMappingTemplate): Promise<ColumnMappingTemplate>;
+  getColumnMappingTemplatesByUser(userId: number): Promise<ColumnMappingTemplate[]>;
+  deleteColumnMappingTemplate(id: number, userId: number): Promise<boolean>;
+
+  // Export templates
+  createExportTemplate(template: InsertExportTemplate): Promise<ExportTemplate>;
+  getExportTemplatesByUser(userId: number): Promise<ExportTemplate[]>;
+  getExportTemplate(id: number, userId: number): Promise<ExportTemplate | undefined>;
+  deleteExportTemplate(id: number, userId: number): Promise<boolean>;
+
+  // Watchlist operations
+  createWatchlist(watchlist: InsertWatchlist): Promise<Watchlist>;
+  getWatchlist(id: number): Promise<Watchlist | undefined>;
+  getWatchlistsByUser(userId: number): Promise<Watchlist[]>;
+  getDueWatchlists(now: Date): Promise<Watchlist[]>;
+  getWatchlistsAwaitingAlerts(): Promise<Watchlist[]>;
+  updateWatchlist(id: number, data: Partial<Watchlist>): Promise<void>;
+  deleteWatchlist(id: number): Promise<void>;
+  addWatchlistMembers(members: InsertWatchlistMember[]): Promise<void>;
+  getWatchlistMembers(watchlistId: number): Promise<WatchlistMember[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsByUser(userId: number, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<boolean>;
+  markAllNotificationsRead(userId: number): Promise<void>;
+
+  // Workspace operations
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getWorkspacesByUser(userId: number): Promise<(Workspace & { role: string })[]>;
+  updateWorkspace(id: number, data: Partial<Workspace>): Promise<void>;
+  deleteWorkspace(id: number): Promise<void>;
+  addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]>;
+  updateWorkspaceMemberRole(workspaceId: number, userId: number, role: string): Promise<void>;
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<void>;
+
+  // API key operations
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeysByUser(userId: number): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  updateApiKeyLastUsed(id: number, usedAt: Date): Promise<void>;
+  revokeApiKey(id: number, userId: number): Promise<boolean>;
+
+  // Webhook operations
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  getWebhooksByUser(userId: number): Promise<Webhook[]>;
+  updateWebhook(id: number, data: Partial<Webhook>): Promise<void>;
+  deleteWebhook(id: number): Promise<void>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, data: Partial<WebhookDelivery>): Promise<void>;
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -68,11 +213,37 @@ export class MemStorage implements IStorage {
   private profiles: Map<number, Profile>;
   private apiStats: Map<number, ApiStats>;
   private sessions: Map<string, Session>;
+  private queueEntries: Map<number, QueueEntry>;
+  private mappingTemplates: Map<number, ColumnMappingTemplate>;
+  private exportTemplates: Map<number, ExportTemplate>;
+  private watchlists: Map<number, Watchlist>;
+  private watchlistMembers: Map<number, WatchlistMember>;
+  private notifications: Map<number, Notification>;
+  private workspaces: Map<number, Workspace>;
+  private workspaceMembers: Map<number, WorkspaceMember>;
+  private apiKeys: Map<number, ApiKey>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private profileCache: Map<string, ProfileCacheEntry>; // Keyed by provider and canonical id
+  private profileSnapshots: Map<number, ProfileSnapshot>;
   private currentUserId: number;
   private currentJobId: number;
   private currentProfileId: number;
   private currentApiStatsId: number;
   private currentSessionId: number;
+  private currentQueueEntryId: number;
+  private currentMappingTemplateId: number;
+  private currentExportTemplateId: number;
+  private currentWatchlistId: number;
+  private currentWatchlistMemberId: number;
+  private currentNotificationId: number;
+  private currentWorkspaceId: number;
+  private currentWorkspaceMemberId: number;
+  private currentApiKeyId: number;
+  private currentWebhookId: number;
+  private currentWebhookDeliveryId: number;
+  private currentProfileCacheId: number;
+  private currentProfileSnapshotId: number;
 
   constructor() {
     this.users = new Map();
@@ -80,21 +251,47 @@ export class MemStorage implements IStorage {
     this.profiles = new Map();
     this.apiStats = new Map();
     this.sessions = new Map();
+    this.queueEntries = new Map();
+    this.mappingTemplates = new Map();
+    this.exportTemplates = new Map();
+    this.watchlists = new Map();
+    this.watchlistMembers = new Map();
+    this.notifications = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = new Map();
+    this.apiKeys = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.profileCache = new Map();
+    this.profileSnapshots = new Map();
     this.currentUserId = 1;
     this.currentJobId = 1;
     this.currentProfileId = 1;
     this.currentApiStatsId = 1;
     this.currentSessionId = 1;
+    this.currentQueueEntryId = 1;
+    this.currentMappingTemplateId = 1;
+    this.currentExportTemplateId = 1;
+    this.currentWatchlistId = 1;
+    this.currentWatchlistMemberId = 1;
+    this.currentNotificationId = 1;
+    this.currentWorkspaceId = 1;
+    this.currentWorkspaceMemberId = 1;
+    this.currentApiKeyId = 1;
+    this.currentWebhookId = 1;
+    this.currentWebhookDeliveryId = 1;
+    this.currentProfileCacheId = 1;
+    this.currentProfileSnapshotId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
+    return withDecryptedTokens(this.users.get(id));
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
+    return withDecryptedTokens(Array.from(this.users.values()).find(
       (user) => user.username === username,
-    );
+    ));
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -117,17 +314,17 @@ export class MemStorage implements IStorage {
   async updateUserLinkedInTokens(userId: number, accessToken: string, refreshToken: string, expiry: Date): Promise<void> {
     const user = this.users.get(userId);
     if (user) {
-      user.linkedinAccessToken = accessToken;
-      user.linkedinRefreshToken = refreshToken;
+      user.linkedinAccessToken = encryptToken(accessToken);
+      user.linkedinRefreshToken = encryptToken(refreshToken);
       user.linkedinTokenExpiry = expiry;
       this.users.set(userId, user);
     }
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
+    return withDecryptedTokens(Array.from(this.users.values()).find(
       (user) => user.email === email,
-    );
+    ));
   }
 
   async updateUserLastLogin(userId: number): Promise<void> {
@@ -185,6 +382,11 @@ export class MemStorage implements IStorage {
       completedAt: null,
       estimatedCompletion: null,
       processingRate: null,
+      provider: 'mock',
+      columnMapping: insertJob.columnMapping ?? null,
+      cacheMaxAgeDays: 30,
+      watchlistId: null,
+      workspaceId: insertJob.workspaceId ?? null,
       createdAt: new Date(),
     };
     this.jobs.set(id, job);
@@ -201,6 +403,18 @@ export class MemStorage implements IStorage {
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
 
+  private inScope(job: Job, scope: JobScope): boolean {
+    return 'workspaceId' in scope
+      ? job.workspaceId === scope.workspaceId
+      : job.userId === scope.userId && job.workspaceId === null;
+  }
+
+  async getJobsByScope(scope: JobScope): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => this.inScope(job, scope))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
   async updateJobStatus(id: number, status: string, data?: Partial<Job>): Promise<void> {
     const job = this.jobs.get(id);
     if (job) {
@@ -212,12 +426,113 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async getActiveJob(userId: number): Promise<Job | undefined> {
+  async updateJobProgress(id: number, data: Partial<Job>): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      const { status, ...progress } = data;
+      Object.assign(job, progress);
+    }
+  }
+
+  async getActiveJob(scope: JobScope): Promise<Job | undefined> {
     return Array.from(this.jobs.values()).find(
-      job => job.userId === userId && (job.status === 'processing' || job.status === 'paused')
+      job => this.inScope(job, scope) && (job.status === 'processing' || job.status === 'paused' || job.status === 'reauth_required')
     );
   }
 
+  async getJobsByStatus(status: string): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => job.status === status);
+  }
+
+  async enqueueJob(insertEntry: InsertQueueEntry): Promise<QueueEntry> {
+    const existing = await this.getQueueEntryByJob(insertEntry.jobId);
+    if (existing) {
+      Object.assign(existing, insertEntry, {
+        status: 'queued',
+        retryPass: insertEntry.retryPass ?? false,
+        workerId: null,
+        leaseExpiresAt: null,
+        lastError: null,
+        updatedAt: new Date(),
+      });
+      return existing;
+    }
+
+    const id = this.currentQueueEntryId++;
+    const entry: QueueEntry = {
+      ...insertEntry,
+      id,
+      status: 'queued',
+      batchSize: insertEntry.batchSize || 50,
+      retryPass: insertEntry.retryPass ?? false,
+      workerId: null,
+      leaseExpiresAt: null,
+      attempts: 0,
+      lastError: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.queueEntries.set(id, entry);
+    return entry;
+  }
+
+  async getQueueEntryByJob(jobId: number): Promise<QueueEntry | undefined> {
+    return Array.from(this.queueEntries.values()).find(entry => entry.jobId === jobId);
+  }
+
+  async getClaimableQueueEntries(): Promise<QueueEntry[]> {
+    return Array.from(this.queueEntries.values())
+      .filter(entry => this.isClaimable(entry))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async claimQueueEntry(id: number, workerId: string, leaseExpiresAt: Date): Promise<QueueEntry | undefined> {
+    const entry = this.queueEntries.get(id);
+    if (!entry || !this.isClaimable(entry)) {
+      return undefined;
+    }
+
+    Object.assign(entry, {
+      status: 'leased',
+      workerId,
+      leaseExpiresAt,
+      attempts: (entry.attempts || 0) + 1,
+      updatedAt: new Date(),
+    });
+    return entry;
+  }
+
+  async renewQueueLease(id: number, workerId: string, leaseExpiresAt: Date): Promise<boolean> {
+    const entry = this.queueEntries.get(id);
+    if (!entry || entry.status !== 'leased' || entry.workerId !== workerId) {
+      return false;
+    }
+
+    entry.leaseExpiresAt = leaseExpiresAt;
+    entry.updatedAt = new Date();
+    return true;
+  }
+
+  async getLeasedJobCountsByUser(): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    Array.from(this.queueEntries.values())
+      .filter(entry => entry.status === 'leased' && !this.isClaimable(entry))
+      .forEach(entry => counts.set(entry.userId, (counts.get(entry.userId) || 0) + 1));
+    return counts;
+  }
+
+  async updateQueueEntry(id: number, data: Partial<QueueEntry>): Promise<void> {
+    const entry = this.queueEntries.get(id);
+    if (entry) {
+      Object.assign(entry, data, { updatedAt: new Date() });
+    }
+  }
+
+  private isClaimable(entry: QueueEntry): boolean {
+    if (entry.status === 'queued') return true;
+    return entry.status === 'leased' && !!entry.leaseExpiresAt && entry.leaseExpiresAt < new Date();
+  }
+
   async createProfile(insertProfile: InsertProfile): Promise<Profile> {
     const id = this.currentProfileId++;
     const profile: Profile = {
@@ -228,16 +543,54 @@ export class MemStorage implements IStorage {
       errorMessage: null,
       retryCount: 0,
       lastAttempt: null,
+      nextRetryAt: null,
       extractedAt: null,
+      canonicalId: insertProfile.canonicalId ?? null,
+      cacheHit: false,
+      sourceRow: insertProfile.sourceRow ?? null,
+      sourceData: insertProfile.sourceData ?? null,
     };
     this.profiles.set(id, profile);
     return profile;
   }
 
+  async getProfile(id: number): Promise<Profile | undefined> {
+    return this.profiles.get(id);
+  }
+
   async getProfilesByJob(jobId: number): Promise<Profile[]> {
     return Array.from(this.profiles.values()).filter(profile => profile.jobId === jobId);
   }
 
+  async getProfilesByJobAndStatus(jobId: number, statuses: string[]): Promise<Profile[]> {
+    return Array.from(this.profiles.values())
+      .filter(profile => profile.jobId === jobId && statuses.includes(profile.status))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getProfilesPage(query: ProfilePageQuery): Promise<Profile[]> {
+    return Array.from(this.profiles.values())
+      .filter(profile => {
+        const attemptedAt = profile.extractedAt ?? profile.lastAttempt;
+        return profile.id > query.afterId &&
+          query.jobIds.includes(profile.jobId) &&
+          (!query.statuses || query.statuses.includes(profile.status)) &&
+          (!query.errorTypes || (profile.errorType !== null && query.errorTypes.includes(profile.errorType))) &&
+          (!query.from || (!!attemptedAt && attemptedAt >= query.from)) &&
+          (!query.to || (!!attemptedAt && attemptedAt <= query.to));
+      })
+      .sort((a, b) => a.id - b.id)
+      .slice(0, query.limit);
+  }
+
+  async getProfileStatusCounts(jobId: number): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    Array.from(this.profiles.values())
+      .filter(profile => profile.jobId === jobId)
+      .forEach(profile => counts[profile.status] = (counts[profile.status] || 0) + 1);
+    return counts;
+  }
+
   async updateProfileStatus(id: number, status: string, data?: Partial<Profile>): Promise<void> {
     const profile = this.profiles.get(id);
     if (profile) {
@@ -255,6 +608,54 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getJobIdsWithDueRetries(now: Date): Promise<number[]> {
+    const jobIds = new Set<number>();
+    Array.from(this.profiles.values())
+      .filter(profile => profile.status === 'retrying' && (!profile.nextRetryAt || profile.nextRetryAt <= now))
+      .filter(profile => this.jobs.get(profile.jobId)?.status === 'completed')
+      .forEach(profile => jobIds.add(profile.jobId));
+    return Array.from(jobIds);
+  }
+
+  async getSuccessfulProfilesByCanonicalIds(userId: number, canonicalIds: string[]): Promise<Profile[]> {
+    const wanted = new Set(canonicalIds);
+    return Array.from(this.profiles.values()).filter(profile =>
+      profile.status === 'success' &&
+      profile.canonicalId !== null && wanted.has(profile.canonicalId) &&
+      this.jobs.get(profile.jobId)?.userId === userId
+    );
+  }
+
+  async getCachedProfile(canonicalId: string, provider: string, extractedSince: Date): Promise<ProfileCacheEntry | undefined> {
+    const entry = this.profileCache.get(`${provider}:${canonicalId}`);
+    return entry && entry.extractedAt >= extractedSince ? entry : undefined;
+  }
+
+  async saveCachedProfile(insertEntry: InsertProfileCacheEntry): Promise<void> {
+    const key = `${insertEntry.provider}:${insertEntry.canonicalId}`;
+    const existing = this.profileCache.get(key);
+    this.profileCache.set(key, {
+      ...insertEntry,
+      id: existing?.id ?? this.currentProfileCacheId++,
+    });
+  }
+
+  async createProfileSnapshot(insertSnapshot: InsertProfileSnapshot): Promise<ProfileSnapshot> {
+    const id = this.currentProfileSnapshotId++;
+    const snapshot: ProfileSnapshot = { ...insertSnapshot, id };
+    this.profileSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async getProfileSnapshots(canonicalId: string, scope: JobScope): Promise<ProfileSnapshot[]> {
+    return Array.from(this.profileSnapshots.values())
+      .filter(snapshot => {
+        const job = this.jobs.get(snapshot.jobId);
+        return snapshot.canonicalId === canonicalId && job !== undefined && this.inScope(job, scope);
+      })
+      .sort((a, b) => a.extractedAt.getTime() - b.extractedAt.getTime() || a.id - b.id);
+  }
+
   async getApiStats(userId: number): Promise<ApiStats | undefined> {
     return Array.from(this.apiStats.values()).find(stats => stats.userId === userId);
   }
@@ -278,13 +679,23 @@ export class MemStorage implements IStorage {
     this.apiStats.set(stats.id, stats);
   }
 
-  async getJobStats(userId: number): Promise<{
+  async recordApiRequest(userId: number, windowMs: number): Promise<void> {
+    const now = new Date();
+    const stats = await this.getApiStats(userId);
+    if (!stats?.resetTime || stats.resetTime <= now) {
+      await this.updateApiStats(userId, { requestsUsed: 1, resetTime: new Date(now.getTime() + windowMs) });
+    } else {
+      await this.updateApiStats(userId, { requestsUsed: (stats.requestsUsed || 0) + 1 });
+    }
+  }
+
+  async getJobStats(scope: JobScope): Promise<{
     totalProfiles: number;
     successfulProfiles: number;
     failedProfiles: number;
     successRate: string;
   }> {
-    const userJobs = await this.getJobsByUser(userId);
+    const userJobs = await this.getJobsByScope(scope);
     
     const totalProfiles = userJobs.reduce((sum, job) => sum + job.totalProfiles, 0);
     const successfulProfiles = userJobs.reduce((sum, job) => sum + (job.successfulProfiles || 0), 0);
@@ -302,12 +713,12 @@ export class MemStorage implements IStorage {
     };
   }
 
-  async getErrorBreakdown(userId: number): Promise<{
+  async getErrorBreakdown(scope: JobScope): Promise<{
     captchaBlocked: number;
     profileNotFound: number;
     accessRestricted: number;
   }> {
-    const userJobs = await this.getJobsByUser(userId);
+    const userJobs = await this.getJobsByScope(scope);
     const jobIds = userJobs.map(job => job.id);
     
     const allProfiles = Array.from(this.profiles.values())
@@ -340,18 +751,366 @@ export class MemStorage implements IStorage {
     // For in-memory storage, return undefined since we don't persist AI analyses
     return undefined;
   }
+
+  async createColumnMappingTemplate(insertTemplate: InsertColumnMappingTemplate): Promise<ColumnMappingTemplate> {
+    const id = this.currentMappingTemplateId++;
+    const template: ColumnMappingTemplate = {
+      ...insertTemplate,
+      id,
+      createdAt: new Date(),
+    };
+    this.mappingTemplates.set(id, template);
+    return template;
+  }
+
+  async getColumnMappingTemplatesByUser(userId: number): Promise<ColumnMappingTemplate[]> {
+    return Array.from(this.mappingTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteColumnMappingTemplate(id: number, userId: number): Promise<boolean> {
+    const template = this.mappingTemplates.get(id);
+    if (!template || template.userId !== userId) {
+      return false;
+    }
+    return this.mappingTemplates.delete(id);
+  }
+
+  async createExportTemplate(insertTemplate: InsertExportTemplate): Promise<ExportTemplate> {
+    const id = this.currentExportTemplateId++;
+    const template: ExportTemplate = {
+      ...insertTemplate,
+      id,
+      createdAt: new Date(),
+    };
+    this.exportTemplates.set(id, template);
+    return template;
+  }
+
+  async getExportTemplatesByUser(userId: number): Promise<ExportTemplate[]> {
+    return Array.from(this.exportTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getExportTemplate(id: number, userId: number): Promise<ExportTemplate | undefined> {
+    const template = this.exportTemplates.get(id);
+    return template?.userId === userId ? template : undefined;
+  }
+
+  async deleteExportTemplate(id: number, userId: number): Promise<boolean> {
+    const template = this.exportTemplates.get(id);
+    if (!template || template.userId !== userId) {
+      return false;
+    }
+    return this.exportTemplates.delete(id);
+  }
+
+  async createWatchlist(insertWatchlist: InsertWatchlist): Promise<Watchlist> {
+    const id = this.currentWatchlistId++;
+    const watchlist: Watchlist = {
+      ...insertWatchlist,
+      id,
+      provider: insertWatchlist.provider ?? 'mock',
+      active: true,
+      lastRunAt: null,
+      lastJobId: null,
+      alertedJobId: null,
+      createdAt: new Date(),
+    };
+    this.watchlists.set(id, watchlist);
+    return watchlist;
+  }
+
+  async getWatchlist(id: number): Promise<Watchlist | undefined> {
+    return this.watchlists.get(id);
+  }
+
+  async getWatchlistsByUser(userId: number): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => watchlist.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDueWatchlists(now: Date): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => watchlist.active && watchlist.nextRunAt <= now);
+  }
+
+  async getWatchlistsAwaitingAlerts(): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => watchlist.lastJobId !== null && watchlist.lastJobId !== watchlist.alertedJobId);
+  }
+
+  async updateWatchlist(id: number, data: Partial<Watchlist>): Promise<void> {
+    const watchlist = this.watchlists.get(id);
+    if (watchlist) {
+      Object.assign(watchlist, data);
+    }
+  }
+
+  async deleteWatchlist(id: number): Promise<void> {
+    this.watchlists.delete(id);
+    Array.from(this.watchlistMembers.values())
+      .filter(member => member.watchlistId === id)
+      .forEach(member => this.watchlistMembers.delete(member.id));
+  }
+
+  async addWatchlistMembers(insertMembers: InsertWatchlistMember[]): Promise<void> {
+    const existing = new Set(
+      Array.from(this.watchlistMembers.values()).map(member => `${member.watchlistId}:${member.canonicalId}`)
+    );
+    for (const insertMember of insertMembers) {
+      const key = `${insertMember.watchlistId}:${insertMember.canonicalId}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+      const id = this.currentWatchlistMemberId++;
+      this.watchlistMembers.set(id, { ...insertMember, id, addedAt: new Date() });
+    }
+  }
+
+  async getWatchlistMembers(watchlistId: number): Promise<WatchlistMember[]> {
+    return Array.from(this.watchlistMembers.values())
+      .filter(member => member.watchlistId === watchlistId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.currentNotificationId++;
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      data: insertNotification.data ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async getNotificationsByUser(userId: number, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<boolean> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) {
+      return false;
+    }
+    notification.readAt = notification.readAt ?? new Date();
+    return true;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    const now = new Date();
+    Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .forEach(notification => notification.readAt = now);
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const id = this.currentWorkspaceId++;
+    const workspace: Workspace = { ...insertWorkspace, id, createdAt: new Date() };
+    this.workspaces.set(id, workspace);
+    return workspace;
+  }
+
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getWorkspacesByUser(userId: number): Promise<(Workspace & { role: string })[]> {
+    return Array.from(this.workspaceMembers.values())
+      .filter(member => member.userId === userId && this.workspaces.has(member.workspaceId))
+      .map(member => ({ ...this.workspaces.get(member.workspaceId)!, role: member.role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateWorkspace(id: number, data: Partial<Workspace>): Promise<void> {
+    const workspace = this.workspaces.get(id);
+    if (workspace) {
+      Object.assign(workspace, data);
+    }
+  }
+
+  async deleteWorkspace(id: number): Promise<void> {
+    this.workspaces.delete(id);
+    Array.from(this.workspaceMembers.entries())
+      .filter(([, member]) => member.workspaceId === id)
+      .forEach(([memberId]) => this.workspaceMembers.delete(memberId));
+    // Jobs go back to whoever uploaded them
+    Array.from(this.jobs.values())
+      .filter(job => job.workspaceId === id)
+      .forEach(job => job.workspaceId = null);
+  }
+
+  async addWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const id = this.currentWorkspaceMemberId++;
+    const member: WorkspaceMember = { ...insertMember, id, createdAt: new Date() };
+    this.workspaceMembers.set(id, member);
+    return member;
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    return Array.from(this.workspaceMembers.values()).find(
+      member => member.workspaceId === workspaceId && member.userId === userId
+    );
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return Array.from(this.workspaceMembers.values())
+      .filter(member => member.workspaceId === workspaceId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: number, userId: number, role: string): Promise<void> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    if (member) {
+      member.role = role;
+    }
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    if (member) {
+      this.workspaceMembers.delete(member.id);
+    }
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const id = this.currentApiKeyId++;
+    const apiKey: ApiKey = {
+      ...insertApiKey,
+      id,
+      expiresAt: insertApiKey.expiresAt ?? null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(apiKey => apiKey.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async updateApiKeyLastUsed(id: number, usedAt: Date): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) {
+      apiKey.lastUsedAt = usedAt;
+    }
+  }
+
+  async revokeApiKey(id: number, userId: number): Promise<boolean> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey || apiKey.userId !== userId) {
+      return false;
+    }
+    apiKey.revokedAt = apiKey.revokedAt ?? new Date();
+    return true;
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const id = this.currentWebhookId++;
+    const webhook: Webhook = {
+      ...insertWebhook,
+      id,
+      active: true,
+      createdAt: new Date(),
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async getWebhooksByUser(userId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhook => webhook.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateWebhook(id: number, data: Partial<Webhook>): Promise<void> {
+    const webhook = this.webhooks.get(id);
+    if (webhook) {
+      Object.assign(webhook, data);
+    }
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    this.webhooks.delete(id);
+    Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === id)
+      .forEach(delivery => this.webhookDeliveries.delete(delivery.id));
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.currentWebhookDeliveryId++;
+    const delivery: WebhookDelivery = {
+      ...insertDelivery,
+      id,
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+      deliveredAt: null,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, data: Partial<WebhookDelivery>): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (delivery) {
+      Object.assign(delivery, data);
+    }
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
 }
 
 // Database Storage Implementation
 export class DatabaseStorage implements IStorage {
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+    return withDecryptedTokens(user);
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user || undefined;
+    return withDecryptedTokens(user);
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -366,8 +1125,8 @@ export class DatabaseStorage implements IStorage {
     await db
       .update(users)
       .set({
-        linkedinAccessToken: accessToken,
-        linkedinRefreshToken: refreshToken,
+        linkedinAccessToken: encryptToken(accessToken),
+        linkedinRefreshToken: encryptToken(refreshToken),
         linkedinTokenExpiry: expiry,
       })
       .where(eq(users.id, userId));
@@ -375,7 +1134,7 @@ export class DatabaseStorage implements IStorage {
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.email, email));
-    return user || undefined;
+    return withDecryptedTokens(user);
   }
 
   async updateUserLastLogin(userId: number): Promise<void> {
@@ -437,6 +1196,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(jobs.createdAt);
   }
 
+  private scopeCondition(scope: JobScope): SQL | undefined {
+    return 'workspaceId' in scope
+      ? eq(jobs.workspaceId, scope.workspaceId)
+      : and(eq(jobs.userId, scope.userId), isNull(jobs.workspaceId));
+  }
+
+  async getJobsByScope(scope: JobScope): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(this.scopeCondition(scope))
+      .orderBy(desc(jobs.createdAt));
+  }
+
   async updateJobStatus(id: number, status: string, data?: Partial<Job>): Promise<void> {
     const updateData: any = { status };
     if (data) {
@@ -449,17 +1222,120 @@ export class DatabaseStorage implements IStorage {
       .where(eq(jobs.id, id));
   }
 
-  async getActiveJob(userId: number): Promise<Job | undefined> {
+  async updateJobProgress(id: number, data: Partial<Job>): Promise<void> {
+    // Never touches status, so progress writes can't undo a concurrent pause or stop
+    const { status, ...progress } = data;
+    await db
+      .update(jobs)
+      .set(progress)
+      .where(eq(jobs.id, id));
+  }
+
+  async getActiveJob(scope: JobScope): Promise<Job | undefined> {
     const [job] = await db
       .select()
       .from(jobs)
-      .where(eq(jobs.userId, userId))
+      .where(and(
+        this.scopeCondition(scope),
+        inArray(jobs.status, ['processing', 'paused', 'reauth_required'])
+      ))
+      .orderBy(desc(jobs.createdAt))
       .limit(1);
     
-    if (job && (job.status === 'processing' || job.status === 'paused')) {
-      return job;
-    }
-    return undefined;
+    return job || undefined;
+  }
+
+  async getJobsByStatus(status: string): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.status, status));
+  }
+
+  async enqueueJob(insertEntry: InsertQueueEntry): Promise<QueueEntry> {
+    const [entry] = await db
+      .insert(jobQueue)
+      .values({ ...insertEntry, status: 'queued' })
+      .onConflictDoUpdate({
+        target: jobQueue.jobId,
+        set: {
+          status: 'queued',
+          batchSize: insertEntry.batchSize,
+          retryPass: insertEntry.retryPass ?? false,
+          workerId: null,
+          leaseExpiresAt: null,
+          lastError: null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return entry;
+  }
+
+  async getQueueEntryByJob(jobId: number): Promise<QueueEntry | undefined> {
+    const [entry] = await db.select().from(jobQueue).where(eq(jobQueue.jobId, jobId));
+    return entry || undefined;
+  }
+
+  async getClaimableQueueEntries(): Promise<QueueEntry[]> {
+    return await db
+      .select()
+      .from(jobQueue)
+      .where(this.claimableCondition())
+      .orderBy(asc(jobQueue.createdAt));
+  }
+
+  async claimQueueEntry(id: number, workerId: string, leaseExpiresAt: Date): Promise<QueueEntry | undefined> {
+    // Conditional update so that only one worker can win the lease
+    const [entry] = await db
+      .update(jobQueue)
+      .set({
+        status: 'leased',
+        workerId,
+        leaseExpiresAt,
+        attempts: sql`${jobQueue.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(jobQueue.id, id), this.claimableCondition()))
+      .returning();
+    return entry || undefined;
+  }
+
+  async renewQueueLease(id: number, workerId: string, leaseExpiresAt: Date): Promise<boolean> {
+    const renewed = await db
+      .update(jobQueue)
+      .set({ leaseExpiresAt, updatedAt: new Date() })
+      .where(and(
+        eq(jobQueue.id, id),
+        eq(jobQueue.status, 'leased'),
+        eq(jobQueue.workerId, workerId),
+      ))
+      .returning({ id: jobQueue.id });
+    return renewed.length > 0;
+  }
+
+  async getLeasedJobCountsByUser(): Promise<Map<number, number>> {
+    // Leases that have expired belong to dead workers and don't count
+    const rows = await db
+      .select({ userId: jobQueue.userId, count: sql<number>`count(*)::int` })
+      .from(jobQueue)
+      .where(and(eq(jobQueue.status, 'leased'), gt(jobQueue.leaseExpiresAt, new Date())))
+      .groupBy(jobQueue.userId);
+    return new Map(rows.map(row => [row.userId, row.count]));
+  }
+
+  async updateQueueEntry(id: number, data: Partial<QueueEntry>): Promise<void> {
+    await db
+      .update(jobQueue)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(jobQueue.id, id));
+  }
+
+  private claimableCondition() {
+    return or(
+      eq(jobQueue.status, 'queued'),
+      and(eq(jobQueue.status, 'leased'), lt(jobQueue.leaseExpiresAt, new Date())),
+    );
   }
 
   async createProfile(insertProfile: InsertProfile): Promise<Profile> {
@@ -470,11 +1346,57 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
+  async getProfile(id: number): Promise<Profile | undefined> {
+    const [profile] = await db.select().from(profiles).where(eq(profiles.id, id));
+    return profile || undefined;
+  }
+
   async getProfilesByJob(jobId: number): Promise<Profile[]> {
     return await db
       .select()
       .from(profiles)
-      .where(eq(profiles.jobId, jobId));
+      .where(eq(profiles.jobId, jobId))
+      .orderBy(asc(profiles.id));
+  }
+
+  async getProfilesByJobAndStatus(jobId: number, statuses: string[]): Promise<Profile[]> {
+    return await db
+      .select()
+      .from(profiles)
+      .where(and(eq(profiles.jobId, jobId), inArray(profiles.status, statuses)))
+      .orderBy(asc(profiles.id));
+  }
+
+  async getProfilesPage(query: ProfilePageQuery): Promise<Profile[]> {
+    if (query.jobIds.length === 0 || query.statuses?.length === 0) {
+      return [];
+    }
+    const attemptedAt = sql`coalesce(${profiles.extractedAt}, ${profiles.lastAttempt})`;
+    const conditions = [inArray(profiles.jobId, query.jobIds), gt(profiles.id, query.afterId)];
+    if (query.statuses) conditions.push(inArray(profiles.status, query.statuses));
+    if (query.errorTypes) conditions.push(inArray(profiles.errorType, query.errorTypes));
+    // Bound the way drizzle binds timestamp columns
+    if (query.from) conditions.push(sql`${attemptedAt} >= ${query.from.toISOString()}`);
+    if (query.to) conditions.push(sql`${attemptedAt} <= ${query.to.toISOString()}`);
+
+    return await db
+      .select()
+      .from(profiles)
+      .where(and(...conditions))
+      .orderBy(asc(profiles.id))
+      .limit(query.limit);
+  }
+
+  async getProfileStatusCounts(jobId: number): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: profiles.status, count: sql<number>`count(*)::int` })
+      .from(profiles)
+      .where(eq(profiles.jobId, jobId))
+      .groupBy(profiles.status);
+
+    const counts: Record<string, number> = {};
+    rows.forEach(row => counts[row.status] = row.count);
+    return counts;
   }
 
   async updateProfileStatus(id: number, status: string, data?: Partial<Profile>): Promise<void> {
@@ -493,7 +1415,75 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(profiles)
-      .where(eq(profiles.jobId, jobId));
+      .where(and(eq(profiles.jobId, jobId), eq(profiles.status, 'failed')));
+  }
+
+  async getJobIdsWithDueRetries(now: Date): Promise<number[]> {
+    // Only finished jobs are re-queued; running or paused jobs pick up due retries themselves
+    const rows = await db
+      .selectDistinct({ jobId: profiles.jobId })
+      .from(profiles)
+      .innerJoin(jobs, eq(jobs.id, profiles.jobId))
+      .where(and(
+        eq(profiles.status, 'retrying'),
+        or(isNull(profiles.nextRetryAt), lte(profiles.nextRetryAt, now)),
+        eq(jobs.status, 'completed')
+      ));
+    return rows.map(row => row.jobId);
+  }
+
+  async getSuccessfulProfilesByCanonicalIds(userId: number, canonicalIds: string[]): Promise<Profile[]> {
+    if (canonicalIds.length === 0) return [];
+    const rows = await db
+      .select({ profile: profiles })
+      .from(profiles)
+      .innerJoin(jobs, eq(jobs.id, profiles.jobId))
+      .where(and(
+        eq(jobs.userId, userId),
+        eq(profiles.status, 'success'),
+        inArray(profiles.canonicalId, canonicalIds)
+      ));
+    return rows.map(row => row.profile);
+  }
+
+  async getCachedProfile(canonicalId: string, provider: string, extractedSince: Date): Promise<ProfileCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(profileCache)
+      .where(and(
+        eq(profileCache.canonicalId, canonicalId),
+        eq(profileCache.provider, provider),
+        gte(profileCache.extractedAt, extractedSince)
+      ));
+    return entry || undefined;
+  }
+
+  async saveCachedProfile(insertEntry: InsertProfileCacheEntry): Promise<void> {
+    await db
+      .insert(profileCache)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: [profileCache.canonicalId, profileCache.provider],
+        set: { profileData: insertEntry.profileData, extractedAt: insertEntry.extractedAt },
+      });
+  }
+
+  async createProfileSnapshot(insertSnapshot: InsertProfileSnapshot): Promise<ProfileSnapshot> {
+    const [snapshot] = await db
+      .insert(profileSnapshots)
+      .values(insertSnapshot)
+      .returning();
+    return snapshot;
+  }
+
+  async getProfileSnapshots(canonicalId: string, scope: JobScope): Promise<ProfileSnapshot[]> {
+    const rows = await db
+      .select({ snapshot: profileSnapshots })
+      .from(profileSnapshots)
+      .innerJoin(jobs, eq(jobs.id, profileSnapshots.jobId))
+      .where(and(eq(profileSnapshots.canonicalId, canonicalId), this.scopeCondition(scope)))
+      .orderBy(asc(profileSnapshots.extractedAt), asc(profileSnapshots.id));
+    return rows.map(row => row.snapshot);
   }
 
   async getApiStats(userId: number): Promise<ApiStats | undefined> {
@@ -525,13 +1515,31 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getJobStats(userId: number): Promise<{
+  // One statement, so concurrent workers' calls are all counted
+  async recordApiRequest(userId: number, windowMs: number): Promise<void> {
+    const now = new Date();
+    const resetTime = new Date(now.getTime() + windowMs);
+    const windowOver = sql`(${apiStats.resetTime} is null or ${apiStats.resetTime} <= ${now.toISOString()})`;
+    await db
+      .insert(apiStats)
+      .values({ userId, requestsUsed: 1, resetTime, lastUpdated: now })
+      .onConflictDoUpdate({
+        target: apiStats.userId,
+        set: {
+          requestsUsed: sql`case when ${windowOver} then 1 else coalesce(${apiStats.requestsUsed}, 0) + 1 end`,
+          resetTime: sql`case when ${windowOver} then ${resetTime.toISOString()}::timestamp else ${apiStats.resetTime} end`,
+          lastUpdated: now,
+        },
+      });
+  }
+
+  async getJobStats(scope: JobScope): Promise<{
     totalProfiles: number;
     successfulProfiles: number;
     failedProfiles: number;
     successRate: string;
   }> {
-    const userJobs = await this.getJobsByUser(userId);
+    const userJobs = await this.getJobsByScope(scope);
     
     const totalProfiles = userJobs.reduce((sum, job) => sum + job.totalProfiles, 0);
     const successfulProfiles = userJobs.reduce((sum, job) => sum + (job.successfulProfiles || 0), 0);
@@ -549,12 +1557,12 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getErrorBreakdown(userId: number): Promise<{
+  async getErrorBreakdown(scope: JobScope): Promise<{
     captchaBlocked: number;
     profileNotFound: number;
     accessRestricted: number;
   }> {
-    const userJobs = await this.getJobsByUser(userId);
+    const userJobs = await this.getJobsByScope(scope);
     const jobIds = userJobs.map(job => job.id);
     
     let captchaBlocked = 0;
@@ -603,6 +1611,353 @@ export class DatabaseStorage implements IStorage {
       .where(eq(aiAnalyses.profileId, profileId));
     return analysis || undefined;
   }
+
+  async createColumnMappingTemplate(insertTemplate: InsertColumnMappingTemplate): Promise<ColumnMappingTemplate> {
+    const [template] = await db
+      .insert(columnMappingTemplates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async getColumnMappingTemplatesByUser(userId: number): Promise<ColumnMappingTemplate[]> {
+    return await db
+      .select()
+      .from(columnMappingTemplates)
+      .where(eq(columnMappingTemplates.userId, userId))
+      .orderBy(asc(columnMappingTemplates.name));
+  }
+
+  async deleteColumnMappingTemplate(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(columnMappingTemplates)
+      .where(and(eq(columnMappingTemplates.id, id), eq(columnMappingTemplates.userId, userId)))
+      .returning({ id: columnMappingTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async createExportTemplate(insertTemplate: InsertExportTemplate): Promise<ExportTemplate> {
+    const [template] = await db
+      .insert(exportTemplates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async getExportTemplatesByUser(userId: number): Promise<ExportTemplate[]> {
+    return await db
+      .select()
+      .from(exportTemplates)
+      .where(eq(exportTemplates.userId, userId))
+      .orderBy(asc(exportTemplates.name));
+  }
+
+  async getExportTemplate(id: number, userId: number): Promise<ExportTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(exportTemplates)
+      .where(and(eq(exportTemplates.id, id), eq(exportTemplates.userId, userId)));
+    return template || undefined;
+  }
+
+  async deleteExportTemplate(id: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(exportTemplates)
+      .where(and(eq(exportTemplates.id, id), eq(exportTemplates.userId, userId)))
+      .returning({ id: exportTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async createWatchlist(insertWatchlist: InsertWatchlist): Promise<Watchlist> {
+    const [watchlist] = await db
+      .insert(watchlists)
+      .values(insertWatchlist)
+      .returning();
+    return watchlist;
+  }
+
+  async getWatchlist(id: number): Promise<Watchlist | undefined> {
+    const [watchlist] = await db.select().from(watchlists).where(eq(watchlists.id, id));
+    return watchlist || undefined;
+  }
+
+  async getWatchlistsByUser(userId: number): Promise<Watchlist[]> {
+    return await db
+      .select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(asc(watchlists.name));
+  }
+
+  async getDueWatchlists(now: Date): Promise<Watchlist[]> {
+    return await db
+      .select()
+      .from(watchlists)
+      .where(and(eq(watchlists.active, true), lte(watchlists.nextRunAt, now)));
+  }
+
+  async getWatchlistsAwaitingAlerts(): Promise<Watchlist[]> {
+    return await db
+      .select()
+      .from(watchlists)
+      .where(sql`${watchlists.lastJobId} is distinct from ${watchlists.alertedJobId} and ${watchlists.lastJobId} is not null`);
+  }
+
+  async updateWatchlist(id: number, data: Partial<Watchlist>): Promise<void> {
+    await db
+      .update(watchlists)
+      .set(data)
+      .where(eq(watchlists.id, id));
+  }
+
+  async deleteWatchlist(id: number): Promise<void> {
+    await db.delete(watchlistMembers).where(eq(watchlistMembers.watchlistId, id));
+    await db.delete(watchlists).where(eq(watchlists.id, id));
+  }
+
+  async addWatchlistMembers(insertMembers: InsertWatchlistMember[]): Promise<void> {
+    if (insertMembers.length === 0) return;
+    await db
+      .insert(watchlistMembers)
+      .values(insertMembers)
+      .onConflictDoNothing();
+  }
+
+  async getWatchlistMembers(watchlistId: number): Promise<WatchlistMember[]> {
+    return await db
+      .select()
+      .from(watchlistMembers)
+      .where(eq(watchlistMembers.watchlistId, watchlistId))
+      .orderBy(asc(watchlistMembers.id));
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db
+      .insert(notifications)
+      .values(insertNotification)
+      .returning();
+    return notification;
+  }
+
+  async getNotificationsByUser(userId: number, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<boolean> {
+    const [notification] = await db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+    if (!notification) return false;
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), isNull(notifications.readAt)));
+    return true;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const [workspace] = await db
+      .insert(workspaces)
+      .values(insertWorkspace)
+      .returning();
+    return workspace;
+  }
+
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async getWorkspacesByUser(userId: number): Promise<(Workspace & { role: string })[]> {
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+
+  async updateWorkspace(id: number, data: Partial<Workspace>): Promise<void> {
+    await db
+      .update(workspaces)
+      .set(data)
+      .where(eq(workspaces.id, id));
+  }
+
+  async deleteWorkspace(id: number): Promise<void> {
+    // Jobs go back to whoever uploaded them
+    await db.update(jobs).set({ workspaceId: null }).where(eq(jobs.workspaceId, id));
+    await db.delete(workspaceMembers).where(eq(workspaceMembers.workspaceId, id));
+    await db.delete(workspaces).where(eq(workspaces.id, id));
+  }
+
+  async addWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [member] = await db
+      .insert(workspaceMembers)
+      .values(insertMember)
+      .returning();
+    return member;
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return await db
+      .select()
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.id));
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: number, userId: number, role: string): Promise<void> {
+    await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+    await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const [apiKey] = await db
+      .insert(apiKeys)
+      .values(insertApiKey)
+      .returning();
+    return apiKey;
+  }
+
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.id));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey || undefined;
+  }
+
+  async updateApiKeyLastUsed(id: number, usedAt: Date): Promise<void> {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: usedAt })
+      .where(eq(apiKeys.id, id));
+  }
+
+  async revokeApiKey(id: number, userId: number): Promise<boolean> {
+    const [apiKey] = await db
+      .select({ id: apiKeys.id })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId)));
+    if (!apiKey) return false;
+
+    await db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)));
+    return true;
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await db
+      .insert(webhooks)
+      .values(insertWebhook)
+      .returning();
+    return webhook;
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async getWebhooksByUser(userId: number): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(asc(webhooks.id));
+  }
+
+  async updateWebhook(id: number, data: Partial<Webhook>): Promise<void> {
+    await db
+      .update(webhooks)
+      .set(data)
+      .where(eq(webhooks.id, id));
+  }
+
+  async deleteWebhook(id: number): Promise<void> {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+    await db.delete(webhooks).where(eq(webhooks.id, id));
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await db
+      .insert(webhookDeliveries)
+      .values(insertDelivery)
+      .returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, data: Partial<WebhookDelivery>): Promise<void> {
+    await db
+      .update(webhookDeliveries)
+      .set(data)
+      .where(eq(webhookDeliveries.id, id));
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,89 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+/**
+ * Keys are read from TOKEN_ENCRYPTION_KEYS once per module instance, so each
+ * test loads its own copy of the module after setting the variable.
+ */
+
+const oldKey = `old:${Buffer.alloc(32, 1).toString('base64')}`;
+const newKey = `new:${Buffer.alloc(32, 2).toString('base64')}`;
+
+let loads = 0;
+async function withKeys(configured: string | undefined): Promise<typeof import('./token-encryption')> {
+  if (configured === undefined) {
+    delete process.env.TOKEN_ENCRYPTION_KEYS;
+  } else {
+    process.env.TOKEN_ENCRYPTION_KEYS = configured;
+  }
+  return import(`./token-encryption?load=${++loads}`);
+}
+
+describe('token envelope encryption', () => {
+  const originalKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+  afterEach(() => {
+    if (originalKeys === undefined) {
+      delete process.env.TOKEN_ENCRYPTION_KEYS;
+    } else {
+      process.env.TOKEN_ENCRYPTION_KEYS = originalKeys;
+    }
+  });
+
+  it('round-trips tokens through the current key', async () => {
+    const tokens = await withKeys(newKey);
+    const sealed = tokens.encryptToken('AQV-tøken:with/colons+');
+    assert.match(sealed, /^enc:v1:new:[\w-]+:[\w-]+$/);
+    assert.equal(tokens.isEncryptedToken(sealed), true);
+    assert.equal(tokens.decryptToken(sealed), 'AQV-tøken:with/colons+');
+  });
+
+  it('wraps every value with a fresh data key', async () => {
+    const tokens = await withKeys(newKey);
+    const [first, second] = [tokens.encryptToken('same'), tokens.encryptToken('same')];
+    assert.notEqual(first, second);
+    assert.notEqual(first.split(':')[3], second.split(':')[3]);
+  });
+
+  it('uses the development key when no keys are configured', async () => {
+    const tokens = await withKeys(undefined);
+    const sealed = tokens.encryptToken('token');
+    assert.equal(sealed.split(':')[2], 'dev');
+    assert.equal(tokens.decryptToken(sealed), 'token');
+  });
+
+  it('returns plain-text values unchanged and flags them for re-encryption', async () => {
+    const tokens = await withKeys(newKey);
+    assert.equal(tokens.isEncryptedToken('AQV-plain'), false);
+    assert.equal(tokens.decryptToken('AQV-plain'), 'AQV-plain');
+    assert.equal(tokens.needsReencryption('AQV-plain'), true);
+    assert.equal(tokens.needsReencryption(tokens.encryptToken('AQV-plain')), false);
+  });
+
+  it('decrypts values from a rotated-out key and flags them for re-encryption', async () => {
+    const sealed = (await withKeys(oldKey)).encryptToken('token');
+    const rotated = await withKeys(`${newKey},${oldKey}`);
+    assert.equal(rotated.decryptToken(sealed), 'token');
+    assert.equal(rotated.needsReencryption(sealed), true);
+    assert.equal(rotated.encryptToken('token').split(':')[2], 'new');
+  });
+
+  it('rejects values from a key that is no longer configured', async () => {
+    const sealed = (await withKeys(oldKey)).encryptToken('token');
+    const tokens = await withKeys(newKey);
+    assert.throws(() => tokens.decryptToken(sealed), { message: 'LinkedIn token was encrypted with unknown key "old"' });
+  });
+
+  it('rejects tampered payloads', async () => {
+    const tokens = await withKeys(newKey);
+    const parts = tokens.encryptToken('token').split(':');
+    const payload = Buffer.from(parts[4], 'base64url');
+    payload[payload.length - 1] ^= 1;
+    parts[4] = payload.toString('base64url');
+    assert.throws(() => tokens.decryptToken(parts.join(':')));
+  });
+
+  it('rejects malformed key entries', async () => {
+    const tokens = await withKeys('new:dG9vLXNob3J0');
+    assert.throws(() => tokens.encryptToken('token'), { message: /must look like <id>:<base64 32-byte key>/ });
+  });
+});
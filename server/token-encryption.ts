@@ -0,0 +1,94 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { logger } from './utils/logger';
+
+/**
+ * Envelope encryption for LinkedIn OAuth tokens at rest. Every value is
+ * encrypted with its own random data key (AES-256-GCM), and the data key is
+ * stored next to it, wrapped by a key encryption key from the environment.
+ *
+ * TOKEN_ENCRYPTION_KEYS is a comma-separated list of `<id>:<base64 32-byte key>`.
+ * The first key encrypts, all of them decrypt. To rotate, put a new key first,
+ * run `tsx server/reencrypt-linkedin-tokens.ts`, then remove the old key.
+ */
+
+const PREFIX = 'enc:v1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+let keys: EncryptionKey[] | null = null;
+
+function loadKeys(): EncryptionKey[] {
+  if (keys) return keys;
+
+  const configured = process.env.TOKEN_ENCRYPTION_KEYS?.trim();
+  if (!configured) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TOKEN_ENCRYPTION_KEYS must be set in production');
+    }
+    logger.warn('TOKEN_ENCRYPTION_KEYS is not set; using the development key for LinkedIn tokens');
+    keys = [{ id: 'dev', key: createHash('sha256').update('linkedin-harvester-development-token-key').digest() }];
+    return keys;
+  }
+
+  keys = configured.split(',').map(entry => {
+    const [id, encoded, ...rest] = entry.trim().split(':');
+    const key = Buffer.from(encoded ?? '', 'base64');
+    if (!id || rest.length > 0 || key.length !== 32) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS entries must look like <id>:<base64 32-byte key>');
+    }
+    return { id, key };
+  });
+  return keys;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)), decipher.final()]);
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptToken(plaintext: string): string {
+  const [current] = loadKeys();
+  const dataKey = randomBytes(32);
+  return [PREFIX, current.id, seal(current.key, dataKey), seal(dataKey, Buffer.from(plaintext, 'utf8'))].join(':');
+}
+
+/**
+ * Values written before encryption was introduced are plain text and are
+ * returned unchanged; the re-encrypt command upgrades them.
+ */
+export function decryptToken(value: string): string {
+  if (!isEncryptedToken(value)) {
+    return value;
+  }
+
+  const [, , keyId, wrappedKey, payload] = value.split(':');
+  const encryptionKey = loadKeys().find(key => key.id === keyId);
+  if (!encryptionKey) {
+    throw new Error(`LinkedIn token was encrypted with unknown key "${keyId}"`);
+  }
+  const dataKey = open(encryptionKey.key, wrappedKey);
+  return open(dataKey, payload).toString('utf8');
+}
+
+// True for plain-text values and values wrapped by a key other than the current one
+export function needsReencryption(value: string): boolean {
+  return !isEncryptedToken(value) || value.split(':')[2] !== loadKeys()[0].id;
+}
@@ -35,8 +35,15 @@ export class UnauthorizedError extends AppError {
   }
 }
 
+export class ReauthRequiredError extends AppError {
+  constructor(message: string = 'LinkedIn re-authentication required') {
+    super(message, 401, 'REAUTH_REQUIRED');
+    this.name = 'ReauthRequiredError';
+  }
+}
+
 export class RateLimitError extends AppError {
-  constructor(retryAfter?: number) {
+  constructor(public retryAfter?: number) {
     super('Rate limit exceeded', 429, 'RATE_LIMIT');
     this.name = 'RateLimitError';
     if (retryAfter) {
@@ -1,5 +1,6 @@
 // Simple logger utility for the application
 import { CONFIG } from '../config/constants';
+import { redactSecrets } from './redact';
 
 export enum LogLevel {
   DEBUG = 0,
@@ -37,23 +38,23 @@ class Logger {
       timestamp: new Date(),
       level,
       message,
-      context,
+      context: redactSecrets(context),
     };
 
     const formattedMessage = this.formatMessage(entry);
 
     switch (level) {
       case LogLevel.ERROR:
-        console.error(formattedMessage, context || '');
+        console.error(formattedMessage, entry.context || '');
         break;
       case LogLevel.WARN:
-        console.warn(formattedMessage, context || '');
+        console.warn(formattedMessage, entry.context || '');
         break;
       case LogLevel.INFO:
-        console.info(formattedMessage, context || '');
+        console.info(formattedMessage, entry.context || '');
         break;
       case LogLevel.DEBUG:
-        console.log(formattedMessage, context || '');
+        console.log(formattedMessage, entry.context || '');
         break;
     }
 
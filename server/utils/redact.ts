@@ -0,0 +1,20 @@
+// Masks credentials before request bodies, responses or log context are written out
+const SECRET_KEY_PATTERN = /token|secret|password|authorization|^key$|api[-_]?key/i;
+
+export const REDACTED = '[REDACTED]';
+
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as T;
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date || value instanceof Error) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && entry != null ? REDACTED : redactSecrets(entry),
+    ])
+  ) as T;
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// Spreadsheet columns a user can map besides the LinkedIn URL. Mapped values
+// are stored on the profile's sourceData under these names.
+export const mappedFieldNames = ['name', 'company', 'email'] as const;
+export type MappedFieldName = typeof mappedFieldNames[number];
+
+export const MAPPED_FIELD_LABELS: Record<MappedFieldName, string> = {
+  name: 'Name',
+  company: 'Company',
+  email: 'Email',
+};
+
+// Columns are referenced by key (see getColumnKeys) rather than position, so a
+// template saved for one export still applies when columns are reordered
+export const columnMappingSchema = z.object({
+  sheetName: z.string().optional(),
+  headerRow: z.number().int().min(0).nullable(), // Index of the header row, null when there is none
+  columns: z.object({
+    url: z.string().min(1),
+    name: z.string().optional(),
+    company: z.string().optional(),
+    email: z.string().optional(),
+  }),
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+export interface UploadPreviewSheet {
+  name: string;
+  rowCount: number;
+  rows: string[][]; // The first rows of the sheet, as text
+  suggestedHeaderRow: number | null;
+}
+
+export interface UploadPreview {
+  fileName: string;
+  sheets: UploadPreviewSheet[];
+  suggestedMapping: ColumnMapping | null;
+}
+
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Keys for the columns of a sheet: the header text when there is a header
+ * row, otherwise the column letter. Blank or repeated headers fall back to
+ * including the letter so every key is unique.
+ */
+export function getColumnKeys(rows: unknown[][], headerRow: number | null): string[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = headerRow !== null ? rows[headerRow] ?? [] : [];
+  const seen = new Set<string>();
+
+  return Array.from({ length: width }, (_, index) => {
+    const text = String(header[index] ?? '').trim();
+    let key = text || `Column ${columnLetter(index)}`;
+    if (seen.has(key)) {
+      key = `${key} (${columnLetter(index)})`;
+    }
+    seen.add(key);
+    return key;
+  });
+}
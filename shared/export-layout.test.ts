@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_EXPORT_LAYOUT, exportColumnHeader, exportLayoutSchema } from './export-layout';
+
+describe('exportLayoutSchema', () => {
+  it('fills in the row mode, list separator and sheets', () => {
+    assert.deepEqual(exportLayoutSchema.parse({ columns: [{ field: 'linkedinUrl' }] }), {
+      columns: [{ field: 'linkedinUrl' }],
+      rowPer: 'profile',
+      listSeparator: '; ',
+      sheets: [],
+    });
+  });
+
+  it('trims custom headers', () => {
+    const layout = exportLayoutSchema.parse({ columns: [{ field: 'firstName', header: '  Given name ' }], rowPer: 'position' });
+    assert.deepEqual(layout.columns, [{ field: 'firstName', header: 'Given name' }]);
+    assert.equal(layout.rowPer, 'position');
+  });
+
+  it('rejects unknown fields, row modes and sheets', () => {
+    assert.equal(exportLayoutSchema.safeParse({ columns: [{ field: 'password' }] }).success, false);
+    assert.equal(exportLayoutSchema.safeParse({ columns: [{ field: 'status' }], rowPer: 'skill' }).success, false);
+    assert.equal(exportLayoutSchema.safeParse({ columns: [{ field: 'status' }], sheets: ['skills'] }).success, false);
+  });
+
+  it('requires between 1 and 100 columns', () => {
+    assert.equal(exportLayoutSchema.safeParse({ columns: [] }).success, false);
+    const columns = Array.from({ length: 101 }, () => ({ field: 'status' }));
+    assert.equal(exportLayoutSchema.safeParse({ columns }).success, false);
+  });
+
+  it('accepts the default layout', () => {
+    assert.deepEqual(exportLayoutSchema.parse(DEFAULT_EXPORT_LAYOUT), DEFAULT_EXPORT_LAYOUT);
+  });
+});
+
+describe('exportColumnHeader', () => {
+  it('uses the custom header, or the field label when there is none', () => {
+    assert.equal(exportColumnHeader({ field: 'educationFieldOfStudy', header: 'Major' }), 'Major');
+    assert.equal(exportColumnHeader({ field: 'educationFieldOfStudy' }), 'Field of Study');
+    assert.equal(exportColumnHeader({ field: 'educationFieldOfStudy', header: '' }), 'Field of Study');
+  });
+});
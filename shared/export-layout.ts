@@ -0,0 +1,109 @@
+import { z } from "zod";
+
+// Fields an export column can show. Position and education fields describe one
+// entry: the latest one, or each in turn when rows are flattened by it.
+export const exportFieldNames = [
+  'linkedinUrl', 'jobId', 'status', 'cacheHit', 'sourceRow', 'sourceName', 'sourceCompany', 'sourceEmail',
+  'firstName', 'lastName', 'fullName', 'headline', 'summary', 'location', 'industry',
+  'currentPosition', 'currentCompany', 'email', 'phone', 'connections', 'skills', 'positionCount',
+  'positionTitle', 'positionCompany', 'positionStartDate', 'positionEndDate', 'positionDescription',
+  'educationSchool', 'educationDegree', 'educationFieldOfStudy', 'educationStartDate', 'educationEndDate',
+  'errorType', 'errorMessage', 'retryCount', 'lastAttempt', 'extractedAt',
+] as const;
+export type ExportFieldName = typeof exportFieldNames[number];
+
+export const EXPORT_FIELD_LABELS: Record<ExportFieldName, string> = {
+  linkedinUrl: 'LinkedIn URL',
+  jobId: 'Job ID',
+  status: 'Status',
+  cacheHit: 'From Cache',
+  sourceRow: 'Source Row',
+  sourceName: 'Source Name',
+  sourceCompany: 'Source Company',
+  sourceEmail: 'Source Email',
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  fullName: 'Full Name',
+  headline: 'Headline',
+  summary: 'Summary',
+  location: 'Location',
+  industry: 'Industry',
+  currentPosition: 'Current Position',
+  currentCompany: 'Current Company',
+  email: 'Email',
+  phone: 'Phone',
+  connections: 'Connections',
+  skills: 'Skills',
+  positionCount: 'Positions',
+  positionTitle: 'Position Title',
+  positionCompany: 'Position Company',
+  positionStartDate: 'Position Start',
+  positionEndDate: 'Position End',
+  positionDescription: 'Position Description',
+  educationSchool: 'School',
+  educationDegree: 'Degree',
+  educationFieldOfStudy: 'Field of Study',
+  educationStartDate: 'Education Start',
+  educationEndDate: 'Education End',
+  errorType: 'Error Type',
+  errorMessage: 'Error Message',
+  retryCount: 'Retry Count',
+  lastAttempt: 'Last Attempt',
+  extractedAt: 'Extracted At',
+};
+
+// 'position' and 'education' write one row per entry, repeating the profile
+// columns; profiles without entries still get a single row
+export const exportRowModes = ['profile', 'position', 'education'] as const;
+export type ExportRowMode = typeof exportRowModes[number];
+
+// Extra XLSX sheets, written after the main one in this order
+export const exportSheetNames = ['positions', 'education', 'errors', 'summary'] as const;
+export type ExportSheetName = typeof exportSheetNames[number];
+
+export const EXPORT_SHEET_LABELS: Record<ExportSheetName, string> = {
+  positions: 'Positions',
+  education: 'Education',
+  errors: 'Errors',
+  summary: 'Summary',
+};
+
+export const exportLayoutSchema = z.object({
+  columns: z.array(z.object({
+    field: z.enum(exportFieldNames),
+    header: z.string().trim().max(100).optional(), // Defaults to EXPORT_FIELD_LABELS
+  })).min(1).max(100),
+  rowPer: z.enum(exportRowModes).default('profile'),
+  listSeparator: z.string().max(10).default('; '), // Joins skills
+  sheets: z.array(z.enum(exportSheetNames)).default([]),
+});
+
+export type ExportLayout = z.infer<typeof exportLayoutSchema>;
+
+// Used by exports without a template and by the results file saved with each job
+export const DEFAULT_EXPORT_LAYOUT: ExportLayout = {
+  columns: ([
+    'linkedinUrl', 'jobId', 'status', 'cacheHit', 'sourceName', 'sourceCompany', 'sourceEmail',
+    'firstName', 'lastName', 'headline', 'location', 'industry', 'currentPosition', 'currentCompany',
+    'summary', 'skills', 'positionCount', 'educationSchool', 'educationDegree', 'educationFieldOfStudy',
+    'errorType', 'errorMessage', 'retryCount', 'lastAttempt', 'extractedAt',
+  ] as const).map(field => ({ field })),
+  rowPer: 'profile',
+  listSeparator: '; ',
+  sheets: [],
+};
+
+// Columns added to the user's own file when results are written back into it
+export const DEFAULT_ENRICH_LAYOUT: ExportLayout = {
+  columns: ([
+    'status', 'firstName', 'lastName', 'headline', 'currentPosition', 'currentCompany',
+    'location', 'industry', 'skills', 'extractedAt', 'errorType',
+  ] as const).map(field => ({ field })),
+  rowPer: 'profile',
+  listSeparator: '; ',
+  sheets: [],
+};
+
+export function exportColumnHeader(column: ExportLayout['columns'][number]): string {
+  return column.header || EXPORT_FIELD_LABELS[column.field];
+}
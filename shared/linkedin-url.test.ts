@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCanonicalLinkedInId, normalizeLinkedInUrl } from './linkedin-url';
+
+describe('normalizeLinkedInUrl', () => {
+  it('resolves the variants of a profile URL to one canonical id and URL', () => {
+    for (const text of [
+      'linkedin.com/in/Jane-Doe',
+      'https://www.linkedin.com/in/jane-doe',
+      'http://uk.linkedin.com/in/jane-doe/?trk=public_profile',
+      'https://m.linkedin.com/in/jane-doe/details/experience/',
+      'HTTPS://WWW.LINKEDIN.COM/IN/JANE-DOE/',
+    ]) {
+      assert.deepEqual(normalizeLinkedInUrl(text), { canonicalId: 'jane-doe', url: 'https://www.linkedin.com/in/jane-doe' }, text);
+    }
+  });
+
+  it('finds the URL inside surrounding text and punctuation', () => {
+    for (const text of [
+      'Profile: https://www.linkedin.com/in/jane-doe, added by Sam',
+      '(see linkedin.com/in/jane-doe).',
+      '<https://www.linkedin.com/in/jane-doe>',
+    ]) {
+      assert.equal(getCanonicalLinkedInId(text), 'jane-doe', text);
+    }
+  });
+
+  it('decodes percent-encoded slugs and re-encodes them in the URL', () => {
+    assert.deepEqual(normalizeLinkedInUrl('www.linkedin.com/in/J%C3%BCrgen-M'), {
+      canonicalId: 'jürgen-m',
+      url: 'https://www.linkedin.com/in/j%C3%BCrgen-m',
+    });
+    assert.equal(getCanonicalLinkedInId('https://www.linkedin.com/in/50%off'), '50%off');
+  });
+
+  it('maps legacy /pub/ URLs to the /in/ id they redirect to', () => {
+    assert.equal(getCanonicalLinkedInId('https://www.linkedin.com/pub/jane-doe/1a/2b/3c'), 'jane-doe-3c2b1a');
+  });
+
+  it('returns null for pages that are not profiles', () => {
+    for (const text of [
+      'https://www.linkedin.com/company/acme',
+      'https://www.linkedin.com/jobs/view/123',
+      'https://www.linkedin.com/pub/dir/jane/doe',
+      'https://www.linkedin.com/in/',
+    ]) {
+      assert.equal(normalizeLinkedInUrl(text), null, text);
+    }
+  });
+
+  it('returns null for other hosts and text without a URL', () => {
+    for (const text of ['https://notlinkedin.com/in/jane', 'https://linkedin.com.example.com/in/jane', 'Jane Doe', '']) {
+      assert.equal(normalizeLinkedInUrl(text), null, text);
+    }
+  });
+});
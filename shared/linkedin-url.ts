@@ -0,0 +1,70 @@
+// The same LinkedIn profile shows up under many URLs: with or without scheme
+// and www, on country (uk., de.) or mobile (m.) subdomains, with tracking
+// query strings, sub-pages such as /details/experience, mixed case and
+// percent-encoded slugs. All of them resolve to one canonical id, the
+// lowercased /in/ slug, which identifies the profile across jobs.
+
+const LINKEDIN_URL_PATTERN = /(?<![a-z0-9.-])(?:https?:\/\/)?(?:[a-z0-9-]+\.)*linkedin\.com\/[^\s<>"']+/i;
+const LINKEDIN_HOST_PATTERN = /(^|\.)linkedin\.com$/i;
+// Punctuation that closes a URL in running text, as in "(see linkedin.com/in/jane)."; slugs never end with it
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}]+$/;
+
+export interface NormalizedLinkedInUrl {
+  canonicalId: string;
+  url: string; // https://www.linkedin.com/in/<canonicalId>
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment; // Malformed escapes are kept as typed
+  }
+}
+
+/**
+ * Finds the LinkedIn profile URL in a piece of text and normalizes it.
+ * Returns null when there is none, including for company, job and
+ * directory pages.
+ */
+export function normalizeLinkedInUrl(text: string): NormalizedLinkedInUrl | null {
+  const match = text.match(LINKEDIN_URL_PATTERN);
+  if (!match) return null;
+
+  const found = match[0].replace(TRAILING_PUNCTUATION, '');
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(found) ? found : `https://${found}`);
+  } catch {
+    return null;
+  }
+  if (!LINKEDIN_HOST_PATTERN.test(parsed.hostname)) return null;
+
+  const segments = parsed.pathname
+    .split('/')
+    .filter(Boolean)
+    .map(segment => decodeSegment(segment).normalize('NFC').toLowerCase().trim());
+
+  const [kind, slug, ...rest] = segments;
+  if (!slug || /\s/.test(slug)) return null;
+
+  let canonicalId: string;
+  if (kind === 'in') {
+    canonicalId = slug;
+  } else if (kind === 'pub' && slug !== 'dir') {
+    // Legacy /pub/<name>/<a>/<b>/<c> URLs redirect to /in/<name>-<c><b><a>
+    const suffix = rest.slice(0, 3);
+    canonicalId = suffix.length === 3 ? `${slug}-${suffix.reverse().join('')}` : slug;
+  } else {
+    return null;
+  }
+
+  return {
+    canonicalId,
+    url: `https://www.linkedin.com/in/${encodeURIComponent(canonicalId)}`,
+  };
+}
+
+export function getCanonicalLinkedInId(text: string): string | null {
+  return normalizeLinkedInUrl(text)?.canonicalId ?? null;
+}
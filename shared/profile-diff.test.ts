@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeProfileChanges, diffProfileData, type ProfileChange } from './profile-diff';
+
+const jane = {
+  firstName: 'Jane',
+  lastName: 'Doe',
+  headline: 'Engineering Manager at Acme',
+  location: 'Berlin, Germany',
+  industry: 'Software',
+  summary: 'Builds teams.',
+  positions: [{ title: 'Engineering Manager', company: 'Acme', startDate: '2020-1', description: '' }],
+  education: [{ school: 'TU Berlin', degree: 'MSc', fieldOfStudy: 'Computer Science' }],
+  skills: ['TypeScript', 'Hiring'],
+};
+
+describe('diffProfileData', () => {
+  it('finds no changes between equal extractions', () => {
+    assert.deepEqual(diffProfileData(jane, structuredClone(jane)), []);
+  });
+
+  it('ignores surrounding whitespace and the case of list entries', () => {
+    const after = { ...jane, headline: '  Engineering Manager at Acme ', skills: ['typescript', 'HIRING'] };
+    assert.deepEqual(diffProfileData(jane, after), []);
+  });
+
+  it('reports the current role from the most recent position', () => {
+    const after = {
+      ...jane,
+      positions: [{ title: 'VP Engineering', company: 'Globex', startDate: '2024-3', description: '' }, ...jane.positions],
+    };
+    assert.deepEqual(diffProfileData(jane, after), [
+      { kind: 'value', field: 'company', label: 'Company', before: 'Acme', after: 'Globex' },
+      { kind: 'value', field: 'title', label: 'Title', before: 'Engineering Manager', after: 'VP Engineering' },
+    ]);
+  });
+
+  it('prefers currentPosition and currentCompany over positions', () => {
+    const after = { ...jane, currentPosition: 'Director', currentCompany: 'Acme' };
+    assert.deepEqual(diffProfileData(jane, after), [
+      { kind: 'value', field: 'title', label: 'Title', before: 'Engineering Manager', after: 'Director' },
+    ]);
+  });
+
+  it('reads companies and skills stored as objects by older rows', () => {
+    const older = { ...jane, positions: [{ title: 'Engineering Manager', company: { name: 'Acme' } }], skills: [{ name: 'TypeScript' }, { name: 'Hiring' }] };
+    assert.deepEqual(diffProfileData(older, jane), []);
+  });
+
+  it('lists added and removed skills and education', () => {
+    const after = {
+      ...jane,
+      skills: ['TypeScript', 'Leadership'],
+      education: [...jane.education, { school: 'INSEAD', degree: 'MBA', fieldOfStudy: '' }],
+    };
+    assert.deepEqual(diffProfileData(jane, after), [
+      { kind: 'list', field: 'skills', label: 'Skills', added: ['Leadership'], removed: ['Hiring'] },
+      { kind: 'list', field: 'education', label: 'Education', added: ['MBA, INSEAD'], removed: [] },
+    ]);
+  });
+
+  it('treats a missing profile as empty', () => {
+    const changes = diffProfileData(null, { firstName: 'Jane', skills: ['TypeScript'] });
+    assert.deepEqual(changes, [
+      { kind: 'value', field: 'name', label: 'Name', before: null, after: 'Jane' },
+      { kind: 'list', field: 'skills', label: 'Skills', added: ['TypeScript'], removed: [] },
+    ]);
+    assert.deepEqual(diffProfileData(undefined, {}), []);
+  });
+
+  it('reports cleared fields with a null after value', () => {
+    const after = { ...jane, location: '', industry: undefined };
+    assert.deepEqual(diffProfileData(jane, after), [
+      { kind: 'value', field: 'location', label: 'Location', before: 'Berlin, Germany', after: null },
+      { kind: 'value', field: 'industry', label: 'Industry', before: 'Software', after: null },
+    ]);
+  });
+});
+
+describe('describeProfileChanges', () => {
+  const value = (field: string, label: string, before: string | null, after: string | null) =>
+    ({ kind: 'value', field, label, before, after }) as ProfileChange;
+
+  it('describes company moves, joins and departures', () => {
+    assert.deepEqual(describeProfileChanges([
+      value('company', 'Company', 'Acme', 'Globex'),
+      value('company', 'Company', null, 'Globex'),
+      value('company', 'Company', 'Acme', null),
+    ]), ['Moved from Acme to Globex', 'Joined Globex', 'Left Acme']);
+  });
+
+  it('describes title, location, headline and summary changes', () => {
+    assert.deepEqual(describeProfileChanges([
+      value('title', 'Title', 'Engineer', 'VP Engineering'),
+      value('title', 'Title', 'Engineer', null),
+      value('location', 'Location', 'Berlin', 'London'),
+      value('location', 'Location', 'Berlin', null),
+      value('headline', 'Headline', 'Old', 'New'),
+      value('summary', 'Summary', 'Old', null),
+    ]), [
+      'New title: VP Engineering',
+      'No longer lists a title (was Engineer)',
+      'Relocated from Berlin to London',
+      'Removed location',
+      'Updated headline',
+      'Removed summary',
+    ]);
+  });
+
+  it('describes other fields and list changes generically', () => {
+    assert.deepEqual(describeProfileChanges([
+      value('industry', 'Industry', 'Software', 'Finance'),
+      value('name', 'Name', null, 'Jane Doe'),
+      { kind: 'list', field: 'skills', label: 'Skills', added: ['Go', 'Rust'], removed: ['Perl'] },
+      { kind: 'list', field: 'education', label: 'Education', added: [], removed: ['MBA, INSEAD'] },
+    ]), [
+      'Industry changed from Software to Finance',
+      'Name: Jane Doe',
+      'Skills: added Go, Rust; removed Perl',
+      'Education: removed MBA, INSEAD',
+    ]);
+  });
+});
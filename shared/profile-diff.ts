@@ -0,0 +1,146 @@
+// Field-level comparison of two extractions of the same profile. Works on the
+// stored profileData shape (ProfileData in shared/schema.ts), tolerating
+// missing fields in rows that predate it.
+
+export type ProfileField =
+  | 'name'
+  | 'headline'
+  | 'title'
+  | 'company'
+  | 'location'
+  | 'industry'
+  | 'summary'
+  | 'skills'
+  | 'education';
+
+export type ProfileChange =
+  | { kind: 'value'; field: ProfileField; label: string; before: string | null; after: string | null }
+  | { kind: 'list'; field: ProfileField; label: string; added: string[]; removed: string[] };
+
+type ProfileLike = Record<string, any> | null | undefined;
+
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const trimmed = String(value).trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+function companyName(company: unknown): string | null {
+  if (company && typeof company === 'object') {
+    return text((company as Record<string, unknown>).name);
+  }
+  return text(company);
+}
+
+// Current role: explicit fields first, then the most recent position
+function currentTitle(profile: Record<string, any>): string | null {
+  return text(profile.currentPosition) ?? text(profile.positions?.[0]?.title);
+}
+
+function currentCompany(profile: Record<string, any>): string | null {
+  return text(profile.currentCompany) ?? companyName(profile.positions?.[0]?.company);
+}
+
+function fullName(profile: Record<string, any>): string | null {
+  return text([profile.firstName, profile.lastName].filter(Boolean).join(' '));
+}
+
+function educationEntries(profile: Record<string, any>): string[] {
+  if (!Array.isArray(profile.education)) return [];
+  return profile.education
+    .map((edu: Record<string, any>) => text([edu.degree, edu.school].filter(Boolean).join(', ')))
+    .filter((entry: string | null): entry is string => entry !== null);
+}
+
+function skillList(profile: Record<string, any>): string[] {
+  if (!Array.isArray(profile.skills)) return [];
+  return profile.skills
+    .map((skill: unknown) => text(typeof skill === 'object' && skill ? (skill as Record<string, unknown>).name : skill))
+    .filter((skill: string | null): skill is string => skill !== null);
+}
+
+const VALUE_FIELDS: Array<{ field: ProfileField; label: string; read: (profile: Record<string, any>) => string | null }> = [
+  { field: 'name', label: 'Name', read: fullName },
+  { field: 'company', label: 'Company', read: currentCompany },
+  { field: 'title', label: 'Title', read: currentTitle },
+  { field: 'headline', label: 'Headline', read: p => text(p.headline) },
+  { field: 'location', label: 'Location', read: p => text(p.location) },
+  { field: 'industry', label: 'Industry', read: p => text(p.industry) },
+  { field: 'summary', label: 'Summary', read: p => text(p.summary) },
+];
+
+const LIST_FIELDS: Array<{ field: ProfileField; label: string; read: (profile: Record<string, any>) => string[] }> = [
+  { field: 'skills', label: 'Skills', read: skillList },
+  { field: 'education', label: 'Education', read: educationEntries },
+];
+
+export function diffProfileData(before: ProfileLike, after: ProfileLike): ProfileChange[] {
+  const previous = before || {};
+  const current = after || {};
+  const changes: ProfileChange[] = [];
+
+  for (const { field, label, read } of VALUE_FIELDS) {
+    const oldValue = read(previous);
+    const newValue = read(current);
+    if (oldValue !== newValue) {
+      changes.push({ kind: 'value', field, label, before: oldValue, after: newValue });
+    }
+  }
+
+  for (const { field, label, read } of LIST_FIELDS) {
+    const oldItems = read(previous);
+    const newItems = read(current);
+    const oldKeys = new Set(oldItems.map(item => item.toLowerCase()));
+    const newKeys = new Set(newItems.map(item => item.toLowerCase()));
+    const added = newItems.filter(item => !oldKeys.has(item.toLowerCase()));
+    const removed = oldItems.filter(item => !newKeys.has(item.toLowerCase()));
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({ kind: 'list', field, label, added, removed });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * One-line, recruiter-friendly descriptions of a set of changes, e.g.
+ * "Moved from Acme to Globex" or "New title: VP Engineering".
+ */
+export function describeProfileChanges(changes: ProfileChange[]): string[] {
+  return changes.map(change => {
+    if (change.kind === 'list') {
+      const parts: string[] = [];
+      if (change.added.length > 0) parts.push(`added ${change.added.join(', ')}`);
+      if (change.removed.length > 0) parts.push(`removed ${change.removed.join(', ')}`);
+      return `${change.label}: ${parts.join('; ')}`;
+    }
+
+    const { before, after } = change;
+    switch (change.field) {
+      case 'company':
+        if (before && after) return `Moved from ${before} to ${after}`;
+        return after ? `Joined ${after}` : `Left ${before}`;
+      case 'title':
+        return after ? `New title: ${after}` : `No longer lists a title (was ${before})`;
+      case 'location':
+        if (before && after) return `Relocated from ${before} to ${after}`;
+        return after ? `Location: ${after}` : 'Removed location';
+      case 'headline':
+      case 'summary':
+        return after ? `Updated ${change.label.toLowerCase()}` : `Removed ${change.label.toLowerCase()}`;
+      default:
+        if (before && after) return `${change.label} changed from ${before} to ${after}`;
+        return after ? `${change.label}: ${after}` : `Removed ${change.label.toLowerCase()}`;
+    }
+  });
+}
+
+// One entry of GET /api/profiles/:id/history, newest first
+export interface ProfileHistoryEntry {
+  snapshotId: number;
+  jobId: number;
+  provider: string;
+  extractedAt: string;
+  changes: ProfileChange[] | null; // Since the previous extraction by the same provider; null for its first
+  summary: string[];
+}
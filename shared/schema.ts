@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { columnMappingSchema } from "./column-mapping";
+import { exportLayoutSchema } from "./export-layout";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -34,31 +36,61 @@ export const jobs = pgTable("jobs", {
   completedAt: timestamp("completed_at"),
   estimatedCompletion: timestamp("estimated_completion"),
   processingRate: text("processing_rate"), // e.g., "12.3 profiles/min"
+  provider: text("provider").notNull().default('mock'), // 'linkedin', 'ai', 'mock' - where profile data comes from
+  columnMapping: jsonb("column_mapping"), // ColumnMapping chosen at upload; null when URLs were found by scanning
+  cacheMaxAgeDays: integer("cache_max_age_days").notNull().default(30), // Reuse cached profiles up to this old; 0 always re-extracts
+  watchlistId: integer("watchlist_id"), // Set on scheduled re-extraction jobs
+  workspaceId: integer("workspace_id"), // Shared with the workspace's members; null for the uploader's personal jobs
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  workspaceIdIdx: index("jobs_workspace_id_idx").on(table.workspaceId),
+}));
 
 export const profiles = pgTable("profiles", {
   id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull(),
-  linkedinUrl: text("linkedin_url").notNull(),
+  linkedinUrl: text("linkedin_url").notNull(), // Normalized, see shared/linkedin-url.ts
+  canonicalId: text("canonical_id"), // Canonical /in/ slug; the same person in different jobs shares it
   status: text("status").notNull(), // 'pending', 'processing', 'success', 'failed', 'retrying'
-  profileData: jsonb("profile_data"), // LinkedIn profile information
-  errorType: text("error_type"), // 'captcha', 'not_found', 'access_restricted', 'rate_limit'
+  profileData: jsonb("profile_data").$type<ProfileData>(), // Extracted profile, see profileDataSchema
+  errorType: text("error_type"), // CONFIG.ERROR_TYPES: 'captcha', 'not_found', 'access_restricted', 'rate_limit', 'invalid_data', 'invalid_url'
   errorMessage: text("error_message"),
   retryCount: integer("retry_count").default(0),
   lastAttempt: timestamp("last_attempt"),
+  nextRetryAt: timestamp("next_retry_at"), // When a 'retrying' profile becomes due again
   extractedAt: timestamp("extracted_at"),
-});
+  cacheHit: boolean("cache_hit").notNull().default(false), // profileData came from profile_cache
+  sourceRow: integer("source_row"), // Row of the uploaded file the URL came from
+  sourceData: jsonb("source_data"), // Other cells of that row, keyed by mapped field or column name
+}, (table) => ({
+  canonicalIdIdx: index("profiles_canonical_id_idx").on(table.canonicalId),
+}));
 
 export const apiStats = pgTable("api_stats", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
+  userId: integer("user_id").notNull().unique(), // One row per user; recordApiRequest upserts on it
   requestsUsed: integer("requests_used").default(0),
   requestsLimit: integer("requests_limit").default(1000),
   resetTime: timestamp("reset_time"),
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Durable queue of jobs waiting for, or leased by, a worker
+export const jobQueue = pgTable("job_queue", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  status: text("status").notNull(), // 'queued', 'leased', 'paused', 'completed', 'failed'
+  batchSize: integer("batch_size").default(50),
+  workerId: text("worker_id"), // Lease owner: the worker's id plus a token unique to the claim
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  attempts: integer("attempts").default(0),
+  retryPass: boolean("retry_pass").notNull().default(false), // Re-run of a finished job's retrying profiles
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Session management for JWT refresh tokens
 export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
@@ -68,6 +100,151 @@ export const sessions = pgTable("sessions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Last successful extraction of each profile, shared by all users' jobs.
+// Keyed by provider as well, so mock or AI-inferred data never stands in
+// for an official API result.
+export const profileCache = pgTable("profile_cache", {
+  id: serial("id").primaryKey(),
+  canonicalId: text("canonical_id").notNull(),
+  provider: text("provider").notNull(),
+  profileData: jsonb("profile_data").$type<ProfileData>().notNull(),
+  extractedAt: timestamp("extracted_at").notNull(),
+}, (table) => ({
+  canonicalIdProviderIdx: uniqueIndex("profile_cache_canonical_id_provider_idx").on(table.canonicalId, table.provider),
+}));
+
+// Every fresh extraction of a profile, oldest first, so changes such as a new
+// employer or title can be traced over time. Cache hits add no snapshot.
+export const profileSnapshots = pgTable("profile_snapshots", {
+  id: serial("id").primaryKey(),
+  canonicalId: text("canonical_id").notNull(),
+  profileId: integer("profile_id").notNull(), // The profiles row the extraction was made for
+  jobId: integer("job_id").notNull(),
+  provider: text("provider").notNull(),
+  profileData: jsonb("profile_data").$type<ProfileData>().notNull(),
+  extractedAt: timestamp("extracted_at").notNull(),
+}, (table) => ({
+  canonicalIdIdx: index("profile_snapshots_canonical_id_idx").on(table.canonicalId),
+}));
+
+// Profiles re-extracted on a schedule; changes to the tracked fields raise notifications
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  provider: text("provider").notNull().default('mock'),
+  schedule: text("schedule").notNull(), // 'daily', 'weekly', 'monthly'
+  trackedFields: jsonb("tracked_fields").notNull(), // WatchedField[]
+  active: boolean("active").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastJobId: integer("last_job_id"), // Most recent re-extraction job
+  alertedJobId: integer("alerted_job_id"), // Last job whose changes have been turned into notifications
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const watchlistMembers = pgTable("watchlist_members", {
+  id: serial("id").primaryKey(),
+  watchlistId: integer("watchlist_id").notNull(),
+  canonicalId: text("canonical_id").notNull(),
+  linkedinUrl: text("linkedin_url").notNull(),
+  addedAt: timestamp("added_at").defaultNow(),
+}, (table) => ({
+  watchlistCanonicalIdIdx: uniqueIndex("watchlist_members_watchlist_id_canonical_id_idx").on(table.watchlistId, table.canonicalId),
+}));
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // 'profile_change'
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  data: jsonb("data"), // e.g. watchlistId, jobId, profileId and the changes
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Personal API keys for scripts; only a SHA-256 hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // First characters of the key, shown to tell keys apart
+  keyHash: text("key_hash").notNull(),
+  scopes: jsonb("scopes").notNull(), // ApiKeyScope[]
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"), // Null for keys that don't expire
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  keyHashIdx: uniqueIndex("api_keys_key_hash_idx").on(table.keyHash),
+}));
+
+// Outbound webhooks for job lifecycle events, see server/services/webhook-dispatcher.ts
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC key for the X-Webhook-Signature header
+  events: jsonb("events").notNull(), // WebhookEvent[]
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(), // Exactly the body that is signed and sent
+  status: text("status").notNull(), // 'pending', 'delivered', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // Set while pending
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  webhookIdIdx: index("webhook_deliveries_webhook_id_idx").on(table.webhookId),
+  statusNextAttemptIdx: index("webhook_deliveries_status_next_attempt_at_idx").on(table.status, table.nextAttemptAt),
+}));
+
+// Teams sharing uploads and results; access follows the member's role
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role").notNull(), // WorkspaceRole
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  workspaceUserIdx: uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+  userIdIdx: index("workspace_members_user_id_idx").on(table.userId),
+}));
+
+// Saved column mappings, reusable across uploads with the same layout
+export const columnMappingTemplates = pgTable("column_mapping_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  mapping: jsonb("mapping").notNull(), // ColumnMapping
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Saved export layouts: columns, row flattening and extra sheets
+export const exportTemplates = pgTable("export_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  layout: jsonb("layout").notNull(), // ExportLayout
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const aiAnalyses = pgTable("ai_analyses", {
   id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull(),
@@ -77,6 +254,49 @@ export const aiAnalyses = pgTable("ai_analyses", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Canonical shape of extracted profile data, stored in profiles, profile_cache
+// and profile_snapshots. Every provider's output is validated against it before
+// it is saved; dates are free-form strings such as "2021-3" or "2019".
+export const profilePositionSchema = z.object({
+  title: z.string().default(''),
+  company: z.string().default(''),
+  startDate: z.string().default(''),
+  endDate: z.string().optional(), // Absent for current positions
+  description: z.string().default(''),
+});
+
+export const profileEducationSchema = z.object({
+  school: z.string().default(''),
+  degree: z.string().default(''),
+  fieldOfStudy: z.string().default(''),
+  startDate: z.string().default(''),
+  endDate: z.string().optional(),
+});
+
+export const profileDataSchema = z.object({
+  id: z.string().min(1), // LinkedIn member id or canonical /in/ slug
+  firstName: z.string().default(''),
+  lastName: z.string().default(''),
+  headline: z.string().default(''),
+  summary: z.string().default(''),
+  industry: z.string().default(''),
+  location: z.string().default(''),
+  publicProfileUrl: z.string(),
+  profilePictureUrl: z.string().optional(),
+  currentPosition: z.string().optional(), // Falls back to positions[0] when absent
+  currentCompany: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  connections: z.number().int().nonnegative().optional(),
+  skills: z.array(z.string()).default([]),
+  positions: z.array(profilePositionSchema).default([]), // Most recent first
+  education: z.array(profileEducationSchema).default([]),
+});
+
+export type ProfilePosition = z.infer<typeof profilePositionSchema>;
+export type ProfileEducation = z.infer<typeof profileEducationSchema>;
+export type ProfileData = z.infer<typeof profileDataSchema>;
+
 // User schemas with validation
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -105,12 +325,117 @@ export const insertJobSchema = createInsertSchema(jobs).pick({
   totalProfiles: true,
   batchSize: true,
   filePath: true,
+  workspaceId: true,
+}).extend({
+  columnMapping: columnMappingSchema.nullable().optional(),
 });
 
 export const insertProfileSchema = createInsertSchema(profiles).pick({
   jobId: true,
   linkedinUrl: true,
+  canonicalId: true,
+  status: true,
+  sourceRow: true,
+  sourceData: true,
+});
+
+export const insertQueueEntrySchema = createInsertSchema(jobQueue).pick({
+  jobId: true,
+  userId: true,
+  batchSize: true,
+  retryPass: true,
+});
+
+export const insertProfileCacheEntrySchema = createInsertSchema(profileCache).pick({
+  canonicalId: true,
+  provider: true,
+  extractedAt: true,
+}).extend({
+  profileData: profileDataSchema,
+});
+
+export const insertProfileSnapshotSchema = createInsertSchema(profileSnapshots).pick({
+  canonicalId: true,
+  profileId: true,
+  jobId: true,
+  provider: true,
+  extractedAt: true,
+}).extend({
+  profileData: profileDataSchema,
+});
+
+export const insertWatchlistSchema = createInsertSchema(watchlists).pick({
+  userId: true,
+  name: true,
+  provider: true,
+  schedule: true,
+  trackedFields: true,
+  nextRunAt: true,
+});
+
+export const insertWatchlistMemberSchema = createInsertSchema(watchlistMembers).pick({
+  watchlistId: true,
+  canonicalId: true,
+  linkedinUrl: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  type: true,
+  title: true,
+  message: true,
+  data: true,
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).pick({
+  name: true,
+  createdBy: true,
+});
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).pick({
+  workspaceId: true,
+  userId: true,
+  role: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
+  userId: true,
+  name: true,
+  prefix: true,
+  keyHash: true,
+  scopes: true,
+  expiresAt: true,
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks).pick({
+  userId: true,
+  url: true,
+  secret: true,
+  events: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).pick({
+  webhookId: true,
+  event: true,
+  payload: true,
   status: true,
+  nextAttemptAt: true,
+});
+
+export const insertColumnMappingTemplateSchema = createInsertSchema(columnMappingTemplates).pick({
+  userId: true,
+  name: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  mapping: columnMappingSchema,
+});
+
+export const insertExportTemplateSchema = createInsertSchema(exportTemplates).pick({
+  userId: true,
+  name: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  layout: exportLayoutSchema,
 });
 
 export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses).pick({
@@ -139,15 +464,193 @@ export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type ApiStats = typeof apiStats.$inferSelect;
 export type InsertApiStats = z.infer<typeof insertApiStatsSchema>;
 
+export type QueueEntry = typeof jobQueue.$inferSelect;
+export type InsertQueueEntry = z.infer<typeof insertQueueEntrySchema>;
+
+export type ProfileCacheEntry = typeof profileCache.$inferSelect;
+export type InsertProfileCacheEntry = z.infer<typeof insertProfileCacheEntrySchema>;
+
+export type ProfileSnapshot = typeof profileSnapshots.$inferSelect;
+export type InsertProfileSnapshot = z.infer<typeof insertProfileSnapshotSchema>;
+
+export type Watchlist = typeof watchlists.$inferSelect;
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+
+export type WatchlistMember = typeof watchlistMembers.$inferSelect;
+export type InsertWatchlistMember = z.infer<typeof insertWatchlistMemberSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type ColumnMappingTemplate = typeof columnMappingTemplates.$inferSelect;
+export type InsertColumnMappingTemplate = z.infer<typeof insertColumnMappingTemplateSchema>;
+export type ExportTemplate = typeof exportTemplates.$inferSelect;
+export type InsertExportTemplate = z.infer<typeof insertExportTemplateSchema>;
+
 export type AiAnalysis = typeof aiAnalyses.$inferSelect;
 export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
 
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 
+// Profile data sources; 'ai' and 'mock' produce synthetic data
+export const profileProviderNames = ['linkedin', 'ai', 'mock'] as const;
+export type ProfileProviderName = typeof profileProviderNames[number];
+
+// File types accepted for upload: spreadsheets (including Google Sheets
+// exports), delimited text and plain URL lists
+export const uploadFileExtensions = ['.xlsx', '.xls', '.ods', '.csv', '.tsv', '.txt'] as const;
+
+// Uploads that results can be written back into; .xls and .ods can't be
+// rewritten without losing their formatting
+export const enrichableFileExtensions = ['.xlsx', '.csv', '.tsv'] as const;
+
+// How often a watchlist is re-extracted, and which profile fields raise alerts
+// when they change (a subset of ProfileField in shared/profile-diff.ts)
+export const watchlistSchedules = ['daily', 'weekly', 'monthly'] as const;
+export type WatchlistSchedule = typeof watchlistSchedules[number];
+
+export const watchedFields = ['company', 'title', 'location', 'headline', 'industry'] as const;
+export type WatchedField = typeof watchedFields[number];
+export const defaultWatchedFields: WatchedField[] = ['company', 'title', 'location'];
+
+// A watchlist is created from chosen profiles or from every profile of a past job
+export const createWatchlistSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  schedule: z.enum(watchlistSchedules),
+  provider: z.enum(profileProviderNames).default('mock'),
+  trackedFields: z.array(z.enum(watchedFields)).min(1).default(defaultWatchedFields),
+  profileIds: z.array(z.number().int()).optional(),
+  jobId: z.number().int().optional(),
+}).refine(data => (data.profileIds?.length ?? 0) > 0 || data.jobId !== undefined, {
+  message: "Choose profiles or a job to watch",
+});
+
+export const updateWatchlistSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  schedule: z.enum(watchlistSchedules).optional(),
+  trackedFields: z.array(z.enum(watchedFields)).min(1).optional(),
+  active: z.boolean().optional(),
+});
+
+// What a personal API key may do; browser sessions can do everything
+export const apiKeyScopes = ['jobs:read', 'jobs:write', 'files:write', 'export:read', 'ai:use'] as const;
+export type ApiKeyScope = typeof apiKeyScopes[number];
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+// Job lifecycle events that can be sent to webhooks
+export const webhookEvents = ['job.started', 'job.completed', 'job.failed', 'profile.extracted'] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+
+// The server also resolves the host and refuses private addresses, on save
+// and before each delivery (assertPublicWebhookUrl)
+const webhookUrlSchema = z.string().url().refine(url => /^https?:\/\//i.test(url), {
+  message: "Webhook URL must use http or https",
+}).refine(url => !/^https?:\/\/(?:[^/@]*@)?(?:localhost|[^/:?#]*\.(?:localhost|local|internal))(?:[:/?#]|$)/i.test(url), {
+  message: "Webhook URL must not point to a local host",
+});
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(webhookEvents)).min(1),
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: z.array(z.enum(webhookEvents)).min(1).optional(),
+  active: z.boolean().optional(),
+});
+
+// Workspace roles, most privileged first: viewers see the workspace's jobs and
+// results, editors also upload and run jobs, admins manage members and owners
+// can delete the workspace
+export const workspaceRoles = ['owner', 'admin', 'editor', 'viewer'] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export function hasWorkspaceRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return workspaceRoles.indexOf(role) <= workspaceRoles.indexOf(minimum);
+}
+
+export const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const addWorkspaceMemberSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.enum(workspaceRoles),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+// Values of profiles.status
+export const profileStatuses = ['pending', 'processing', 'success', 'failed', 'retrying'] as const;
+export type ProfileStatus = typeof profileStatuses[number];
+
+// Exports of profiles across the caller's jobs: POST /api/export/:type?format=&jobIds=&from=&to=&status=&errorType=
+export const exportTypes = ['successful', 'failed', 'all'] as const;
+export type ExportType = typeof exportTypes[number];
+
+export const exportFormats = ['xlsx', 'csv', 'ndjson'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Comma-separated or repeated query parameters
+const queryList = z.union([z.string(), z.array(z.string())]).transform(value =>
+  (Array.isArray(value) ? value : [value]).flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean)
+);
+
+export const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default('xlsx'),
+  jobIds: queryList.pipe(z.array(z.coerce.number().int().positive())).describe("Comma-separated job ids").optional(),
+  // Compared with extractedAt, or lastAttempt for profiles never extracted;
+  // a date-only `to` includes that whole day
+  from: z.coerce.date().describe("Earliest extraction or attempt time").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).transform(day => new Date(`${day}T23:59:59.999Z`)).or(z.coerce.date())
+    .describe("Latest extraction or attempt time; a date includes the whole day").optional(),
+  status: queryList.pipe(z.array(z.enum(profileStatuses))).describe("Comma-separated profile statuses").optional(),
+  errorType: queryList.describe("Comma-separated error types").optional(),
+  templateId: z.coerce.number().int().positive().describe("Export template to lay out XLSX and CSV files with").optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: "from must not be after to",
+  path: ["to"],
+});
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+export const enrichQuerySchema = z.object({
+  templateId: z.coerce.number().int().positive().describe("Export template whose columns are added").optional(),
+});
+
+// Contact formats for a single profile (GET /api/profiles/:id/export/:format)
+// or a job's successful profiles as a ZIP (GET /api/jobs/:id/export/:format)
+export const profileExportFormats = ['json-resume', 'vcard'] as const;
+export type ProfileExportFormat = typeof profileExportFormats[number];
+
 // Shared interfaces
 export interface LinkedInUrl {
   url: string;
+  canonicalId: string;
   rowIndex: number;
   additionalData?: Record<string, any>;
 }
@@ -155,8 +658,10 @@ export interface LinkedInUrl {
 export interface ProcessedProfile {
   url: string;
   status: 'success' | 'failed' | 'retrying';
-  data?: any;
+  data?: ProfileData;
   error?: string;
   errorType?: string;
   retryCount?: number;
+  sourceData?: Record<string, any>; // Cells of the uploaded row (see LinkedInUrl.additionalData)
+  cacheHit?: boolean; // Data was reused from the profile cache rather than extracted
 }